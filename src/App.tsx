@@ -1,19 +1,32 @@
 // src/App.tsx
 import React from 'react';
-import { Routes, Route, Link, Navigate } from 'react-router-dom';
+import { Routes, Route, Link, Navigate, useLocation } from 'react-router-dom';
+import { format } from 'date-fns';
 import { useAuth } from './context/AuthContext';
+import { ACCESS, ROLE_LABELS, type Role } from './utils/roles';
+import { USE_MOCK_API } from './api/axiosConfig';
+import { resetMockData } from './mock';
+import NotificationCenter from './components/NotificationCenter';
+import ToastStack from './components/ToastStack';
 
 // Import your page components (ensure .tsx extension if not already there)
 import LoginPage from './pages/LoginPage.tsx';
 import DashboardPage from './pages/DashboardPage.tsx';
 import UsersPage from './pages/UsersPage.tsx';
 import TrainersPage from './pages/TrainersPage.tsx';
+import ClassesPage from './pages/ClassesPage.tsx';
 import MembershipPlansPage from './pages/MembershipPlansPage.tsx';
 import AttendancePage from './pages/AttendancePage.tsx';
+import MemberDetailPage from './pages/MemberDetailPage.tsx';
+import KioskPage from './pages/KioskPage.tsx';
 
-// PrivateRoute component to protect routes
-const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated, loading } = useAuth();
+// Staff open /kiosk to set it up; the kiosk session itself then stays on it
+const KIOSK_ROUTE_ROLES: readonly Role[] = [...ACCESS.launchKiosk, ...ACCESS.useKiosk];
+
+// PrivateRoute component to protect routes, optionally restricted to some roles
+const PrivateRoute: React.FC<{ children: React.ReactNode; roles?: readonly Role[] }> = ({ children, roles }) => {
+  const { isAuthenticated, loading, hasRole } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return <div className="min-h-screen flex items-center justify-center bg-gray-100">
@@ -21,11 +34,24 @@ const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =>
            </div>;
   }
 
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
+  // Remember where the user was so LoginPage can send them back after re-authenticating
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (roles && !hasRole(roles)) {
+    return <div className="p-6 bg-white rounded-lg shadow-md text-center">
+             <h1 className="text-2xl font-bold text-gray-800 mb-2">Access Denied</h1>
+             <p className="text-gray-600">Your role does not have access to this page.</p>
+           </div>;
+  }
+
+  return <>{children}</>;
 };
 
 const App: React.FC = () => {
-  const { isAuthenticated, logout, user, loading } = useAuth();
+  const { isAuthenticated, logout, user, loading, sessionExpiring, sessionExpiresAt, hasRole } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return <div className="min-h-screen flex items-center justify-center bg-gray-100 text-gray-700">
@@ -33,6 +59,16 @@ const App: React.FC = () => {
            </div>;
   }
 
+  // Kiosk mode is full-screen with no sidebar, header or logout, and a kiosk session cannot leave it
+  if (hasRole(ACCESS.useKiosk) || location.pathname === '/kiosk') {
+    return (
+      <Routes>
+        <Route path="/kiosk" element={<PrivateRoute roles={KIOSK_ROUTE_ROLES}><KioskPage /></PrivateRoute>} />
+        <Route path="*" element={<Navigate to="/kiosk" replace />} />
+      </Routes>
+    );
+  }
+
   return (
     <div className="flex min-h-screen bg-gray-100">
       {isAuthenticated && (
@@ -42,40 +78,59 @@ const App: React.FC = () => {
           </div>
           <nav className="flex-grow py-4"> {/* Added py-4 */}
             <ul className="space-y-1"> {/* Adjusted space-y */}
-              <li>
-                <Link to="/dashboard" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out"> {/* More refined styling */}
-                    <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m0 0l7 7 7 7M19 14v6a1 1 0 001 1h3m-9-16v6a1 1 0 001 1h3m-9-11l2-2m0 0l7-7 7 7M3 12h18"></path></svg>
-                    Dashboard
-                </Link>
-              </li>
-              <li>
-                <Link to="/users" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
-                    <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4.354a4 4 0 110 5.292M15 21H9a1 1 0 01-1-1v-1a4 4 0 014-4h.292m-5.375 2.569A4 4 0 019 20h1"></path></svg>
-                    Members
-                </Link>
-              </li>
-              <li>
-                <Link to="/trainers" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
-                    <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg>
-                    Trainers
-                </Link>
-              </li>
-              <li>
-                <Link to="/plans" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
-                    <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
-                    Plans
-                </Link>
-              </li>
-              <li>
-                <Link to="/attendance" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
-                    <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h.01M17 11h.01M9 15h.01M15 15h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
-                    Attendance
-                </Link>
-              </li>
+              {hasRole(ACCESS.viewDashboard) && (
+                <li>
+                  <Link to="/dashboard" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out"> {/* More refined styling */}
+                      <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m0 0l7 7 7 7M19 14v6a1 1 0 001 1h3m-9-16v6a1 1 0 001 1h3m-9-11l2-2m0 0l7-7 7 7M3 12h18"></path></svg>
+                      Dashboard
+                  </Link>
+                </li>
+              )}
+              {hasRole(ACCESS.viewMembers) && (
+                <li>
+                  <Link to="/users" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
+                      <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4.354a4 4 0 110 5.292M15 21H9a1 1 0 01-1-1v-1a4 4 0 014-4h.292m-5.375 2.569A4 4 0 019 20h1"></path></svg>
+                      Members
+                  </Link>
+                </li>
+              )}
+              {hasRole(ACCESS.viewTrainers) && (
+                <li>
+                  <Link to="/trainers" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
+                      <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg>
+                      Trainers
+                  </Link>
+                </li>
+              )}
+              {hasRole(ACCESS.viewClasses) && (
+                <li>
+                  <Link to="/classes" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
+                      <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
+                      Classes
+                  </Link>
+                </li>
+              )}
+              {hasRole(ACCESS.viewPlans) && (
+                <li>
+                  <Link to="/plans" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
+                      <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
+                      Plans
+                  </Link>
+                </li>
+              )}
+              {hasRole(ACCESS.viewAttendance) && (
+                <li>
+                  <Link to="/attendance" className="flex items-center p-3 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors duration-200 ease-in-out">
+                      <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h.01M17 11h.01M9 15h.01M15 15h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                      Attendance
+                  </Link>
+                </li>
+              )}
             </ul>
           </nav>
           <div className="p-4 border-t border-gray-700 text-sm">
             {user && <p className="text-gray-400">Logged in as: <span className="font-semibold text-white">{user.username}</span></p>}
+            {user && <p className="text-gray-400 mt-1">Role: <span className="font-semibold text-white">{user.roles.map(role => ROLE_LABELS[role]).join(', ')}</span></p>}
             <button onClick={logout} className="mt-4 w-full bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:shadow-outline transition-colors duration-200 ease-in-out">
               Logout
             </button>
@@ -87,26 +142,45 @@ const App: React.FC = () => {
         {isAuthenticated && (
           <header className="bg-white shadow-sm p-4 border-b border-gray-200 flex items-center justify-between z-0">
             <h1 className="text-xl font-semibold text-gray-800">Welcome, {user?.username}!</h1>
-            {/* Could add more header content here */}
+            <div className="flex items-center space-x-3">
+              {USE_MOCK_API && (
+                <div className="flex items-center space-x-3 text-sm">
+                  <span className="bg-orange-100 text-orange-800 font-semibold px-3 py-1 rounded-full">Demo mode: mock data</span>
+                  <button onClick={() => { if (window.confirm('Reset all demo data to the original sample dataset?')) resetMockData(); }}
+                          className="text-orange-700 hover:text-orange-900 underline">
+                    Reset demo data
+                  </button>
+                </div>
+              )}
+              <NotificationCenter />
+            </div>
           </header>
         )}
+        {isAuthenticated && sessionExpiring && sessionExpiresAt && (
+          <div className="bg-yellow-100 border-b border-yellow-300 text-yellow-900 px-4 py-2 text-sm">
+            Your session expires at {format(new Date(sessionExpiresAt), 'HH:mm')}. You will be logged out automatically shortly before then; save your work and log in again.
+          </div>
+        )}
         <main className="flex-grow p-6 overflow-auto"> {/* Added overflow-auto */}
           <Routes>
             <Route path="/login" element={<LoginPage />} />
             <Route path="/" element={isAuthenticated ? <Navigate to="/dashboard" /> : <Navigate to="/login" />} />
 
             {/* Protected Routes */}
-            <Route path="/dashboard" element={<PrivateRoute><DashboardPage /></PrivateRoute>} />
-            <Route path="/users" element={<PrivateRoute><UsersPage /></PrivateRoute>} />
-            <Route path="/trainers" element={<PrivateRoute><TrainersPage /></PrivateRoute>} />
-            <Route path="/plans" element={<PrivateRoute><MembershipPlansPage /></PrivateRoute>} />
-            <Route path="/attendance" element={<PrivateRoute><AttendancePage /></PrivateRoute>} />
+            <Route path="/dashboard" element={<PrivateRoute roles={ACCESS.viewDashboard}><DashboardPage /></PrivateRoute>} />
+            <Route path="/users" element={<PrivateRoute roles={ACCESS.viewMembers}><UsersPage /></PrivateRoute>} />
+            <Route path="/users/:userId" element={<PrivateRoute roles={ACCESS.viewMembers}><MemberDetailPage /></PrivateRoute>} />
+            <Route path="/trainers" element={<PrivateRoute roles={ACCESS.viewTrainers}><TrainersPage /></PrivateRoute>} />
+            <Route path="/classes" element={<PrivateRoute roles={ACCESS.viewClasses}><ClassesPage /></PrivateRoute>} />
+            <Route path="/plans" element={<PrivateRoute roles={ACCESS.viewPlans}><MembershipPlansPage /></PrivateRoute>} />
+            <Route path="/attendance" element={<PrivateRoute roles={ACCESS.viewAttendance}><AttendancePage /></PrivateRoute>} />
 
             {/* Fallback for undefined routes */}
             <Route path="*" element={<Navigate to={isAuthenticated ? "/dashboard" : "/login"} />} />
           </Routes>
         </main>
       </div>
+      <ToastStack />
     </div>
   );
 };
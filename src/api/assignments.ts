@@ -0,0 +1,90 @@
+// src/api/assignments.ts
+import { isAxiosError } from 'axios';
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { planAssignmentSchema, planAssignmentsSchema } from './schemas';
+import { usersApi } from './users';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type {
+  AssignmentFreezePayload, PlanAssignment, PlanAssignmentPayload, PlanAssignmentUpdatePayload, RequestOptions,
+} from './types';
+
+const PER_USER_CONCURRENCY = 6; // Parallel requests when falling back to per-member fetching
+
+export interface AllAssignmentsResult {
+  assignments: PlanAssignment[];
+  failedUsers: { userId: string; name: string }[]; // Members whose assignments could not be loaded
+}
+
+// Remembered after the first 404 so we don't probe the bulk endpoint on every reload
+let bulkEndpointAvailable = true;
+
+export const assignmentsApi = {
+  listForUser: async (userId: string, options: RequestOptions = {}): Promise<PlanAssignment[]> => {
+    const response = await axiosInstance.get(`/plans/user/${userId}/assignments`, options);
+    return parseResponse(planAssignmentsSchema, response.data, 'GET /plans/user/{id}/assignments');
+  },
+
+  // Every assignment for every member. Uses GET /plans/assignments when the backend has it,
+  // otherwise fetches per member with limited concurrency, reporting progress as it goes.
+  listAll: async (onProgress?: (completed: number, total: number) => void): Promise<AllAssignmentsResult> => {
+    if (bulkEndpointAvailable) {
+      try {
+        // Silent because a 404 here is expected; any other failure is rethrown to the caller
+        const response = await axiosInstance.get('/plans/assignments', { silentErrors: true });
+        return {
+          assignments: parseResponse(planAssignmentsSchema, response.data, 'GET /plans/assignments'),
+          failedUsers: [],
+        };
+      } catch (err) {
+        const status = isAxiosError(err) ? err.response?.status : undefined;
+        if (status !== 404 && status !== 405) throw err;
+        bulkEndpointAvailable = false;
+      }
+    }
+
+    const users = await usersApi.list();
+    onProgress?.(0, users.length);
+    const results = await mapWithConcurrency(users, PER_USER_CONCURRENCY, user => assignmentsApi.listForUser(user.userId, { silentErrors: true }), onProgress); // Failures are returned in failedUsers
+
+    const assignments: PlanAssignment[] = [];
+    const failedUsers: AllAssignmentsResult['failedUsers'] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        assignments.push(...result.value);
+      } else {
+        console.error(`Failed to fetch assignments for ${users[index].userId}:`, result.reason);
+        failedUsers.push({ userId: users[index].userId, name: users[index].name });
+      }
+    });
+    return { assignments, failedUsers };
+  },
+
+  assign: async (payload: PlanAssignmentPayload): Promise<PlanAssignment> => {
+    const response = await axiosInstance.post('/plans/assign', payload);
+    return parseResponse(planAssignmentSchema, response.data, 'POST /plans/assign');
+  },
+
+  // Fixes the plan or start date; the backend recomputes the end date, keeping any freeze extensions
+  update: async (assignmentId: number, payload: PlanAssignmentUpdatePayload): Promise<PlanAssignment> => {
+    const response = await axiosInstance.put(`/plans/assignments/${assignmentId}`, payload);
+    return parseResponse(planAssignmentSchema, response.data, 'PUT /plans/assignments/{id}');
+  },
+
+  // Ends the membership today; the record is kept for history and revenue
+  cancel: async (assignmentId: number): Promise<PlanAssignment> => {
+    const response = await axiosInstance.post(`/plans/assignments/${assignmentId}/cancel`);
+    return parseResponse(planAssignmentSchema, response.data, 'POST /plans/assignments/{id}/cancel');
+  },
+
+  freeze: async (assignmentId: number, payload: AssignmentFreezePayload): Promise<PlanAssignment> => {
+    const response = await axiosInstance.post(`/plans/assignments/${assignmentId}/freeze`, payload);
+    return parseResponse(planAssignmentSchema, response.data, 'POST /plans/assignments/{id}/freeze');
+  },
+
+  // resumeDate is the member's first day back; the running freeze ends the day before
+  resume: async (assignmentId: number, resumeDate: string): Promise<PlanAssignment> => {
+    const response = await axiosInstance.post(`/plans/assignments/${assignmentId}/resume`, { resumeDate });
+    return parseResponse(planAssignmentSchema, response.data, 'POST /plans/assignments/{id}/resume');
+  },
+};
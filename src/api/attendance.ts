@@ -0,0 +1,29 @@
+// src/api/attendance.ts
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { attendanceRecordSchema, attendanceRecordsSchema } from './schemas';
+import type { AttendanceRecord, RequestOptions } from './types';
+
+export interface CheckInOptions {
+  checkInTime?: string;
+  overrideReason?: string;
+}
+
+export const attendanceApi = {
+  listAll: async (options: RequestOptions = {}): Promise<AttendanceRecord[]> => {
+    const response = await axiosInstance.get('/attendance/all', options);
+    return parseResponse(attendanceRecordsSchema, response.data, 'GET /attendance/all');
+  },
+
+  // checkInTime (ISO) records a visit at its original time, e.g. when replaying an offline queue.
+  // overrideReason is stored when a manager lets in a member who failed validation.
+  checkIn: async (userId: string, options: CheckInOptions = {}, requestOptions: RequestOptions = {}): Promise<AttendanceRecord> => {
+    const response = await axiosInstance.post('/attendance/checkin', { userId, ...options }, requestOptions);
+    return parseResponse(attendanceRecordSchema, response.data, 'POST /attendance/checkin');
+  },
+
+  checkOut: async (attendanceId: number): Promise<AttendanceRecord> => {
+    const response = await axiosInstance.post(`/attendance/${attendanceId}/checkout`);
+    return parseResponse(attendanceRecordSchema, response.data, 'POST /attendance/{id}/checkout');
+  },
+};
@@ -0,0 +1,24 @@
+// src/api/auth.ts
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { loginResponseSchema } from './schemas';
+import type { LoginRequest, LoginResponse } from './types';
+
+export const authApi = {
+  login: async (credentials: LoginRequest): Promise<LoginResponse> => {
+    const response = await axiosInstance.post('/auth/login', credentials);
+    return parseResponse(loginResponseSchema, response.data, 'POST /auth/login');
+  },
+
+  // Swaps the staff session for a kiosk session that may only check members in.
+  // The PIN is kept by the backend and needed to end the kiosk session.
+  startKioskSession: async (exitPin: string): Promise<LoginResponse> => {
+    const response = await axiosInstance.post('/auth/kiosk', { exitPin });
+    return parseResponse(loginResponseSchema, response.data, 'POST /auth/kiosk');
+  },
+
+  // Resolves when the PIN matches the one set at kiosk start, rejects with 403 otherwise
+  unlockKioskSession: async (exitPin: string): Promise<void> => {
+    await axiosInstance.post('/auth/kiosk/unlock', { exitPin }, { silentErrors: true }); // The PIN pad shows its own errors
+  },
+};
@@ -1,5 +1,7 @@
 // src/api/axiosConfig.ts
 import axios from 'axios';
+import { isMockApiEnabled, mockAdapter } from '../mock';
+import { reportApiError } from './errors';
 
 // Base URL for your backend API
 // In development, this is your local Spring Boot server
@@ -13,6 +15,12 @@ const axiosInstance = axios.create({
   },
 });
 
+// Serve every request from the in-browser mock backend when mock mode is on (see src/mock)
+export const USE_MOCK_API = isMockApiEnabled();
+if (USE_MOCK_API) {
+  axiosInstance.defaults.adapter = mockAdapter;
+}
+
 // Optional: Add an interceptor to include the JWT token in every request
 axiosInstance.interceptors.request.use(
   (config) => {
@@ -27,4 +35,31 @@ axiosInstance.interceptors.request.use(
   }
 );
 
+// Called when the backend rejects our token (401/403). Registered by AuthProvider.
+let unauthorizedHandler: ((status: 401 | 403) => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: ((status: 401 | 403) => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+// End the session globally when the token is rejected, instead of every page showing "Failed to load..."
+// Every other failure is reported once here, so the user sees the same notification whichever page made the call.
+axiosInstance.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    const status = error.response?.status;
+    const isLoginRequest = typeof error.config?.url === 'string' && error.config.url.includes('/auth/login');
+    if ((status === 401 || status === 403) && !isLoginRequest && unauthorizedHandler) {
+      unauthorizedHandler(status);
+    }
+    // Not reported: the login page shows its own errors, requests made while offline are expected to fail
+    // (check-ins are queued instead), and silentErrors requests are handled by their caller
+    const offline = !error.response && typeof navigator !== 'undefined' && !navigator.onLine;
+    if (!isLoginRequest && !offline && !error.config?.silentErrors) {
+      reportApiError(error);
+    }
+    return Promise.reject(error);
+  }
+);
+
 export default axiosInstance;
\ No newline at end of file
@@ -0,0 +1,50 @@
+// src/api/classes.ts
+// Recurring group classes and members' bookings for each occurrence
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { classBookingSchema, classBookingsSchema, groupClassSchema, groupClassesSchema } from './schemas';
+import type { ClassBooking, ClassBookingQuery, GroupClass, GroupClassPayload } from './types';
+
+export const classesApi = {
+  list: async (): Promise<GroupClass[]> => {
+    const response = await axiosInstance.get('/classes');
+    return parseResponse(groupClassesSchema, response.data, 'GET /classes');
+  },
+
+  create: async (payload: GroupClassPayload): Promise<GroupClass> => {
+    const response = await axiosInstance.post('/classes', payload);
+    return parseResponse(groupClassSchema, response.data, 'POST /classes');
+  },
+
+  update: async (classId: number, payload: GroupClassPayload): Promise<GroupClass> => {
+    const response = await axiosInstance.put(`/classes/${classId}`, payload);
+    return parseResponse(groupClassSchema, response.data, 'PUT /classes/{id}');
+  },
+
+  remove: async (classId: number): Promise<void> => {
+    await axiosInstance.delete(`/classes/${classId}`);
+  },
+
+  listBookings: async (query: ClassBookingQuery = {}): Promise<ClassBooking[]> => {
+    const response = await axiosInstance.get('/classes/bookings', { params: query });
+    return parseResponse(classBookingsSchema, response.data, 'GET /classes/bookings');
+  },
+
+  // The member is waitlisted rather than refused when the occurrence is full
+  book: async (classId: number, userId: string, date: string): Promise<ClassBooking> => {
+    const response = await axiosInstance.post(`/classes/${classId}/bookings`, { userId, date });
+    return parseResponse(classBookingSchema, response.data, 'POST /classes/{id}/bookings');
+  },
+
+  // Returns the occurrence's bookings afterwards, since freeing a place promotes the first waitlisted member
+  cancelBooking: async (bookingId: number): Promise<ClassBooking[]> => {
+    const response = await axiosInstance.post(`/classes/bookings/${bookingId}/cancel`);
+    return parseResponse(classBookingsSchema, response.data, 'POST /classes/bookings/{id}/cancel');
+  },
+
+  // Also checks the member in, reusing their check-in for that day if they already have one
+  markAttended: async (bookingId: number): Promise<ClassBooking> => {
+    const response = await axiosInstance.post(`/classes/bookings/${bookingId}/attend`);
+    return parseResponse(classBookingSchema, response.data, 'POST /classes/bookings/{id}/attend');
+  },
+};
@@ -0,0 +1,32 @@
+// src/api/dashboard.ts
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { countByKeySchema, dashboardSummarySchema, expiringMembershipsSchema } from './schemas';
+import type { DailyAttendance, DashboardSummary, ExpiringMembership, PlanDistribution } from './types';
+
+export const dashboardApi = {
+  getSummary: async (): Promise<DashboardSummary> => {
+    const response = await axiosInstance.get('/dashboard/summary');
+    return parseResponse(dashboardSummarySchema, response.data, 'GET /dashboard/summary');
+  },
+
+  getPlanDistribution: async (): Promise<PlanDistribution> => {
+    const response = await axiosInstance.get('/dashboard/plan-distribution');
+    return parseResponse(countByKeySchema, response.data, 'GET /dashboard/plan-distribution');
+  },
+
+  // Dates are YYYY-MM-DD, both inclusive
+  getDailyAttendance: async (startDate: string, endDate: string): Promise<DailyAttendance> => {
+    const response = await axiosInstance.get('/dashboard/daily-attendance-chart', {
+      params: { startDate, endDate },
+    });
+    return parseResponse(countByKeySchema, response.data, 'GET /dashboard/daily-attendance-chart');
+  },
+
+  getExpiringMemberships: async (days: number): Promise<ExpiringMembership[]> => {
+    const response = await axiosInstance.get('/dashboard/expiring-memberships', {
+      params: { days },
+    });
+    return parseResponse(expiringMembershipsSchema, response.data, 'GET /dashboard/expiring-memberships');
+  },
+};
@@ -0,0 +1,102 @@
+// src/api/errors.ts
+// Turns any failed API call into one consistent shape, and lets the app listen for failures.
+// axiosInstance reports every failed request here, so pages don't need to build their own messages.
+import { isAxiosError, isCancel } from 'axios';
+import { ApiValidationError } from './validation';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    silentErrors?: boolean; // The caller shows this request's failures itself, so axiosInstance doesn't report them
+  }
+}
+
+export interface NormalizedApiError {
+  status: number | null; // HTTP status, null when no response arrived
+  message: string;
+  fieldErrors: Record<string, string>; // Request field -> why it was rejected
+  details: string[]; // Field errors as readable lines, for showing under the message
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: 'The request was not valid.',
+  401: 'Your session has ended. Please log in again.',
+  403: 'You do not have permission to do that.',
+  404: 'The requested item was not found.',
+  409: 'That conflicts with the current data. Refresh and try again.',
+  429: 'Too many attempts. Please wait and try again.',
+};
+
+// Spring's default validation body lists errors as [{ field, defaultMessage }]; ours sends { field: message }
+const readFieldErrors = (body: Record<string, unknown>): Record<string, string> => {
+  if (body.fieldErrors && typeof body.fieldErrors === 'object' && !Array.isArray(body.fieldErrors)) {
+    return Object.fromEntries(Object.entries(body.fieldErrors).filter(([, message]) => typeof message === 'string'));
+  }
+  if (Array.isArray(body.errors)) {
+    const entries = body.errors
+      .filter(item => item && typeof item.field === 'string')
+      .map(item => [item.field, String(item.defaultMessage ?? item.message ?? 'is invalid')]);
+    return Object.fromEntries(entries);
+  }
+  return {};
+};
+
+// The message the backend sent, as a JSON { message } or a short plain-text body
+const bodyMessage = (body: unknown): string | null => {
+  if (typeof body === 'string') return body.trim() !== '' && body.length <= 200 ? body.trim() : null;
+  if (body && typeof body === 'object') {
+    const { message } = body as Record<string, unknown>;
+    if (typeof message === 'string' && message.trim() !== '') return message;
+  }
+  return null;
+};
+
+const statusMessage = (status: number): string =>
+  status >= 500 ? 'The server ran into a problem. Please try again.' : STATUS_MESSAGES[status] ?? `Request failed with status ${status}.`;
+
+export const normalizeApiError = (error: unknown): NormalizedApiError => {
+  if (isAxiosError(error)) {
+    if (!error.response) {
+      const message = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+        ? 'The server took too long to respond. Please try again.'
+        : 'Cannot reach the server. Check your connection and try again.';
+      return { status: null, message, fieldErrors: {}, details: [] };
+    }
+    const { status, data } = error.response;
+    const fieldErrors = data && typeof data === 'object' ? readFieldErrors(data as Record<string, unknown>) : {};
+    return {
+      status,
+      message: bodyMessage(data) ?? statusMessage(status),
+      fieldErrors,
+      details: Object.entries(fieldErrors).map(([field, message]) => `${field}: ${message}`),
+    };
+  }
+  if (error instanceof ApiValidationError) {
+    return { status: null, message: `The server sent data this app doesn't understand (${error.endpoint}).`, fieldErrors: {}, details: [] };
+  }
+  return { status: null, message: error instanceof Error ? error.message : 'Something went wrong.', fieldErrors: {}, details: [] };
+};
+
+// The backend's message for a failed call, or the fallback when it didn't send one
+export const apiErrorMessage = (error: unknown, fallback: string): string =>
+  (isAxiosError(error) && error.response ? bodyMessage(error.response.data) : null) ?? fallback;
+
+// Called with every reported failure. Registered by NotificationProvider.
+let errorListener: ((error: NormalizedApiError) => void) | null = null;
+const reportedErrors = new WeakSet<object>();
+
+export const setApiErrorListener = (listener: ((error: NormalizedApiError) => void) | null) => {
+  errorListener = listener;
+};
+
+// Safe to call from any catch block: errors axiosInstance already reported are skipped, so this only adds
+// the ones it never saw, such as unreadable 2xx responses and requests made while offline.
+export const reportApiError = (error: unknown) => {
+  if (isCancel(error)) return;
+  if (error && typeof error === 'object') {
+    if (reportedErrors.has(error)) return;
+    reportedErrors.add(error);
+  }
+  const normalized = normalizeApiError(error);
+  if (normalized.status === 401) return; // The session is ending and the login page says why
+  errorListener?.(normalized);
+};
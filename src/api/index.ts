@@ -0,0 +1,14 @@
+// src/api/index.ts
+// Typed API client. Pages should import from here rather than calling axiosInstance directly.
+export { usersApi } from './users';
+export { trainersApi } from './trainers';
+export { plansApi } from './plans';
+export { assignmentsApi, type AllAssignmentsResult } from './assignments';
+export { attendanceApi, type CheckInOptions } from './attendance';
+export { sessionsApi } from './sessions';
+export { classesApi } from './classes';
+export { dashboardApi } from './dashboard';
+export { authApi } from './auth';
+export { ApiValidationError } from './validation';
+export { apiErrorMessage, normalizeApiError, reportApiError, type NormalizedApiError } from './errors';
+export type * from './types';
@@ -0,0 +1,36 @@
+// src/api/paging.ts
+// Client-side fallbacks for when the backend ignores paging params and returns a plain array
+import type { Page, SortDirection, User, UserQuery } from './types';
+
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { sensitivity: 'base', numeric: true });
+};
+
+export const sortItems = <T>(items: T[], sortBy: keyof T, sortDir: SortDirection): T[] => {
+  const direction = sortDir === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => compareValues(a[sortBy], b[sortBy]) * direction);
+};
+
+export const paginate = <T>(items: T[], page: number, size: number): Page<T> => {
+  const totalPages = Math.max(1, Math.ceil(items.length / size));
+  const current = Math.min(Math.max(page, 0), totalPages - 1);
+  return {
+    content: items.slice(current * size, (current + 1) * size),
+    totalElements: items.length,
+    totalPages,
+    number: current,
+    size,
+  };
+};
+
+// Same member filtering the backend applies to GET /users
+export const filterUsers = (users: User[], query: Pick<UserQuery, 'search' | 'membershipStatus' | 'gender' | 'joinedFrom' | 'joinedTo'>): User[] => {
+  const search = query.search?.trim().toLowerCase();
+  return users.filter(user =>
+    (!search || user.name.toLowerCase().includes(search) || user.contactNumber.toLowerCase().includes(search)) &&
+    (!query.membershipStatus || user.membershipStatus === query.membershipStatus) &&
+    (!query.gender || user.gender === query.gender) &&
+    (!query.joinedFrom || user.joiningDate >= query.joinedFrom) &&
+    (!query.joinedTo || user.joiningDate <= query.joinedTo));
+};
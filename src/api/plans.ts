@@ -0,0 +1,26 @@
+// src/api/plans.ts
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { membershipPlanSchema, membershipPlansSchema } from './schemas';
+import type { MembershipPlan, MembershipPlanPayload } from './types';
+
+export const plansApi = {
+  list: async (): Promise<MembershipPlan[]> => {
+    const response = await axiosInstance.get('/plans');
+    return parseResponse(membershipPlansSchema, response.data, 'GET /plans');
+  },
+
+  create: async (payload: MembershipPlanPayload): Promise<MembershipPlan> => {
+    const response = await axiosInstance.post('/plans', payload);
+    return parseResponse(membershipPlanSchema, response.data, 'POST /plans');
+  },
+
+  update: async (planId: number, payload: MembershipPlanPayload): Promise<MembershipPlan> => {
+    const response = await axiosInstance.put(`/plans/${planId}`, payload);
+    return parseResponse(membershipPlanSchema, response.data, 'PUT /plans/{id}');
+  },
+
+  remove: async (planId: number): Promise<void> => {
+    await axiosInstance.delete(`/plans/${planId}`);
+  },
+};
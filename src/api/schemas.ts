@@ -0,0 +1,155 @@
+// src/api/schemas.ts
+// Runtime validators for every DTO in types.ts
+import { arrayOf, nullable, number, object, oneOf, optional, recordOf, string, type Validator } from './validation';
+import type {
+  AssignmentFreeze, AttendanceRecord, AvailabilityException, AvailabilityExceptionReason, AvailabilitySlot,
+  ClassBooking, ClassBookingStatus, DashboardSummary, ExpiringMembership, GroupClass, LoginResponse,
+  MembershipPlan, Page, PlanAssignment, Trainer, TrainingSession, TrainingSessionStatus, User,
+} from './types';
+
+export const userSchema = object<User>({
+  userId: string,
+  name: string,
+  age: number,
+  gender: string,
+  contactNumber: string,
+  membershipStatus: string,
+  joiningDate: string,
+});
+
+export const availabilitySlotSchema = object<AvailabilitySlot>({
+  weekday: number,
+  start: string,
+  end: string,
+});
+
+export const availabilityExceptionSchema = object<AvailabilityException>({
+  startDate: string,
+  endDate: string,
+  reason: oneOf<AvailabilityExceptionReason>('leave', 'holiday', 'other'),
+  note: nullable(string),
+});
+
+export const trainerSchema = object<Trainer>({
+  trainerId: number,
+  name: string,
+  experience: number,
+  specialization: string,
+  availability: string,
+  weeklySlots: optional(arrayOf(availabilitySlotSchema)),
+  exceptions: optional(arrayOf(availabilityExceptionSchema)),
+});
+
+export const membershipPlanSchema = object<MembershipPlan>({
+  planId: number,
+  planName: string,
+  price: number,
+  durationMonths: number,
+  featuresList: string,
+});
+
+export const assignmentFreezeSchema = object<AssignmentFreeze>({
+  startDate: string,
+  endDate: nullable(string),
+  reason: nullable(string),
+});
+
+export const planAssignmentSchema = object<PlanAssignment>({
+  assignmentId: number,
+  userName: string,
+  planName: string,
+  startDate: string,
+  endDate: string,
+  userId: optional(string),
+  planId: optional(number),
+  cancelledOn: optional(nullable(string)),
+  freezes: optional(arrayOf(assignmentFreezeSchema)),
+});
+
+export const trainingSessionSchema = object<TrainingSession>({
+  sessionId: number,
+  trainerId: number,
+  trainerName: string,
+  userId: string,
+  userName: string,
+  startTime: string,
+  endTime: string,
+  status: oneOf<TrainingSessionStatus>('SCHEDULED', 'COMPLETED', 'NO_SHOW', 'CANCELLED'),
+  notes: nullable(string),
+});
+
+export const groupClassSchema = object<GroupClass>({
+  classId: number,
+  name: string,
+  trainerId: number,
+  trainerName: string,
+  room: string,
+  capacity: number,
+  weekdays: arrayOf(number),
+  startTime: string,
+  durationMinutes: number,
+});
+
+export const classBookingSchema = object<ClassBooking>({
+  bookingId: number,
+  classId: number,
+  className: string,
+  date: string,
+  userId: string,
+  userName: string,
+  status: oneOf<ClassBookingStatus>('BOOKED', 'WAITLISTED', 'CANCELLED', 'ATTENDED'),
+  waitlistPosition: nullable(number),
+  bookedAt: string,
+  attendanceId: nullable(number),
+});
+
+export const attendanceRecordSchema = object<AttendanceRecord>({
+  attendanceId: number,
+  userId: string,
+  userName: string,
+  checkInTime: string,
+  checkOutTime: optional(nullable(string)),
+  overrideReason: optional(nullable(string)),
+});
+
+export const dashboardSummarySchema = object<DashboardSummary>({
+  totalActiveMembers: number,
+  totalTrainers: number,
+});
+
+export const countByKeySchema = recordOf(number);
+
+export const expiringMembershipSchema = object<ExpiringMembership>({
+  assignmentId: number,
+  userName: string,
+  planName: string,
+  endDate: string,
+  userId: optional(string),
+  planId: optional(number),
+});
+
+export const loginResponseSchema = object<LoginResponse>({
+  token: nullable(string),
+  username: nullable(string),
+  message: nullable(string),
+  role: nullable(string),
+  roles: optional(arrayOf(string)),
+});
+
+export const usersSchema = arrayOf(userSchema);
+export const trainersSchema = arrayOf(trainerSchema);
+export const membershipPlansSchema = arrayOf(membershipPlanSchema);
+export const planAssignmentsSchema = arrayOf(planAssignmentSchema);
+export const trainingSessionsSchema = arrayOf(trainingSessionSchema);
+export const groupClassesSchema = arrayOf(groupClassSchema);
+export const classBookingsSchema = arrayOf(classBookingSchema);
+export const attendanceRecordsSchema = arrayOf(attendanceRecordSchema);
+export const expiringMembershipsSchema = arrayOf(expiringMembershipSchema);
+
+export const pageOf = <T>(validator: Validator<T>) => object<Page<T>>({
+  content: arrayOf(validator),
+  totalElements: number,
+  totalPages: number,
+  number: number,
+  size: number,
+});
@@ -0,0 +1,25 @@
+// src/api/sessions.ts
+// Personal training sessions booked between a trainer and a member
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { trainingSessionSchema, trainingSessionsSchema } from './schemas';
+import type { RequestOptions, TrainingSession, TrainingSessionPayload, TrainingSessionQuery, TrainingSessionStatus } from './types';
+
+export const sessionsApi = {
+  list: async (query: TrainingSessionQuery = {}, options: RequestOptions = {}): Promise<TrainingSession[]> => {
+    const response = await axiosInstance.get('/sessions', { ...options, params: query });
+    return parseResponse(trainingSessionsSchema, response.data, 'GET /sessions');
+  },
+
+  // Rejected with 409 when the trainer already has a session overlapping the slot
+  book: async (payload: TrainingSessionPayload): Promise<TrainingSession> => {
+    const response = await axiosInstance.post('/sessions', payload);
+    return parseResponse(trainingSessionSchema, response.data, 'POST /sessions');
+  },
+
+  // Only scheduled sessions can change status; completed and no-show need the start time to have passed
+  setStatus: async (sessionId: number, status: TrainingSessionStatus): Promise<TrainingSession> => {
+    const response = await axiosInstance.post(`/sessions/${sessionId}/status`, { status });
+    return parseResponse(trainingSessionSchema, response.data, 'POST /sessions/{id}/status');
+  },
+};
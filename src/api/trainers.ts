@@ -0,0 +1,26 @@
+// src/api/trainers.ts
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { trainerSchema, trainersSchema } from './schemas';
+import type { Trainer, TrainerPayload } from './types';
+
+export const trainersApi = {
+  list: async (): Promise<Trainer[]> => {
+    const response = await axiosInstance.get('/trainers');
+    return parseResponse(trainersSchema, response.data, 'GET /trainers');
+  },
+
+  create: async (payload: TrainerPayload): Promise<Trainer> => {
+    const response = await axiosInstance.post('/trainers', payload);
+    return parseResponse(trainerSchema, response.data, 'POST /trainers');
+  },
+
+  update: async (trainerId: number, payload: TrainerPayload): Promise<Trainer> => {
+    const response = await axiosInstance.put(`/trainers/${trainerId}`, payload);
+    return parseResponse(trainerSchema, response.data, 'PUT /trainers/{id}');
+  },
+
+  remove: async (trainerId: number): Promise<void> => {
+    await axiosInstance.delete(`/trainers/${trainerId}`);
+  },
+};
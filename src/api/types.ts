@@ -0,0 +1,241 @@
+// src/api/types.ts
+// DTO types shared by every page. These match the backend entities/DTOs.
+
+// --- Users (members) ---
+export interface User {
+  userId: string;
+  name: string;
+  age: number;
+  gender: string;
+  contactNumber: string;
+  membershipStatus: string;
+  joiningDate: string; // YYYY-MM-DD
+}
+
+export type UserPayload = Omit<User, 'userId'>;
+
+// --- Trainers ---
+// A recurring weekly shift, in the gym's local time
+export interface AvailabilitySlot {
+  weekday: number; // 0 = Monday
+  start: string; // HH:mm
+  end: string; // HH:mm, after start
+}
+
+export type AvailabilityExceptionReason = 'leave' | 'holiday' | 'other';
+
+// Whole days a trainer is away, overriding their weekly slots
+export interface AvailabilityException {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, last day away
+  reason: AvailabilityExceptionReason;
+  note: string | null;
+}
+
+export interface Trainer {
+  trainerId: number;
+  name: string;
+  experience: number;
+  specialization: string;
+  availability: string; // Free text from before weekly slots; a summary of them once converted
+  weeklySlots?: AvailabilitySlot[];
+  exceptions?: AvailabilityException[];
+}
+
+export type TrainerPayload = Omit<Trainer, 'trainerId'>;
+
+// --- Membership plans ---
+export interface MembershipPlan {
+  planId: number;
+  planName: string;
+  price: number;
+  durationMonths: number;
+  featuresList: string;
+}
+
+export type MembershipPlanPayload = Omit<MembershipPlan, 'planId'>;
+
+// --- Plan assignments (PlanAssignmentResponseDTO) ---
+// A pause in a membership; the assignment's end date moves back by its length once it is over
+export interface AssignmentFreeze {
+  startDate: string; // YYYY-MM-DD, first frozen day
+  endDate: string | null; // YYYY-MM-DD, last frozen day; null while still frozen
+  reason: string | null;
+}
+
+export interface PlanAssignment {
+  assignmentId: number;
+  userName: string;
+  planName: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, already extended by any completed freezes
+  userId?: string;
+  planId?: number;
+  cancelledOn?: string | null; // YYYY-MM-DD
+  freezes?: AssignmentFreeze[];
+}
+
+export interface PlanAssignmentPayload {
+  userId: string;
+  planId: number;
+  startDate: string; // YYYY-MM-DD
+}
+
+export type PlanAssignmentUpdatePayload = Omit<PlanAssignmentPayload, 'userId'>;
+
+export interface AssignmentFreezePayload {
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // Last frozen day, when already known; otherwise the freeze runs until resumed
+  reason?: string;
+}
+
+// --- Attendance (AttendanceResponseDTO) ---
+export interface AttendanceRecord {
+  attendanceId: number;
+  userId: string;
+  userName: string;
+  checkInTime: string; // ISO string
+  checkOutTime?: string | null; // ISO string, null while the member is still in the gym
+  overrideReason?: string | null; // Why a manager allowed a check-in that failed validation
+}
+
+// --- Personal training sessions ---
+export type TrainingSessionStatus = 'SCHEDULED' | 'COMPLETED' | 'NO_SHOW' | 'CANCELLED';
+
+export interface TrainingSession {
+  sessionId: number;
+  trainerId: number;
+  trainerName: string;
+  userId: string;
+  userName: string;
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  status: TrainingSessionStatus;
+  notes: string | null;
+}
+
+export interface TrainingSessionPayload {
+  trainerId: number;
+  userId: string;
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  notes?: string;
+}
+
+export interface TrainingSessionQuery {
+  trainerId?: number;
+  userId?: string;
+  from?: string; // ISO string; sessions ending after this
+  to?: string; // ISO string; sessions starting before this
+  status?: TrainingSessionStatus;
+}
+
+// --- Group classes ---
+// A class that runs every week on the given days, e.g. spin on Monday, Wednesday and Friday evenings
+export interface GroupClass {
+  classId: number;
+  name: string;
+  trainerId: number;
+  trainerName: string;
+  room: string;
+  capacity: number;
+  weekdays: number[]; // 0 = Monday
+  startTime: string; // HH:mm
+  durationMinutes: number;
+}
+
+export type GroupClassPayload = Omit<GroupClass, 'classId' | 'trainerName'>;
+
+export type ClassBookingStatus = 'BOOKED' | 'WAITLISTED' | 'CANCELLED' | 'ATTENDED';
+
+// A member's place in one occurrence of a class
+export interface ClassBooking {
+  bookingId: number;
+  classId: number;
+  className: string;
+  date: string; // YYYY-MM-DD of the occurrence
+  userId: string;
+  userName: string;
+  status: ClassBookingStatus;
+  waitlistPosition: number | null; // 1-based while waitlisted
+  bookedAt: string; // ISO string; the waitlist is served in this order
+  attendanceId: number | null; // Check-in recorded when the member attended
+}
+
+export interface ClassBookingQuery {
+  classId?: number;
+  userId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+// --- Dashboard ---
+export interface DashboardSummary {
+  totalActiveMembers: number;
+  totalTrainers: number;
+}
+
+export type PlanDistribution = Record<string, number>; // planName -> member count
+
+export type DailyAttendance = Record<string, number>; // YYYY-MM-DD -> check-ins
+
+// ExpiringMembershipDTO
+export interface ExpiringMembership {
+  assignmentId: number;
+  userName: string;
+  planName: string;
+  endDate: string; // YYYY-MM-DD
+  userId?: string;
+  planId?: number;
+}
+
+// --- Auth ---
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  token: string | null;
+  username: string | null;
+  message: string | null;
+  role: string | null; // Single role, e.g. "MANAGER" or "ROLE_MANAGER"
+  roles?: string[]; // Or a list of roles
+}
+
+// --- Paging ---
+// Spring Data Page shape returned by paged endpoints
+export interface Page<T> {
+  content: T[];
+  totalElements: number;
+  totalPages: number;
+  number: number; // Zero-based page index
+  size: number;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface UserQuery {
+  page: number; // Zero-based
+  size: number;
+  sortBy: keyof User;
+  sortDir: SortDirection;
+  search?: string; // Matches name or contact number
+  membershipStatus?: string;
+  gender?: string;
+  joinedFrom?: string; // YYYY-MM-DD, inclusive
+  joinedTo?: string; // YYYY-MM-DD, inclusive
+}
+
+// --- Errors ---
+// Body of a failed request
+export interface ApiErrorResponse {
+  status: number;
+  message: string;
+  fieldErrors?: Record<string, string>; // Request field -> why it was rejected, on 400 validation failures
+}
+
+// Per-call options for requests whose failures the page shows itself
+export interface RequestOptions {
+  silentErrors?: boolean; // Skip the automatic error notification
+}
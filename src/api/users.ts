@@ -0,0 +1,67 @@
+// src/api/users.ts
+import axiosInstance from './axiosConfig';
+import { parseResponse } from './validation';
+import { pageOf, userSchema, usersSchema } from './schemas';
+import { filterUsers, paginate, sortItems } from './paging';
+import type { Page, RequestOptions, User, UserPayload, UserQuery } from './types';
+
+const userPageSchema = pageOf(userSchema);
+const BULK_PAGE_SIZE = 500; // Page size when walking every page of a query
+
+export const usersApi = {
+  list: async (): Promise<User[]> => {
+    const response = await axiosInstance.get('/users');
+    return parseResponse(usersSchema, response.data, 'GET /users');
+  },
+
+  // Paged, sorted and filtered members. Falls back to doing the work in the browser
+  // when the backend returns a plain array instead of a Page.
+  listPage: async (query: UserQuery): Promise<Page<User>> => {
+    const response = await axiosInstance.get('/users', {
+      params: {
+        page: query.page,
+        size: query.size,
+        sort: `${query.sortBy},${query.sortDir}`,
+        search: query.search || undefined,
+        membershipStatus: query.membershipStatus || undefined,
+        gender: query.gender || undefined,
+        joinedFrom: query.joinedFrom || undefined,
+        joinedTo: query.joinedTo || undefined,
+      },
+    });
+    if (Array.isArray(response.data)) {
+      const users = parseResponse(usersSchema, response.data, 'GET /users');
+      return paginate(sortItems(filterUsers(users, query), query.sortBy, query.sortDir), query.page, query.size);
+    }
+    return parseResponse(userPageSchema, response.data, 'GET /users (paged)');
+  },
+
+  // Every member matching the query's filters, in its sort order, fetched page by page
+  listAllMatching: async (query: UserQuery): Promise<User[]> => {
+    const users: User[] = [];
+    for (let page = 0; ; page++) {
+      const result = await usersApi.listPage({ ...query, page, size: BULK_PAGE_SIZE });
+      users.push(...result.content);
+      if (result.content.length === 0 || page + 1 >= result.totalPages) return users;
+    }
+  },
+
+  get: async (userId: string, options: RequestOptions = {}): Promise<User> => {
+    const response = await axiosInstance.get(`/users/${userId}`, options);
+    return parseResponse(userSchema, response.data, 'GET /users/{id}');
+  },
+
+  create: async (payload: UserPayload, options: RequestOptions = {}): Promise<User> => {
+    const response = await axiosInstance.post('/users', payload, options);
+    return parseResponse(userSchema, response.data, 'POST /users');
+  },
+
+  update: async (userId: string, payload: UserPayload): Promise<User> => {
+    const response = await axiosInstance.put(`/users/${userId}`, payload);
+    return parseResponse(userSchema, response.data, 'PUT /users/{id}');
+  },
+
+  remove: async (userId: string): Promise<void> => {
+    await axiosInstance.delete(`/users/${userId}`);
+  },
+};
@@ -0,0 +1,114 @@
+// src/api/validation.ts
+// Minimal runtime validators for backend responses.
+// Each validator either returns the value typed as T or throws an ApiValidationError
+// naming the endpoint and the exact path that no longer matches, e.g. "response[3].age".
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class ApiValidationError extends Error {
+  readonly endpoint: string;
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(endpoint: string, path: string, expected: string, received: unknown) {
+    super(`Unexpected response from ${endpoint}: expected ${expected} at "${path}", got ${describe(received)}`);
+    this.name = 'ApiValidationError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Internal error thrown by validators; parseResponse attaches the endpoint
+class SchemaMismatch extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`expected ${expected} at "${path}"`);
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean): Validator<T> =>
+  (value, path) => {
+    if (!check(value)) throw new SchemaMismatch(path, expected, value);
+    return value as T;
+  };
+
+export const string: Validator<string> = primitive('string', v => typeof v === 'string');
+export const number: Validator<number> = primitive('number', v => typeof v === 'number' && !Number.isNaN(v));
+export const boolean: Validator<boolean> = primitive('boolean', v => typeof v === 'boolean');
+
+// One of a fixed set of string values, e.g. an enum the backend serialises by name
+export const oneOf = <T extends string>(...values: T[]): Validator<T> =>
+  primitive(values.map(v => `"${v}"`).join(' | '), v => values.includes(v as T));
+
+// Accepts a missing/undefined value (the field is simply absent from older backends)
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) => (value === undefined ? undefined : validator(value, path));
+
+// Accepts null as well as undefined, normalising both to null
+export const nullable = <T>(validator: Validator<T>): Validator<T | null> =>
+  (value, path) => (value === null || value === undefined ? null : validator(value, path));
+
+export const arrayOf = <T>(validator: Validator<T>): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaMismatch(path, 'array', value);
+    return value.map((item, index) => validator(item, `${path}[${index}]`));
+  };
+
+// Objects keyed by arbitrary strings, e.g. { "2025-07-20": 5 }
+export const recordOf = <T>(validator: Validator<T>): Validator<Record<string, T>> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaMismatch(path, 'object', value);
+    }
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = validator(item, `${path}.${key}`);
+    }
+    return result;
+  };
+
+// Objects with a fixed shape. Only the declared fields are kept.
+export const object = <T>(shape: { [K in keyof Required<T>]: Validator<T[K]> }): Validator<T> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaMismatch(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldValue = shape[key](source[key], path ? `${path}.${key}` : key);
+      if (fieldValue !== undefined) {
+        result[key] = fieldValue;
+      }
+    }
+    return result;
+  };
+
+// Validates response data for the given endpoint, converting mismatches into ApiValidationError
+export const parseResponse = <T>(validator: Validator<T>, data: unknown, endpoint: string): T => {
+  try {
+    return validator(data, 'response');
+  } catch (err) {
+    if (err instanceof SchemaMismatch) {
+      const error = new ApiValidationError(endpoint, err.path, err.expected, err.received);
+      console.error(error.message, data);
+      throw error;
+    }
+    throw err;
+  }
+};
@@ -0,0 +1,108 @@
+// src/components/AssignmentFreezeDialog.tsx
+import React, { useState } from 'react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { assignmentsApi, reportApiError, type PlanAssignment } from '../api';
+import { openFreeze } from '../utils/assignments';
+
+interface AssignmentFreezeDialogProps {
+  assignment: PlanAssignment;
+  onClose: () => void;
+  onSaved: (assignment: PlanAssignment) => void;
+}
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+// Pauses a membership, or resumes it if a freeze is running. Either way the end date moves back
+// by the frozen days once the freeze has an end.
+const AssignmentFreezeDialog: React.FC<AssignmentFreezeDialogProps> = ({ assignment, onClose, onSaved }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const running = openFreeze(assignment);
+  const [startDate, setStartDate] = useState<string>(assignment.startDate > today ? assignment.startDate : today);
+  const [endDate, setEndDate] = useState<string>(''); // Last frozen day; blank freezes until resumed
+  const [resumeDate, setResumeDate] = useState<string>(running && running.startDate > today ? running.startDate : today);
+  const [reason, setReason] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const frozenDays = running
+    ? Math.max(0, differenceInCalendarDays(parseISO(resumeDate || running.startDate), parseISO(running.startDate)))
+    : endDate && endDate >= startDate ? differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1 : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      onSaved(running
+        ? await assignmentsApi.resume(assignment.assignmentId, resumeDate)
+        : await assignmentsApi.freeze(assignment.assignmentId, {
+            startDate,
+            endDate: endDate || undefined,
+            reason: reason.trim() || undefined,
+          }));
+    } catch (err) {
+      console.error('Failed to save freeze:', err);
+      reportApiError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg max-w-lg mx-auto p-6">
+        <h2 className="text-2xl font-semibold text-gray-800 mb-4">{running ? 'Resume Membership' : 'Freeze Membership'}</h2>
+        <p className="text-gray-700 mb-4">
+          <span className="font-semibold">{assignment.userName}</span>: {assignment.planName}, {assignment.startDate} to {assignment.endDate}
+        </p>
+        <form onSubmit={handleSubmit}>
+          {running ? (
+            <div>
+              <p className="text-gray-700 mb-2">Frozen since {running.startDate}{running.reason && ` (${running.reason})`}.</p>
+              <label htmlFor="resumeDate" className="block text-sm font-medium text-gray-700">First Day Back:</label>
+              <input type="date" id="resumeDate" value={resumeDate} min={running.startDate} onChange={(e) => setResumeDate(e.target.value)} required
+                     className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="freezeStart" className="block text-sm font-medium text-gray-700">Freeze From:</label>
+                <input type="date" id="freezeStart" value={startDate} min={assignment.startDate} max={assignment.endDate}
+                       onChange={(e) => setStartDate(e.target.value)} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="freezeEnd" className="block text-sm font-medium text-gray-700">Freeze Until (optional):</label>
+                <input type="date" id="freezeEnd" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)}
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="freezeReason" className="block text-sm font-medium text-gray-700">Reason:</label>
+                <input type="text" id="freezeReason" value={reason} onChange={(e) => setReason(e.target.value)}
+                       placeholder="e.g., Travelling, Injury"
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 mt-4">
+            {frozenDays === null
+              ? 'Leave "Freeze Until" blank to freeze until the member is resumed.'
+              : `${frozenDays} day(s) frozen; the end date moves from ${assignment.endDate} to ${shiftDate(assignment.endDate, frozenDays)}.`}
+          </p>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button type="submit" disabled={saving}
+                    className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+              {saving ? 'Saving...' : running ? 'Resume' : 'Freeze'}
+            </button>
+            <button type="button" onClick={onClose}
+                    className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentFreezeDialog;
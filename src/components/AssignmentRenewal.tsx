@@ -0,0 +1,183 @@
+// src/components/AssignmentRenewal.tsx
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { plansApi, assignmentsApi, reportApiError, type MembershipPlan, type PlanAssignment } from '../api';
+import { assignmentEndDate, findAssignedPlan, proratedCredit, renewalStartDate } from '../utils/assignments';
+import { formatCurrency } from '../utils/revenue';
+import { useNotifications } from '../hooks/useNotifications';
+
+export type RenewalMode = 'renew' | 'change';
+
+// The membership being renewed or changed; expiring-membership rows have no start date
+export type RenewalSource = Pick<PlanAssignment, 'assignmentId' | 'userName' | 'planName' | 'endDate' | 'userId' | 'planId'> & {
+  startDate?: string;
+};
+
+interface AssignmentRenewalProps {
+  source: RenewalSource;
+  mode: RenewalMode;
+  onClose: () => void;
+  onAssigned: (assignment: PlanAssignment) => void;
+}
+
+// Assigns the follow-on plan for a member, prefilled from their current one. A plan starting today replaces the
+// current one, which is cancelled; any other start must come after the current plan ends, so the two never overlap.
+const AssignmentRenewal: React.FC<AssignmentRenewalProps> = ({ source, mode, onClose, onAssigned }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const { notify } = useNotifications();
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [planId, setPlanId] = useState<string>('');
+  const [startDate, setStartDate] = useState<string>(() => renewalStartDate(source.endDate, today));
+  const [loadingPlans, setLoadingPlans] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const allPlans = await plansApi.list();
+        setPlans(allPlans);
+        const current = findAssignedPlan(allPlans, source);
+        if (mode === 'renew' && current) setPlanId(String(current.planId));
+      } catch (err) {
+        console.error('Failed to fetch plans for renewal:', err);
+        setError('Failed to load membership plans.');
+      } finally {
+        setLoadingPlans(false);
+      }
+    };
+    fetchPlans();
+  }, [source, mode]);
+
+  const currentPlan = findAssignedPlan(plans, source);
+  const newPlan = plans.find(p => String(p.planId) === planId);
+  const planOptions = mode === 'change' ? plans.filter(p => p !== currentPlan) : plans;
+  const credit = mode === 'change' && currentPlan && startDate ? proratedCredit(source, currentPlan, startDate, today) : null;
+  // Compared per month, so a longer plan at a higher total price can still be a downgrade
+  const isUpgrade = currentPlan && newPlan
+    ? newPlan.price / Math.max(1, newPlan.durationMonths) > currentPlan.price / Math.max(1, currentPlan.durationMonths)
+    : null;
+  const overlapsCurrent = startDate !== '' && startDate <= source.endDate;
+  const replacesCurrent = overlapsCurrent && startDate === today;
+  const overlapError = overlapsCurrent && !replacesCurrent
+    ? `${source.planName} runs until ${source.endDate}. Start after that, or start today to end it now.`
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source.userId || !newPlan || overlapError) return;
+    setSaving(true);
+    try {
+      // Assigned first, so a failure part way never leaves the member without a plan
+      const assigned = await assignmentsApi.assign({ userId: source.userId, planId: newPlan.planId, startDate });
+      if (replacesCurrent) {
+        try {
+          await assignmentsApi.cancel(source.assignmentId);
+        } catch (err) {
+          console.error('Failed to cancel the replaced plan:', err);
+          reportApiError(err);
+          notify('warning', `${newPlan.planName} was assigned, but ${source.planName} is still active. Cancel it from the assignments list.`);
+        }
+      }
+      onAssigned(assigned);
+    } catch (err) {
+      console.error('Failed to assign follow-on plan:', err);
+      reportApiError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg max-w-lg mx-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800">{mode === 'renew' ? 'Renew Membership' : 'Change Plan'}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none" aria-label="Close">&times;</button>
+        </div>
+        <p className="text-gray-700 mb-4">
+          <span className="font-semibold">{source.userName}</span>: {source.planName}, ends {source.endDate}
+        </p>
+
+        {!source.userId ? (
+          <p className="text-red-600">This membership has no member ID, so it cannot be renewed from here.</p>
+        ) : loadingPlans ? (
+          <p className="text-gray-600">Loading plans...</p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="grid grid-cols-1 gap-4">
+              <div>
+                <label htmlFor="renewalPlanId" className="block text-sm font-medium text-gray-700">{mode === 'renew' ? 'Plan:' : 'New Plan:'}</label>
+                <select id="renewalPlanId" value={planId} onChange={(e) => setPlanId(e.target.value)} required
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                  <option value="">-- Select a Plan --</option>
+                  {planOptions.map(plan => (
+                    <option key={plan.planId} value={plan.planId}>{plan.planName} (${plan.price} / {plan.durationMonths}mo)</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="renewalStartDate" className="block text-sm font-medium text-gray-700">Start Date:</label>
+                <div className="flex gap-2 mt-1">
+                  <input type="date" id="renewalStartDate" value={startDate} onChange={(e) => setStartDate(e.target.value)} required
+                         className="block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                  {mode === 'change' && (
+                    <button type="button" onClick={() => setStartDate(today)}
+                            className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm font-bold px-3 rounded-md whitespace-nowrap">
+                      Start Today
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {newPlan && startDate && (
+              <div className="bg-gray-50 rounded-md p-3 mt-4 text-sm text-gray-700 space-y-1">
+                {isUpgrade !== null && mode === 'change' && (
+                  <p className="font-semibold">{isUpgrade ? 'Upgrade' : 'Downgrade'} from {source.planName}</p>
+                )}
+                <p>New period: {startDate} to {assignmentEndDate(startDate, newPlan)}</p>
+                {replacesCurrent && <p>{source.planName} will be cancelled today.</p>}
+                <p>Plan price: {formatCurrency(newPlan.price)}</p>
+                {credit && credit.amount > 0 && (
+                  <>
+                    <p>
+                      Prorated credit for unused time: -{formatCurrency(credit.amount)}
+                      <span className="text-gray-500"> ({credit.unusedDays} of {credit.totalDays} days)</span>
+                    </p>
+                    <p className="font-semibold">
+                      {newPlan.price >= credit.amount
+                        ? `Amount due: ${formatCurrency(newPlan.price - credit.amount)}`
+                        : `Credit remaining: ${formatCurrency(credit.amount - newPlan.price)}`}
+                    </p>
+                  </>
+                )}
+                {credit && credit.amount === 0 && (
+                  <p className="text-gray-500">Starts after the current plan ends, so there is no unused time to credit.</p>
+                )}
+                {!currentPlan && mode === 'change' && (
+                  <p className="text-gray-500">The current plan no longer exists, so no credit can be worked out.</p>
+                )}
+              </div>
+            )}
+
+            {overlapError && <p className="text-red-600 mt-4">{overlapError}</p>}
+            {error && <p className="text-red-600 mt-4">{error}</p>}
+            <div className="mt-6 flex justify-end space-x-3">
+              <button type="submit" disabled={saving || !newPlan || Boolean(overlapError)}
+                      className="bg-purple-500 hover:bg-purple-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                {saving ? 'Assigning...' : mode === 'renew' ? 'Renew' : 'Change Plan'}
+              </button>
+              <button type="button" onClick={onClose}
+                      className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentRenewal;
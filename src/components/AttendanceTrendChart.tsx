@@ -0,0 +1,122 @@
+// src/components/AttendanceTrendChart.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { dashboardApi, type DailyAttendance } from '../api';
+import {
+  GRANULARITY_LABELS, bucketCounts, percentChange, previousPeriod, resolvePresetRange,
+  type DateRange, type Granularity, type RangePreset,
+} from '../utils/dateRange';
+import DateRangePicker from './DateRangePicker';
+
+// Check-ins over a chosen range and grouping, drawn against the period just before it
+const AttendanceTrendChart: React.FC = () => {
+  const [preset, setPreset] = useState<RangePreset>('7d');
+  const [customRange, setCustomRange] = useState<DateRange>(() => resolvePresetRange('30d'));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [counts, setCounts] = useState<DailyAttendance>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(
+    () => (preset === 'custom' ? customRange : resolvePresetRange(preset)),
+    [preset, customRange],
+  );
+  const previous = useMemo(() => previousPeriod(range, preset), [range, preset]);
+  const rangeValid = range.start <= range.end;
+
+  // One request covers both periods, since the previous one always ends before the current starts
+  useEffect(() => {
+    if (!rangeValid) return;
+    let cancelled = false;
+    const fetchAttendance = async () => {
+      try {
+        setLoading(true);
+        const data = await dashboardApi.getDailyAttendance(previous.start, range.end);
+        if (!cancelled) {
+          setCounts(data);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch attendance chart data:', err);
+        if (!cancelled) setError('Failed to load attendance data.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchAttendance();
+    return () => { cancelled = true; };
+  }, [previous.start, range.end, rangeValid]);
+
+  const { chartData, total, previousTotal } = useMemo(() => {
+    if (!rangeValid) return { chartData: [], total: 0, previousTotal: 0 };
+    const current = bucketCounts(counts, range, granularity);
+    const before = bucketCounts(counts, previous, granularity);
+    return {
+      // Buckets are paired by position, so "previous" is the same slot one period earlier
+      chartData: current.map((bucket, index) => ({
+        label: bucket.label,
+        count: bucket.count,
+        previousCount: before[index]?.count ?? null,
+      })),
+      total: current.reduce((sum, bucket) => sum + bucket.count, 0),
+      previousTotal: before.reduce((sum, bucket) => sum + bucket.count, 0),
+    };
+  }, [counts, range, previous, granularity, rangeValid]);
+
+  const change = percentChange(total, previousTotal);
+  const formatRange = (r: DateRange) => `${format(parseISO(r.start), 'MMM d, yyyy')} - ${format(parseISO(r.end), 'MMM d, yyyy')}`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <DateRangePicker id="attendance" preset={preset} customRange={customRange}
+                         onPresetChange={setPreset} onCustomRangeChange={setCustomRange} />
+        <div>
+          <label htmlFor="attendanceGranularity" className="block text-sm font-medium text-gray-700">Group by:</label>
+          <select id="attendanceGranularity" value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)}
+                  className="mt-1 block border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+            {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(key => (
+              <option key={key} value={key}>{GRANULARITY_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!rangeValid ? (
+        <p className="text-red-600 text-center">The start date must be on or before the end date.</p>
+      ) : error ? (
+        <p className="text-red-600 text-center">{error}</p>
+      ) : loading && chartData.every(point => point.count === 0) ? (
+        <p className="text-gray-600 text-center">Loading attendance...</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-2">
+            <span className="font-semibold text-gray-800">{total}</span> check-ins ({formatRange(range)})
+            {' vs '}{previousTotal} in the previous period:{' '}
+            {change === null ? (
+              <span className="text-gray-500">no earlier data</span>
+            ) : (
+              <span className={`font-semibold ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+              </span>
+            )}
+          </p>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="count" stroke="#8884d8" activeDot={{ r: 8 }} name="Check-ins" />
+              <Line type="monotone" dataKey="previousCount" stroke="#bbbbbb" strokeDasharray="5 5" dot={false} name="Previous period" />
+            </LineChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceTrendChart;
@@ -0,0 +1,65 @@
+// src/components/CheckInReviewActions.tsx
+import React, { useState } from 'react';
+import { hasBlockingIssue, needsReview, type CheckInEvaluation } from '../utils/checkInValidation';
+
+interface CheckInReviewActionsProps {
+  evaluation: CheckInEvaluation;
+  canOverride: boolean;
+  submitting: boolean;
+  onCheckIn: (overrideReason?: string) => void;
+  onCancel: () => void;
+}
+
+// Confirm or override buttons for a check-in that needs a decision, shown inside MemberStatusCard
+const CheckInReviewActions: React.FC<CheckInReviewActionsProps> = ({ evaluation, canOverride, submitting, onCheckIn, onCancel }) => {
+  const [overrideReason, setOverrideReason] = useState<string>('');
+
+  if (hasBlockingIssue(evaluation)) {
+    return canOverride ? (
+      <form
+        onSubmit={(e) => { e.preventDefault(); onCheckIn(overrideReason.trim()); }}
+        className="flex flex-col md:flex-row gap-2 md:items-end"
+      >
+        <div className="flex-grow">
+          <label htmlFor="overrideReason" className="block text-sm font-medium text-gray-700 mb-1">Override Reason:</label>
+          <input type="text" id="overrideReason" value={overrideReason} onChange={(e) => setOverrideReason(e.target.value)}
+                 placeholder="e.g., Renewal paid at the desk" required
+                 className="block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <button type="submit" disabled={submitting || !overrideReason.trim()}
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md h-10">
+          {submitting ? 'Checking In...' : 'Override and Check In'}
+        </button>
+        <button type="button" onClick={onCancel}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-2 px-4 rounded-md h-10">
+          Cancel
+        </button>
+      </form>
+    ) : (
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-red-700">Check-in blocked. A manager can override it.</p>
+        <button onClick={onCancel}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-2 px-4 rounded-md">
+          Dismiss
+        </button>
+      </div>
+    );
+  }
+
+  if (!needsReview(evaluation)) return null;
+
+  return (
+    <div className="flex gap-2">
+      <button onClick={() => onCheckIn()} disabled={submitting}
+              className="bg-yellow-500 hover:bg-yellow-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md">
+        {submitting ? 'Checking In...' : 'Check In Anyway'}
+      </button>
+      <button onClick={onCancel}
+              className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-2 px-4 rounded-md">
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default CheckInReviewActions;
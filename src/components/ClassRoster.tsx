@@ -0,0 +1,177 @@
+// src/components/ClassRoster.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { classesApi, usersApi, reportApiError, type ClassBooking, type GroupClass, type User } from '../api';
+import { CLASS_BOOKING_STATUS_COLORS, CLASS_BOOKING_STATUS_LABELS, classEndTime, occupancy } from '../utils/classes';
+import { useNotifications } from '../hooks/useNotifications';
+
+interface ClassRosterProps {
+  groupClass: GroupClass;
+  date: string; // YYYY-MM-DD of the occurrence
+  bookings: ClassBooking[]; // This occurrence only
+  canBook: boolean;
+  canMarkAttendance: boolean;
+  onClose: () => void;
+  onBookingsChange: (bookings: ClassBooking[]) => void;
+}
+
+// Who is booked into one occurrence of a class, the waitlist, and the register
+const ClassRoster: React.FC<ClassRosterProps> = ({
+  groupClass, date, bookings, canBook, canMarkAttendance, onClose, onBookingsChange,
+}) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [members, setMembers] = useState<User[]>([]);
+  const [userId, setUserId] = useState<string>('');
+  const [workingId, setWorkingId] = useState<number | null>(null);
+  const [booking, setBooking] = useState<boolean>(false);
+  const { notify } = useNotifications();
+  const bookable = canBook && date >= today;
+
+  useEffect(() => {
+    if (!bookable) return;
+    usersApi.list()
+      .then(all => setMembers([...all].sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(err => console.error('Failed to fetch members:', err));
+  }, [bookable]);
+
+  const { taken, waitlisted } = occupancy(bookings);
+  const attendees = bookings.filter(b => b.status === 'BOOKED' || b.status === 'ATTENDED');
+  const waitlist = bookings.filter(b => b.status === 'WAITLISTED').sort((a, b) => (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0));
+  const cancelled = bookings.filter(b => b.status === 'CANCELLED');
+  const activeUserIds = new Set(bookings.filter(b => b.status !== 'CANCELLED').map(b => b.userId));
+
+  const handleBook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBooking(true);
+    try {
+      const created = await classesApi.book(groupClass.classId, userId, date);
+      onBookingsChange([...bookings, created]);
+      notify(created.status === 'WAITLISTED' ? 'info' : 'success', created.status === 'WAITLISTED'
+        ? `The class is full. ${created.userName} is number ${created.waitlistPosition} on the waitlist.`
+        : `${created.userName} is booked in.`);
+      setUserId('');
+    } catch (err) {
+      console.error('Failed to book class:', err);
+      reportApiError(err);
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  const handleCancel = async (target: ClassBooking) => {
+    if (!window.confirm(`Cancel ${target.userName}'s ${target.status === 'WAITLISTED' ? 'waitlist place' : 'booking'}?`)) return;
+    setWorkingId(target.bookingId);
+    try {
+      const updated = await classesApi.cancelBooking(target.bookingId);
+      const promoted = updated.filter(b => b.status === 'BOOKED' && bookings.some(old => old.bookingId === b.bookingId && old.status === 'WAITLISTED'));
+      onBookingsChange(updated);
+      notify('success', promoted.length > 0
+        ? `Cancelled. ${promoted.map(b => b.userName).join(', ')} moved up from the waitlist.`
+        : 'Cancelled.');
+    } catch (err) {
+      console.error('Failed to cancel class booking:', err);
+      reportApiError(err);
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleAttend = async (target: ClassBooking) => {
+    setWorkingId(target.bookingId);
+    try {
+      const updated = await classesApi.markAttended(target.bookingId);
+      onBookingsChange(bookings.map(b => (b.bookingId === updated.bookingId ? updated : b)));
+      notify('success', `${updated.userName} attended and is checked in.`);
+    } catch (err) {
+      console.error('Failed to mark class attendance:', err);
+      reportApiError(err);
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const cancelButton = (target: ClassBooking) => canBook && target.status !== 'ATTENDED' && date >= today && (
+    <button onClick={() => handleCancel(target)} disabled={workingId === target.bookingId}
+            className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white text-sm py-1 px-3 rounded-md">Cancel</button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg max-w-2xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-semibold text-gray-800">{groupClass.name}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none" aria-label="Close">&times;</button>
+        </div>
+        <p className="text-gray-700 mb-4">
+          {format(parseISO(date), 'EEEE dd MMM yyyy')}, {groupClass.startTime}-{classEndTime(groupClass)} in {groupClass.room} with {groupClass.trainerName}
+        </p>
+        <p className={`font-semibold mb-4 ${taken >= groupClass.capacity ? 'text-red-600' : 'text-green-600'}`}>
+          {taken} / {groupClass.capacity} places taken{waitlisted > 0 && `, ${waitlisted} on the waitlist`}
+        </p>
+
+        {bookable && (
+          <form onSubmit={handleBook} className="flex gap-2 mb-4">
+            <select value={userId} onChange={(e) => setUserId(e.target.value)} required aria-label="Member"
+                    className="block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+              <option value="">-- Select a Member --</option>
+              {members.filter(m => !activeUserIds.has(m.userId)).map(m => (
+                <option key={m.userId} value={m.userId}>{m.name} ({m.membershipStatus})</option>
+              ))}
+            </select>
+            <button type="submit" disabled={booking || !userId}
+                    className="bg-purple-500 hover:bg-purple-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md whitespace-nowrap">
+              {booking ? 'Booking...' : taken >= groupClass.capacity ? 'Add to Waitlist' : 'Book'}
+            </button>
+          </form>
+        )}
+
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">Booked</h3>
+        {attendees.length === 0 ? (
+          <p className="text-gray-500 mb-4">Nobody is booked in yet.</p>
+        ) : (
+          <table className="min-w-full bg-white border border-gray-200 mb-4">
+            <tbody>
+              {attendees.map(b => (
+                <tr key={b.bookingId} className="border-b">
+                  <td className="py-2 px-3"><Link to={`/users/${b.userId}`} className="text-blue-600 hover:underline">{b.userName}</Link></td>
+                  <td className={`py-2 px-3 font-semibold ${CLASS_BOOKING_STATUS_COLORS[b.status]}`}>{CLASS_BOOKING_STATUS_LABELS[b.status]}</td>
+                  <td className="py-2 px-3 text-right whitespace-nowrap">
+                    {canMarkAttendance && b.status === 'BOOKED' && date <= today && (
+                      <button onClick={() => handleAttend(b)} disabled={workingId === b.bookingId}
+                              className="bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white text-sm py-1 px-3 rounded-md mr-2">Attended</button>
+                    )}
+                    {cancelButton(b)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">Waitlist</h3>
+        {waitlist.length === 0 ? (
+          <p className="text-gray-500 mb-4">Nobody is waiting.</p>
+        ) : (
+          <table className="min-w-full bg-white border border-gray-200 mb-4">
+            <tbody>
+              {waitlist.map(b => (
+                <tr key={b.bookingId} className="border-b">
+                  <td className="py-2 px-3 text-gray-500 w-10">{b.waitlistPosition}.</td>
+                  <td className="py-2 px-3"><Link to={`/users/${b.userId}`} className="text-blue-600 hover:underline">{b.userName}</Link></td>
+                  <td className="py-2 px-3 text-right">{cancelButton(b)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {cancelled.length > 0 && (
+          <p className="text-sm text-gray-500">Cancelled: {cancelled.map(b => b.userName).join(', ')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassRoster;
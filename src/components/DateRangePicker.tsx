@@ -0,0 +1,44 @@
+// src/components/DateRangePicker.tsx
+import React from 'react';
+import { RANGE_PRESET_LABELS, type DateRange, type RangePreset } from '../utils/dateRange';
+
+interface DateRangePickerProps {
+  id: string; // Prefix for the input ids, so several pickers can share a page
+  preset: RangePreset;
+  customRange: DateRange; // Used when preset is 'custom'
+  onPresetChange: (preset: RangePreset) => void;
+  onCustomRangeChange: (range: DateRange) => void;
+}
+
+// Preset selector with from/to inputs for custom ranges
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ id, preset, customRange, onPresetChange, onCustomRangeChange }) => (
+  <>
+    <div>
+      <label htmlFor={`${id}Range`} className="block text-sm font-medium text-gray-700">Range:</label>
+      <select id={`${id}Range`} value={preset} onChange={(e) => onPresetChange(e.target.value as RangePreset)}
+              className="mt-1 block border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+        {(Object.keys(RANGE_PRESET_LABELS) as RangePreset[]).map(key => (
+          <option key={key} value={key}>{RANGE_PRESET_LABELS[key]}</option>
+        ))}
+      </select>
+    </div>
+    {preset === 'custom' && (
+      <>
+        <div>
+          <label htmlFor={`${id}From`} className="block text-sm font-medium text-gray-700">From:</label>
+          <input type="date" id={`${id}From`} value={customRange.start} max={customRange.end}
+                 onChange={(e) => e.target.value && onCustomRangeChange({ ...customRange, start: e.target.value })}
+                 className="mt-1 block border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor={`${id}To`} className="block text-sm font-medium text-gray-700">To:</label>
+          <input type="date" id={`${id}To`} value={customRange.end} min={customRange.start}
+                 onChange={(e) => e.target.value && onCustomRangeChange({ ...customRange, end: e.target.value })}
+                 className="mt-1 block border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+      </>
+    )}
+  </>
+);
+
+export default DateRangePicker;
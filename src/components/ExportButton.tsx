@@ -0,0 +1,46 @@
+// src/components/ExportButton.tsx
+import React, { useState } from 'react';
+import type { ExportFormat } from '../utils/export';
+
+interface ExportButtonProps {
+  onExport: (exportFormat: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+}
+
+// Export action with a format picker; shows its own busy and error state
+const ExportButton: React.FC<ExportButtonProps> = ({ onExport, disabled }) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [failed, setFailed] = useState<boolean>(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setFailed(false);
+    try {
+      await onExport(exportFormat);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setFailed(true);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="inline-flex items-center gap-2">
+      <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+              className="border border-gray-300 rounded-md shadow-sm p-1 text-sm bg-white">
+        <option value="csv">CSV</option>
+        <option value="xlsx">Excel (.xlsx)</option>
+      </select>
+      <button onClick={handleExport} disabled={disabled || exporting}
+              className="bg-gray-700 hover:bg-gray-800 disabled:bg-gray-300 text-white text-sm font-bold py-1 px-3 rounded-md transition-colors duration-200 ease-in-out">
+        {exporting ? 'Exporting...' : 'Export'}
+      </button>
+      {failed && <span className="text-red-600 text-sm">Export failed</span>}
+    </div>
+  );
+};
+
+export default ExportButton;
@@ -0,0 +1,8 @@
+// src/components/FieldError.tsx
+import React from 'react';
+
+// Message shown under a form input that failed validation
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-red-600 text-sm mt-1">{message}</p> : null;
+
+export default FieldError;
@@ -0,0 +1,80 @@
+// src/components/MemberCardSheet.tsx
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { format, isValid, parseISO } from 'date-fns';
+
+// Data needed to render one member ID card
+export interface MemberCardData {
+  userId: string;
+  name: string;
+  joiningDate: string; // YYYY-MM-DD
+  planName: string | null; // Current plan, if any
+}
+
+// parseISO keeps a YYYY-MM-DD date on the local day; a missing or broken date must not stop the sheet printing
+const formatJoiningDate = (date: string): string => {
+  const parsed = parseISO(date);
+  return isValid(parsed) ? format(parsed, 'dd MMM yyyy') : 'Unknown';
+};
+
+interface MemberCardSheetProps {
+  cards: MemberCardData[];
+  loading: boolean;
+  onClose: () => void;
+}
+
+// Full-screen preview of credit-card-sized (85.6mm x 54mm) member cards.
+// Only the .print-area is printed (see index.css), laid out as a sheet for batches.
+const MemberCardSheet: React.FC<MemberCardSheetProps> = ({ cards, loading, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg max-w-5xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800">
+            Member Cards ({cards.length})
+          </h2>
+          <div className="space-x-3">
+            <button
+              onClick={() => window.print()}
+              disabled={loading || cards.length === 0}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+            >
+              Print
+            </button>
+            <button
+              onClick={onClose}
+              className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-600">Preparing cards...</p>
+        ) : (
+          <div className="print-area card-sheet">
+            {cards.map((card) => (
+              <div key={card.userId} className="member-card border border-gray-300 rounded-lg bg-white text-gray-800">
+                <div className="flex flex-col justify-between h-full min-w-0">
+                  <div>
+                    <p className="text-xs font-extrabold text-teal-600 uppercase tracking-wide">Gym Central</p>
+                    <p className="text-lg font-bold leading-tight mt-1 break-words">{card.name}</p>
+                  </div>
+                  <div className="text-xs leading-snug">
+                    <p><span className="text-gray-500">Member since:</span> {formatJoiningDate(card.joiningDate)}</p>
+                    <p><span className="text-gray-500">Plan:</span> {card.planName || 'No active plan'}</p>
+                    <p className="text-gray-400 mt-1 break-all" style={{ fontSize: '6pt' }}>{card.userId}</p>
+                  </div>
+                </div>
+                <QRCodeSVG value={card.userId} size={112} level="M" className="flex-shrink-0" />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemberCardSheet;
@@ -0,0 +1,121 @@
+// src/components/MemberForm.tsx
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import type { User, UserPayload } from '../api';
+import { hasFieldErrors, inputBorder, validateForm, type FieldErrors } from '../utils/formValidation';
+import { memberFormSchema, type MemberFormValues } from '../utils/formSchemas';
+import FieldError from './FieldError';
+
+interface MemberFormProps {
+  editingUser: User | null; // Null when adding a new member
+  saving: boolean;
+  // Resolves with the backend's field errors when the save was rejected, so they show on the inputs
+  onSubmit: (payload: UserPayload) => Promise<FieldErrors<MemberFormValues> | void>;
+  onCancel?: () => void; // Shows a "Cancel Edit" button while editing
+}
+
+// Add/edit member form. Remount it (via key) to reset it for a different member.
+const MemberForm: React.FC<MemberFormProps> = ({ editingUser, saving, onSubmit, onCancel }) => {
+  // Form state for new/editing user (numbers kept as strings for the inputs)
+  const [formData, setFormData] = useState<MemberFormValues>(() => editingUser ? {
+    name: editingUser.name,
+    age: editingUser.age.toString(),
+    gender: editingUser.gender,
+    contactNumber: editingUser.contactNumber,
+    membershipStatus: editingUser.membershipStatus,
+    joiningDate: editingUser.joiningDate,
+  } : {
+    name: '',
+    age: '',
+    gender: '',
+    contactNumber: '',
+    membershipStatus: 'Inactive', // Default status
+    joiningDate: format(new Date(), 'yyyy-MM-dd'), // Today's date
+  });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<MemberFormValues>>({});
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData({ ...formData, [name]: value });
+    setFieldErrors({ ...fieldErrors, [name]: undefined }); // Re-checked on the next submit
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validateForm(memberFormSchema(format(new Date(), 'yyyy-MM-dd')), formData);
+    setFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
+    const serverErrors = await onSubmit({
+      ...formData,
+      contactNumber: formData.contactNumber.trim(),
+      age: Number(formData.age),
+    });
+    if (serverErrors) setFieldErrors(serverErrors);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name:</label>
+          <input type="text" id="name" name="name" value={formData.name} onChange={handleInputChange} required
+                 className={`mt-1 block w-full border ${inputBorder(fieldErrors.name)} rounded-md shadow-sm p-2`} />
+          <FieldError message={fieldErrors.name} />
+        </div>
+        <div>
+          <label htmlFor="age" className="block text-sm font-medium text-gray-700">Age:</label>
+          <input type="number" id="age" name="age" value={formData.age} onChange={handleInputChange} required
+                 className={`mt-1 block w-full border ${inputBorder(fieldErrors.age)} rounded-md shadow-sm p-2`} />
+          <FieldError message={fieldErrors.age} />
+        </div>
+        <div>
+          <label htmlFor="gender" className="block text-sm font-medium text-gray-700">Gender:</label>
+          <select id="gender" name="gender" value={formData.gender} onChange={handleInputChange} required
+                  className={`mt-1 block w-full border ${inputBorder(fieldErrors.gender)} rounded-md shadow-sm p-2 bg-white`}>
+            <option value="">Select Gender</option>
+            <option value="Male">Male</option>
+            <option value="Female">Female</option>
+            <option value="Other">Other</option>
+          </select>
+          <FieldError message={fieldErrors.gender} />
+        </div>
+        <div>
+          <label htmlFor="contactNumber" className="block text-sm font-medium text-gray-700">Contact Number:</label>
+          <input type="text" id="contactNumber" name="contactNumber" value={formData.contactNumber} onChange={handleInputChange} required
+                 className={`mt-1 block w-full border ${inputBorder(fieldErrors.contactNumber)} rounded-md shadow-sm p-2`} />
+          <FieldError message={fieldErrors.contactNumber} />
+        </div>
+        <div>
+          <label htmlFor="membershipStatus" className="block text-sm font-medium text-gray-700">Membership Status:</label>
+          <select id="membershipStatus" name="membershipStatus" value={formData.membershipStatus} onChange={handleInputChange} required
+                  className={`mt-1 block w-full border ${inputBorder(fieldErrors.membershipStatus)} rounded-md shadow-sm p-2 bg-white`}>
+            <option value="Active">Active</option>
+            <option value="Inactive">Inactive</option>
+            <option value="Expired">Expired</option>
+          </select>
+          <FieldError message={fieldErrors.membershipStatus} />
+        </div>
+        <div>
+          <label htmlFor="joiningDate" className="block text-sm font-medium text-gray-700">Joining Date:</label>
+          <input type="date" id="joiningDate" name="joiningDate" value={formData.joiningDate} onChange={handleInputChange} required
+                 className={`mt-1 block w-full border ${inputBorder(fieldErrors.joiningDate)} rounded-md shadow-sm p-2`} />
+          <FieldError message={fieldErrors.joiningDate} />
+        </div>
+      </div>
+      <div className="mt-6 flex justify-end space-x-3">
+        <button type="submit" disabled={saving}
+                className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+          {saving ? 'Saving...' : (editingUser ? 'Update Member' : 'Add Member')}
+        </button>
+        {editingUser && onCancel && (
+          <button type="button" onClick={onCancel}
+                  className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+            Cancel Edit
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default MemberForm;
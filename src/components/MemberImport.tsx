@@ -0,0 +1,273 @@
+// src/components/MemberImport.tsx
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { apiErrorMessage, usersApi, type User, type UserPayload } from '../api';
+import { downloadCsv, parseCsv } from '../utils/csv';
+import {
+  IMPORT_FIELDS, guessColumnMapping, validateImportRows,
+  type ColumnMapping, type ImportField, type ImportRow,
+} from '../utils/memberImport';
+
+const IMPORT_BATCH_SIZE = 10; // Members created in parallel per batch
+const PREVIEW_ROW_LIMIT = 200; // Keep the preview table responsive for very large files
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'importing' | 'report';
+
+interface ImportResult {
+  row: ImportRow;
+  success: boolean;
+  message: string; // New member ID on success, otherwise the reason it failed or was skipped
+}
+
+interface MemberImportProps {
+  onClose: () => void;
+  onImported: () => void; // Called after at least one member was created
+}
+
+// Full-screen wizard: upload a CSV, map its columns, preview validation, then create members in batches
+const MemberImport: React.FC<MemberImportProps> = ({ onClose, onImported }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState<string>('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping([]));
+  const [existingUsers, setExistingUsers] = useState<User[]>([]);
+  const [progress, setProgress] = useState<number>(0);
+  const [importTotal, setImportTotal] = useState<number>(0); // Rows being sent; validRows is empty once the preview step ends
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const validatedRows = useMemo(
+    () => (step === 'preview' ? validateImportRows(dataRows, mapping, existingUsers) : []),
+    [step, dataRows, mapping, existingUsers],
+  );
+  const validRows = validatedRows.filter((row): row is ImportRow & { payload: UserPayload } => row.payload !== null);
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setError('The file needs a header row and at least one member row.');
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(rows[0].map(header => header.trim()));
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0]));
+    setStep('map');
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  // Existing members are needed to flag duplicates before anything is created
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setExistingUsers(await usersApi.list());
+      setStep('preview');
+    } catch (err) {
+      console.error('Failed to load existing members:', err);
+      setError('Failed to load existing members to check for duplicates.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    // Taken from the preview before leaving it, since the rows are only validated on that step
+    const rowsToImport = validRows;
+    const skippedRows = validatedRows.filter(row => row.payload === null);
+    setImportTotal(rowsToImport.length);
+    setStep('importing');
+    setProgress(0);
+    const importResults: ImportResult[] = [];
+
+    for (let start = 0; start < rowsToImport.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rowsToImport.slice(start, start + IMPORT_BATCH_SIZE);
+      // Failures go into the import report rather than one notification per row
+      const settled = await Promise.allSettled(batch.map(row => usersApi.create(row.payload, { silentErrors: true })));
+      settled.forEach((outcome, index) => {
+        const row = batch[index];
+        if (outcome.status === 'fulfilled') {
+          importResults.push({ row, success: true, message: outcome.value.userId });
+        } else {
+          importResults.push({ row, success: false, message: apiErrorMessage(outcome.reason, 'Failed to create member') });
+        }
+      });
+      setProgress(Math.min(start + IMPORT_BATCH_SIZE, rowsToImport.length));
+    }
+
+    // Rows that were never sent still belong in the report
+    skippedRows.forEach(row => {
+      importResults.push({ row, success: false, message: `Skipped: ${row.duplicateOf ?? row.errors.join('; ')}` });
+    });
+    importResults.sort((a, b) => a.row.rowNumber - b.row.rowNumber);
+
+    setResults(importResults);
+    setStep('report');
+    if (importResults.some(result => result.success)) onImported();
+  };
+
+  const downloadReport = () => {
+    const nameColumn = mapping.name;
+    downloadCsv(`member-import-report-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`, [
+      ['Row', 'Name', 'Result', 'Details'],
+      ...results.map(({ row, success, message }) => [
+        row.rowNumber,
+        row.payload?.name ?? (nameColumn === null ? '' : row.cells[nameColumn]),
+        success ? 'Imported' : 'Failed',
+        message,
+      ]),
+    ]);
+  };
+
+  const succeeded = results.filter(result => result.success).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg max-w-5xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800">Import Members{fileName && `: ${fileName}`}</h2>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && <p className="text-red-600 mb-4">{error}</p>}
+
+        {step === 'upload' && (
+          <div>
+            <p className="text-gray-700 mb-2">
+              Choose a CSV file with a header row. Name, age, gender and contact number are required;
+              membership status defaults to Inactive and joining date to today.
+            </p>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange}
+                   className="block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div>
+            <p className="text-gray-700 mb-4">{dataRows.length} row(s) found. Match each member field to a column in the file.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label htmlFor={`map-${field}`} className="block text-sm font-medium text-gray-700">
+                    {label}{required && ' *'}:
+                  </label>
+                  <select id={`map-${field}`} value={mapping[field] ?? ''} onChange={(e) => handleMappingChange(field, e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                    <option value="">{required ? 'Select a column' : 'Not in file (use default)'}</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="mt-6 flex justify-end space-x-3">
+              <button onClick={() => setStep('upload')}
+                      className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Back</button>
+              <button onClick={handlePreview} disabled={missingRequired.length > 0 || busy}
+                      className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded-md">
+                {busy ? 'Checking...' : 'Preview'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div>
+            <p className="text-gray-700 mb-4">
+              <span className="text-green-700 font-semibold">{validRows.length} ready to import</span>,{' '}
+              <span className="text-red-700 font-semibold">{validatedRows.length - validRows.length} with problems</span> (these will be skipped).
+            </p>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto mb-4">
+              <table className="min-w-full bg-white border border-gray-200 text-sm">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Row</th>
+                    {IMPORT_FIELDS.map(({ field, label }) => (
+                      <th key={field} className="py-2 px-3 border-b text-left text-gray-600 font-semibold">{label}</th>
+                    ))}
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validatedRows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                    <tr key={row.rowNumber} className={`border-b ${row.payload ? '' : 'bg-red-50'}`}>
+                      <td className="py-2 px-3 text-gray-700">{row.rowNumber}</td>
+                      {IMPORT_FIELDS.map(({ field }) => {
+                        const column = mapping[field];
+                        return (
+                          <td key={field} className="py-2 px-3 text-gray-700">
+                            {row.payload ? row.payload[field] : (column === null ? '' : row.cells[column])}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 px-3 text-red-700">{row.duplicateOf ?? row.errors.join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {validatedRows.length > PREVIEW_ROW_LIMIT && (
+              <p className="text-sm text-gray-500 mb-4">Showing the first {PREVIEW_ROW_LIMIT} of {validatedRows.length} rows.</p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <button onClick={() => setStep('map')}
+                      className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Back</button>
+              <button onClick={handleImport} disabled={validRows.length === 0}
+                      className="bg-green-500 hover:bg-green-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded-md">
+                Import {validRows.length} Member(s)
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div>
+            <p className="text-gray-700 mb-2">Importing {progress} of {importTotal}...</p>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-green-500 h-2 rounded-full transition-all duration-200"
+                   style={{ width: `${importTotal ? (progress / importTotal) * 100 : 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {step === 'report' && (
+          <div>
+            <p className="text-gray-700 mb-4">
+              <span className="text-green-700 font-semibold">{succeeded} imported</span>,{' '}
+              <span className="text-red-700 font-semibold">{results.length - succeeded} failed or skipped</span>.
+            </p>
+            <ul className="max-h-64 overflow-y-auto text-sm mb-4 space-y-1">
+              {results.filter(result => !result.success).map(({ row, message }) => (
+                <li key={row.rowNumber} className="text-red-700">Row {row.rowNumber}: {message}</li>
+              ))}
+            </ul>
+            <div className="flex justify-end space-x-3">
+              <button onClick={downloadReport}
+                      className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md">Download Report</button>
+              <button onClick={onClose}
+                      className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Done</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemberImport;
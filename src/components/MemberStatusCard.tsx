@@ -0,0 +1,59 @@
+// src/components/MemberStatusCard.tsx
+import React, { type ReactNode } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { User } from '../api';
+import type { CheckInEvaluation, CheckInIssueSeverity } from '../utils/checkInValidation';
+
+interface MemberStatusCardProps {
+  member: User;
+  evaluation: CheckInEvaluation;
+  children?: ReactNode; // Actions shown under the issues, e.g. confirm or override
+}
+
+const ISSUE_STYLES: Record<CheckInIssueSeverity, string> = {
+  block: 'bg-red-100 text-red-800',
+  warn: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-50 text-blue-800',
+};
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+// Who is checking in and whether their membership allows it
+const MemberStatusCard: React.FC<MemberStatusCardProps> = ({ member, evaluation, children }) => {
+  const { currentPlan, daysRemaining, issues } = evaluation;
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow p-4 mb-6">
+      <div className="flex items-center gap-4">
+        {/* Photo placeholder until members have pictures */}
+        <div className="w-20 h-20 rounded-full bg-gray-300 flex items-center justify-center text-2xl font-bold text-gray-600 shrink-0">
+          {initials(member.name)}
+        </div>
+        <div className="min-w-0">
+          <p className="text-2xl font-bold text-gray-800 truncate">{member.name}</p>
+          <p className="text-gray-700">
+            <span className="text-gray-500">Plan:</span> {currentPlan ? currentPlan.planName : 'None'}
+            {currentPlan && (
+              <>
+                {' '}<span className="text-gray-500">Ends:</span> {format(parseISO(currentPlan.endDate), 'dd MMM yyyy')}
+              </>
+            )}
+          </p>
+          <p className={`font-semibold ${daysRemaining === null ? 'text-red-600' : daysRemaining <= 7 ? 'text-yellow-600' : 'text-green-600'}`}>
+            {daysRemaining === null ? 'No active plan' : `${daysRemaining} day(s) remaining`}
+          </p>
+        </div>
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {issues.map(issue => (
+            <li key={issue.code} className={`rounded-md px-3 py-1 text-sm ${ISSUE_STYLES[issue.severity]}`}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+      {children && <div className="mt-3">{children}</div>}
+    </div>
+  );
+};
+
+export default MemberStatusCard;
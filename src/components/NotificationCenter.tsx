@@ -0,0 +1,69 @@
+// src/components/NotificationCenter.tsx
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useNotifications } from '../hooks/useNotifications';
+import { NOTIFICATION_LABELS, NOTIFICATION_STYLES } from '../utils/notifications';
+
+// Bell in the header with an unread count; opens a drawer listing this session's notifications
+const NotificationCenter: React.FC = () => {
+  const { notifications, unreadCount, markAllRead, clearHistory } = useNotifications();
+  const [open, setOpen] = useState<boolean>(false);
+
+  const close = () => {
+    setOpen(false);
+    markAllRead();
+  };
+
+  return (
+    <>
+      <button onClick={() => (open ? close() : setOpen(true))} aria-label="Notifications"
+              className="relative p-2 rounded-full text-gray-600 hover:bg-gray-100 hover:text-gray-800">
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"></path></svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs font-bold rounded-full px-1.5 min-w-[1.25rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50" onClick={close}>
+          <aside className="absolute right-0 top-0 h-full w-96 max-w-full bg-white shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-800">Notifications</h2>
+              <div className="flex items-center gap-3">
+                {notifications.length > 0 && (
+                  <button onClick={clearHistory} className="text-sm text-gray-600 hover:text-gray-800 underline">Clear all</button>
+                )}
+                <button onClick={close} className="text-gray-500 hover:text-gray-700 text-2xl leading-none" aria-label="Close">&times;</button>
+              </div>
+            </div>
+            <div className="flex-grow overflow-auto p-4 space-y-2">
+              {notifications.length === 0 ? (
+                <p className="text-gray-500 text-center mt-8">No notifications yet.</p>
+              ) : notifications.map(notification => (
+                <div key={notification.id} className={`border-l-4 rounded-md p-3 text-sm ${NOTIFICATION_STYLES[notification.type]}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">
+                      {!notification.read && <span className="inline-block w-2 h-2 rounded-full bg-blue-600 mr-2" aria-label="Unread"></span>}
+                      {NOTIFICATION_LABELS[notification.type]}{notification.count > 1 && ` (${notification.count})`}
+                    </span>
+                    <span className="text-xs opacity-75">{format(new Date(notification.createdAt), 'HH:mm:ss')}</span>
+                  </div>
+                  <p>{notification.message}</p>
+                  {notification.details.length > 0 && (
+                    <ul className="list-disc list-inside mt-1">
+                      {notification.details.map(detail => <li key={detail}>{detail}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </aside>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default NotificationCenter;
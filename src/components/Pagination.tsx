@@ -0,0 +1,44 @@
+// src/components/Pagination.tsx
+import React from 'react';
+
+interface PaginationProps {
+  page: number; // Zero-based
+  totalPages: number;
+  totalElements: number;
+  size: number;
+  onPageChange: (page: number) => void;
+  onSizeChange?: (size: number) => void;
+  sizeOptions?: number[];
+}
+
+const Pagination: React.FC<PaginationProps> = ({
+  page, totalPages, totalElements, size, onPageChange, onSizeChange, sizeOptions = [10, 20, 50, 100],
+}) => {
+  const first = totalElements === 0 ? 0 : page * size + 1;
+  const last = Math.min((page + 1) * size, totalElements);
+
+  return (
+    <div className="flex flex-col md:flex-row items-center justify-between gap-3 mt-4 text-sm text-gray-700">
+      <p>Showing {first}-{last} of {totalElements}</p>
+      <div className="flex items-center gap-2">
+        {onSizeChange && (
+          <select value={size} onChange={(e) => onSizeChange(Number(e.target.value))}
+                  className="border border-gray-300 rounded-md p-1 bg-white" aria-label="Rows per page">
+            {sizeOptions.map(option => <option key={option} value={option}>{option} / page</option>)}
+          </select>
+        )}
+        <button onClick={() => onPageChange(0)} disabled={page <= 0}
+                className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50 hover:bg-gray-100">First</button>
+        <button onClick={() => onPageChange(page - 1)} disabled={page <= 0}
+                className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50 hover:bg-gray-100">Prev</button>
+        <span>Page {totalPages === 0 ? 0 : page + 1} of {totalPages}</span>
+        <button onClick={() => onPageChange(page + 1)} disabled={page >= totalPages - 1}
+                className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50 hover:bg-gray-100">Next</button>
+        <button onClick={() => onPageChange(totalPages - 1)} disabled={page >= totalPages - 1}
+                className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50 hover:bg-gray-100">Last</button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
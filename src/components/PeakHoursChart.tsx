@@ -0,0 +1,147 @@
+// src/components/PeakHoursChart.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { attendanceApi, type AttendanceRecord } from '../api';
+import { resolvePresetRange, type DateRange, type RangePreset } from '../utils/dateRange';
+import {
+  WEEKDAY_LABELS, busiestSlots, buildPeakHoursHeatmap, formatHour, totalsByHour,
+} from '../utils/peakHours';
+import DateRangePicker from './DateRangePicker';
+
+const BUSIEST_SLOT_COUNT = 5;
+const HOUR_SUMMARY_COUNT = 3;
+
+// Cell shading from the chart's line colour (#8884d8), scaled to the busiest cell
+const cellColor = (count: number, max: number) =>
+  count === 0 || max === 0 ? '#f9fafb' : `rgba(136, 132, 216, ${0.15 + 0.85 * (count / max)})`;
+
+// Day-of-week by hour-of-day check-in heatmap with a busiest/quietest hours summary
+const PeakHoursChart: React.FC = () => {
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [customRange, setCustomRange] = useState<DateRange>(() => resolvePresetRange('90d'));
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(
+    () => (preset === 'custom' ? customRange : resolvePresetRange(preset)),
+    [preset, customRange],
+  );
+  const rangeValid = range.start <= range.end;
+
+  // All records are fetched once; changing the range only re-filters them
+  useEffect(() => {
+    const fetchRecords = async () => {
+      try {
+        setLoading(true);
+        setRecords(await attendanceApi.listAll());
+        setError(null);
+      } catch (err) {
+        console.error('Failed to fetch attendance for peak hours:', err);
+        setError('Failed to load attendance data.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRecords();
+  }, []);
+
+  const heatmap = useMemo(
+    () => buildPeakHoursHeatmap(records, rangeValid ? range : { start: range.end, end: range.end }),
+    [records, range, rangeValid],
+  );
+  const hourTotals = useMemo(() => totalsByHour(heatmap), [heatmap]);
+
+  // Only show the hours the gym actually sees traffic, e.g. 05:00-22:00
+  const activeHours = hourTotals.map((total, hour) => ({ hour, total })).filter(h => h.total > 0);
+  const firstHour = activeHours.length ? activeHours[0].hour : 0;
+  const lastHour = activeHours.length ? activeHours[activeHours.length - 1].hour : 23;
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, index) => firstHour + index);
+
+  const topSlots = busiestSlots(heatmap, BUSIEST_SLOT_COUNT);
+  const byTraffic = [...activeHours].sort((a, b) => b.total - a.total);
+  const busiestHours = byTraffic.slice(0, HOUR_SUMMARY_COUNT);
+  const quietestHours = byTraffic.slice(-HOUR_SUMMARY_COUNT).reverse();
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <DateRangePicker id="peakHours" preset={preset} customRange={customRange}
+                         onPresetChange={setPreset} onCustomRangeChange={setCustomRange} />
+      </div>
+
+      {!rangeValid ? (
+        <p className="text-red-600 text-center">The start date must be on or before the end date.</p>
+      ) : error ? (
+        <p className="text-red-600 text-center">{error}</p>
+      ) : loading ? (
+        <p className="text-gray-600 text-center">Loading attendance...</p>
+      ) : heatmap.total === 0 ? (
+        <p className="text-gray-500 text-center">No check-ins in this range.</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+          <div className="xl:col-span-3 overflow-x-auto">
+            <table className="border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th />
+                  {hours.map(hour => (
+                    <th key={hour} className="text-xs font-normal text-gray-500 px-1">{String(hour).padStart(2, '0')}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {WEEKDAY_LABELS.map((label, weekday) => (
+                  <tr key={label}>
+                    <th className="text-xs font-semibold text-gray-600 pr-2 text-left">{label}</th>
+                    {hours.map(hour => {
+                      const count = heatmap.counts[weekday][hour];
+                      return (
+                        <td key={hour} className="w-7 h-7 rounded text-center text-xs text-gray-800"
+                            style={{ backgroundColor: cellColor(count, heatmap.max) }}
+                            title={`${label} ${formatHour(hour)}: ${count} check-in(s)`}>
+                          {count > 0 ? count : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">{heatmap.total} check-ins, by local time of day. Darker cells are busier.</p>
+          </div>
+
+          <div className="text-sm text-gray-700 space-y-4">
+            <div>
+              <h4 className="font-semibold text-gray-800 mb-1">Busiest Hours</h4>
+              <ul>
+                {busiestHours.map(({ hour, total }) => (
+                  <li key={hour}>{formatHour(hour)}-{formatHour((hour + 1) % 24)}: {total} check-ins</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h4 className="font-semibold text-gray-800 mb-1">Busiest Slots (avg per day)</h4>
+              <ul>
+                {topSlots.map(slot => (
+                  <li key={`${slot.weekday}-${slot.hour}`}>
+                    {WEEKDAY_LABELS[slot.weekday]} {formatHour(slot.hour)}: {slot.averagePerDay.toFixed(1)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h4 className="font-semibold text-gray-800 mb-1">Quietest Open Hours</h4>
+              <ul>
+                {quietestHours.map(({ hour, total }) => (
+                  <li key={hour}>{formatHour(hour)}-{formatHour((hour + 1) % 24)}: {total} check-ins</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeakHoursChart;
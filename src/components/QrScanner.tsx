@@ -0,0 +1,57 @@
+// src/components/QrScanner.tsx
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Html5Qrcode } from 'html5-qrcode';
+
+interface QrScannerProps {
+  onScan: (decodedText: string) => void; // Called for every successful decode (caller handles debouncing)
+  fps?: number;
+  boxSize?: number;
+}
+
+// Wraps html5-qrcode's camera scanner. Starts the rear camera on mount and stops it on unmount.
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, fps = 10, boxSize = 250 }) => {
+  const elementId = `qr-reader-${useId().replace(/:/g, '')}`;
+  const onScanRef = useRef(onScan); // Keep latest callback without restarting the camera
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const scanner = new Html5Qrcode(elementId, false);
+    let started = false;
+    const startPromise = scanner
+      .start(
+        { facingMode: 'environment' },
+        { fps, qrbox: { width: boxSize, height: boxSize } },
+        (decodedText) => onScanRef.current(decodedText.trim()),
+        undefined // Per-frame "no code found" errors are expected noise
+      )
+      .then(() => {
+        started = true;
+        setCameraError(null);
+      })
+      .catch((err) => {
+        // A denied permission or missing camera is a normal outcome, not an unhandled rejection
+        console.error('Failed to start QR scanner:', err);
+        setCameraError('Unable to access the camera. Please allow camera permission or use manual check-in.');
+      });
+
+    return () => {
+      // Stop only after start has settled, otherwise html5-qrcode throws (e.g. under StrictMode double mount)
+      startPromise
+        .then(() => (started ? scanner.stop().then(() => scanner.clear()) : undefined))
+        .catch(() => { /* Already stopped */ });
+    };
+  }, [elementId, fps, boxSize]);
+
+  return (
+    <div>
+      <div id={elementId} className="w-full max-w-md mx-auto rounded-lg overflow-hidden bg-black" />
+      {cameraError && <p className="text-red-600 mt-2 text-center">{cameraError}</p>}
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,224 @@
+// src/components/RevenueAnalytics.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
+import { assignmentsApi, plansApi, type ExpiringMembership, type MembershipPlan, type PlanAssignment } from '../api';
+import {
+  bookedRevenueByMonth, currentRecurringRevenue, formatCurrency, recentMonths, recurringRevenueByMonth,
+  revenueAtRisk, revenueByPlan, type RevenueBucket,
+} from '../utils/revenue';
+
+const REVENUE_MONTHS = 12;
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#AF19FF', '#FF0054'];
+
+interface DrillDown {
+  title: string;
+  bucket: RevenueBucket;
+}
+
+interface RevenueAnalyticsProps {
+  expiringMemberships: ExpiringMembership[]; // Already loaded by the dashboard
+  expiringDays: number;
+}
+
+// Revenue widgets built from plan prices and assignments. Clicking a bar, slice or figure
+// lists the assignments behind it.
+const RevenueAnalytics: React.FC<RevenueAnalyticsProps> = ({ expiringMemberships, expiringDays }) => {
+  const [assignments, setAssignments] = useState<PlanAssignment[]>([]);
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [incomplete, setIncomplete] = useState<boolean>(false); // Some members' assignments failed to load
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  useEffect(() => {
+    const fetchRevenueData = async () => {
+      try {
+        setLoading(true);
+        const [allAssignments, allPlans] = await Promise.all([assignmentsApi.listAll(), plansApi.list()]);
+        setAssignments(allAssignments.assignments);
+        setIncomplete(allAssignments.failedUsers.length > 0);
+        setPlans(allPlans);
+      } catch (err) {
+        console.error('Failed to fetch revenue data:', err);
+        setError('Failed to load revenue data.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRevenueData();
+  }, []);
+
+  const revenue = useMemo(() => {
+    const months = recentMonths(REVENUE_MONTHS);
+    return {
+      booked: bookedRevenueByMonth(assignments, plans, months),
+      recurring: recurringRevenueByMonth(assignments, plans, months),
+      currentRecurring: currentRecurringRevenue(assignments, plans, format(new Date(), 'yyyy-MM-dd')),
+      byPlan: revenueByPlan(assignments, plans, months),
+      atRisk: revenueAtRisk(expiringMemberships, plans),
+    };
+  }, [assignments, plans, expiringMemberships]);
+
+  const totalAtRisk = revenue.atRisk.reduce((sum, bucket) => sum + bucket.amount, 0);
+  const atRiskLines: RevenueBucket = {
+    key: 'at-risk',
+    label: `Next ${expiringDays} days`,
+    amount: totalAtRisk,
+    lines: revenue.atRisk.flatMap(bucket => bucket.lines),
+  };
+
+  const openDrillDown = (title: string, bucket: RevenueBucket | undefined) => {
+    if (bucket) setDrillDown({ title, bucket });
+  };
+
+  if (loading) {
+    return <p className="text-center text-gray-600">Loading revenue data...</p>;
+  }
+
+  if (error) {
+    return <p className="text-center text-red-600">{error}</p>;
+  }
+
+  return (
+    <div>
+      {incomplete && (
+        <p className="text-yellow-700 bg-yellow-100 rounded-md p-2 text-sm mb-4">
+          Some members' plan assignments could not be loaded, so these figures may be low.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <button onClick={() => openDrillDown('Monthly recurring revenue', revenue.currentRecurring)}
+                className="bg-indigo-100 p-6 rounded-lg shadow text-center hover:bg-indigo-200">
+          <h3 className="text-xl font-semibold text-indigo-800">Monthly Recurring Revenue</h3>
+          <p className="text-4xl font-extrabold text-indigo-900 mt-2">{formatCurrency(revenue.currentRecurring.amount)}</p>
+          <p className="text-sm text-indigo-800 mt-1">{revenue.currentRecurring.lines.length} active assignment(s)</p>
+        </button>
+        <button onClick={() => openDrillDown('Revenue at risk', atRiskLines)}
+                className="bg-red-100 p-6 rounded-lg shadow text-center hover:bg-red-200">
+          <h3 className="text-xl font-semibold text-red-800">Revenue at Risk ({expiringDays} Days)</h3>
+          <p className="text-4xl font-extrabold text-red-900 mt-2">{formatCurrency(totalAtRisk)}</p>
+          <p className="text-sm text-red-800 mt-1">{atRiskLines.lines.length} membership(s) up for renewal</p>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Revenue Booked per Month</h4>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={revenue.booked}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="label" />
+              <YAxis />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Bar dataKey="amount" name="Booked" fill="#00C49F" cursor="pointer"
+                   onClick={(_data, index) => openDrillDown('Revenue booked', revenue.booked[index])} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Monthly Recurring Revenue</h4>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={revenue.recurring}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="label" />
+              <YAxis />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Bar dataKey="amount" name="MRR" fill="#8884d8" cursor="pointer"
+                   onClick={(_data, index) => openDrillDown('Monthly recurring revenue', revenue.recurring[index])} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Revenue by Plan (Last {REVENUE_MONTHS} Months)</h4>
+          {revenue.byPlan.length > 0 ? (
+            <ResponsiveContainer width="100%" height={260}>
+              <PieChart>
+                <Pie data={revenue.byPlan} dataKey="amount" nameKey="label" cx="50%" cy="50%" outerRadius={80} cursor="pointer"
+                     label={({ name, percent }) => `${name} (${((percent ?? 0) * 100).toFixed(0)}%)`}
+                     onClick={(_data, index) => openDrillDown('Revenue by plan', revenue.byPlan[index])}>
+                  {revenue.byPlan.map((bucket, index) => (
+                    <Cell key={bucket.key} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Legend />
+              </PieChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-gray-500 text-center">No plans booked in the last {REVENUE_MONTHS} months.</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Revenue at Risk by Plan</h4>
+          {revenue.atRisk.length > 0 ? (
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={revenue.atRisk} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="label" width={100} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Bar dataKey="amount" name="At risk" fill="#FF8042" cursor="pointer"
+                     onClick={(_data, index) => openDrillDown('Revenue at risk', revenue.atRisk[index])} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-gray-500 text-center">No memberships expiring in the next {expiringDays} days.</p>
+          )}
+        </div>
+      </div>
+
+      {drillDown && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-lg font-semibold text-gray-800">
+              {drillDown.title}: {drillDown.bucket.label} ({formatCurrency(drillDown.bucket.amount)})
+            </h4>
+            <button onClick={() => setDrillDown(null)} className="text-sm text-gray-600 hover:underline">Close</button>
+          </div>
+          {drillDown.bucket.lines.length === 0 ? (
+            <p className="text-gray-500 text-center">No assignments behind this figure.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="min-w-full bg-white border border-gray-200 text-sm">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Assignment ID</th>
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Member Name</th>
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Plan Name</th>
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Start Date</th>
+                    <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">End Date</th>
+                    <th className="py-2 px-3 border-b text-right text-gray-600 font-semibold">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {drillDown.bucket.lines.map(line => (
+                    <tr key={line.assignmentId} className="border-b hover:bg-gray-50">
+                      <td className="py-2 px-3 text-gray-700">{line.assignmentId}</td>
+                      <td className="py-2 px-3 text-gray-700">
+                        {line.userId ? (
+                          <Link to={`/users/${line.userId}`} className="text-blue-600 hover:underline">{line.userName}</Link>
+                        ) : line.userName}
+                      </td>
+                      <td className="py-2 px-3 text-gray-700">{line.planName}</td>
+                      <td className="py-2 px-3 text-gray-700">{line.startDate ?? '-'}</td>
+                      <td className="py-2 px-3 text-gray-700">{line.endDate}</td>
+                      <td className="py-2 px-3 text-gray-700 text-right">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevenueAnalytics;
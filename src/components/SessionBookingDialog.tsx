@@ -0,0 +1,198 @@
+// src/components/SessionBookingDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { addDays, addHours, addMinutes, endOfDay, format, parseISO, startOfDay, startOfHour } from 'date-fns';
+import { sessionsApi, trainersApi, usersApi, reportApiError, type Trainer, type TrainingSession, type User } from '../api';
+import { EXCEPTION_REASON_LABELS, exceptionOn, hasWeeklySlots, shiftsOn } from '../utils/trainerAvailability';
+import { SESSION_DURATIONS_MINUTES, findClash } from '../utils/sessions';
+
+interface SessionBookingDialogProps {
+  trainer?: Trainer; // Fixed when booking from the trainer row
+  member?: Pick<User, 'userId' | 'name'>; // Fixed when booking from the member's page
+  onClose: () => void;
+  onBooked: (session: TrainingSession) => void;
+}
+
+// Why the slot is outside the trainer's availability, or null when it fits a shift (or can't be checked)
+const availabilityWarning = (trainer: Trainer, start: Date, end: Date): string | null => {
+  if (!hasWeeklySlots(trainer)) return null;
+  const exception = exceptionOn(trainer, format(start, 'yyyy-MM-dd'));
+  if (exception) return `${trainer.name} is away that day (${EXCEPTION_REASON_LABELS[exception.reason]}).`;
+  const from = format(start, 'HH:mm');
+  const to = format(end, 'HH:mm');
+  const fits = format(start, 'yyyy-MM-dd') === format(end, 'yyyy-MM-dd')
+    && shiftsOn(trainer, start).some(slot => slot.start <= from && slot.end >= to);
+  return fits ? null : `This is outside ${trainer.name}'s weekly availability.`;
+};
+
+// Books a member with a trainer. Clashes with the trainer's other sessions are flagged before saving; the backend rejects them too
+const SessionBookingDialog: React.FC<SessionBookingDialogProps> = ({ trainer, member, onClose, onBooked }) => {
+  const defaultStart = startOfHour(addHours(new Date(), 1));
+  const [trainers, setTrainers] = useState<Trainer[]>(trainer ? [trainer] : []);
+  const [members, setMembers] = useState<User[]>([]);
+  const [trainerId, setTrainerId] = useState<string>(trainer ? String(trainer.trainerId) : '');
+  const [userId, setUserId] = useState<string>(member?.userId ?? '');
+  const [date, setDate] = useState<string>(format(defaultStart, 'yyyy-MM-dd'));
+  const [time, setTime] = useState<string>(format(defaultStart, 'HH:mm'));
+  const [duration, setDuration] = useState<number>(60);
+  const [notes, setNotes] = useState<string>('');
+  const [loadingOptions, setLoadingOptions] = useState<boolean>(!trainer || !member);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [trainerSessions, setTrainerSessions] = useState<TrainingSession[]>([]); // The selected trainer's sessions on the chosen date
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [allTrainers, allMembers] = await Promise.all([
+          trainer ? Promise.resolve(null) : trainersApi.list(),
+          member ? Promise.resolve(null) : usersApi.list(),
+        ]);
+        if (allTrainers) setTrainers(allTrainers);
+        if (allMembers) setMembers([...allMembers].sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (err) {
+        console.error('Failed to load booking options:', err);
+        setError('Failed to load trainers and members.');
+      } finally {
+        setLoadingOptions(false);
+      }
+    };
+    if (!trainer || !member) fetchOptions();
+  }, [trainer, member]);
+
+  useEffect(() => {
+    setTrainerSessions([]);
+    if (!trainerId || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+    let cancelled = false;
+    const day = parseISO(date);
+    // A session can run past midnight, so look from the start of the day to the end of the next one
+    sessionsApi.list(
+      { trainerId: Number(trainerId), from: startOfDay(day).toISOString(), to: endOfDay(addDays(day, 1)).toISOString() },
+      { silentErrors: true },
+    )
+      .then(sessions => { if (!cancelled) setTrainerSessions(sessions); })
+      .catch(err => console.error('Failed to fetch trainer sessions:', err)); // The backend still checks on save
+    return () => { cancelled = true; };
+  }, [trainerId, date]);
+
+  const selectedTrainer = trainers.find(t => String(t.trainerId) === trainerId);
+  const start = date && time ? new Date(`${date}T${time}`) : null;
+  const end = start ? addMinutes(start, duration) : null;
+  const warning = selectedTrainer && start && end ? availabilityWarning(selectedTrainer, start, end) : null;
+  const clash = start && end ? findClash(trainerSessions, start, end) : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!start || !end || !trainerId || !userId || clash) return;
+    setSaving(true);
+    try {
+      onBooked(await sessionsApi.book({
+        trainerId: Number(trainerId),
+        userId,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        notes: notes.trim() || undefined,
+      }));
+    } catch (err) {
+      console.error('Failed to book session:', err);
+      reportApiError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 overflow-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg max-w-lg mx-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800">Book PT Session</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none" aria-label="Close">&times;</button>
+        </div>
+
+        {loadingOptions ? (
+          <p className="text-gray-600">Loading...</p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label htmlFor="sessionTrainer" className="block text-sm font-medium text-gray-700">Trainer:</label>
+                {trainer ? (
+                  <p className="mt-1 text-gray-800 font-semibold">{trainer.name}</p>
+                ) : (
+                  <select id="sessionTrainer" value={trainerId} onChange={(e) => setTrainerId(e.target.value)} required
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                    <option value="">-- Select a Trainer --</option>
+                    {trainers.map(t => <option key={t.trainerId} value={t.trainerId}>{t.name} ({t.specialization})</option>)}
+                  </select>
+                )}
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="sessionMember" className="block text-sm font-medium text-gray-700">Member:</label>
+                {member ? (
+                  <p className="mt-1 text-gray-800 font-semibold">{member.name}</p>
+                ) : (
+                  <select id="sessionMember" value={userId} onChange={(e) => setUserId(e.target.value)} required
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                    <option value="">-- Select a Member --</option>
+                    {members.map(m => <option key={m.userId} value={m.userId}>{m.name} ({m.membershipStatus})</option>)}
+                  </select>
+                )}
+              </div>
+              <div>
+                <label htmlFor="sessionDate" className="block text-sm font-medium text-gray-700">Date:</label>
+                <input type="date" id="sessionDate" value={date} onChange={(e) => setDate(e.target.value)} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="sessionTime" className="block text-sm font-medium text-gray-700">Start Time:</label>
+                <input type="time" id="sessionTime" value={time} onChange={(e) => setTime(e.target.value)} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="sessionDuration" className="block text-sm font-medium text-gray-700">Duration:</label>
+                <select id="sessionDuration" value={duration} onChange={(e) => setDuration(Number(e.target.value))}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                  {SESSION_DURATIONS_MINUTES.map(minutes => <option key={minutes} value={minutes}>{minutes} minutes</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="sessionNotes" className="block text-sm font-medium text-gray-700">Notes:</label>
+                <input type="text" id="sessionNotes" value={notes} onChange={(e) => setNotes(e.target.value)}
+                       placeholder="e.g., Leg day, assessment"
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+            </div>
+
+            {start && end && (
+              <p className="text-sm text-gray-600 mt-4">
+                {format(start, 'EEE dd MMM yyyy, HH:mm')} to {format(end, 'HH:mm')}
+              </p>
+            )}
+            {warning && <p className="bg-yellow-100 text-yellow-800 rounded-md px-3 py-1 text-sm mt-2">{warning}</p>}
+            {clash && (
+              <p className="bg-red-100 text-red-800 rounded-md px-3 py-1 text-sm mt-2">
+                {selectedTrainer?.name ?? 'The trainer'} is already booked with {clash.userName} from {format(new Date(clash.startTime), 'HH:mm')} to {format(new Date(clash.endTime), 'HH:mm')}.
+              </p>
+            )}
+            {selectedTrainer && !hasWeeklySlots(selectedTrainer) && selectedTrainer.availability && (
+              <p className="text-sm text-gray-500 mt-2">Availability (not converted): {selectedTrainer.availability}</p>
+            )}
+
+            {error && <p className="text-red-600 mt-4">{error}</p>}
+            <div className="mt-6 flex justify-end space-x-3">
+              <button type="submit" disabled={saving || !trainerId || !userId || Boolean(clash)}
+                      className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                {saving ? 'Booking...' : 'Book Session'}
+              </button>
+              <button type="button" onClick={onClose}
+                      className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionBookingDialog;
@@ -0,0 +1,94 @@
+// src/components/SessionTable.tsx
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { sessionsApi, reportApiError, type TrainingSession, type TrainingSessionStatus } from '../api';
+import { SESSION_STATUS_COLORS, SESSION_STATUS_LABELS, hasStarted } from '../utils/sessions';
+import { useNotifications } from '../hooks/useNotifications';
+
+interface SessionTableProps {
+  sessions: TrainingSession[];
+  counterpart: 'trainer' | 'member'; // Which side of the booking to show; the other is implied by the page
+  canManage: boolean;
+  onChanged: (session: TrainingSession) => void;
+  emptyMessage: string;
+}
+
+const SessionTable: React.FC<SessionTableProps> = ({ sessions, counterpart, canManage, onChanged, emptyMessage }) => {
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const { notify } = useNotifications();
+  const now = new Date();
+
+  const updateStatus = async (session: TrainingSession, status: TrainingSessionStatus) => {
+    if (status === 'CANCELLED' && !window.confirm(`Cancel the session on ${format(new Date(session.startTime), 'dd MMM HH:mm')}?`)) return;
+    setUpdatingId(session.sessionId);
+    try {
+      const updated = await sessionsApi.setStatus(session.sessionId, status);
+      onChanged(updated);
+      notify('success', `Session on ${format(new Date(updated.startTime), 'dd MMM HH:mm')} marked as ${SESSION_STATUS_LABELS[updated.status].toLowerCase()}.`);
+    } catch (err) {
+      console.error('Failed to update session:', err);
+      reportApiError(err);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return <p className="text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Date</th>
+            <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Time</th>
+            <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">{counterpart === 'trainer' ? 'Trainer' : 'Member'}</th>
+            <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Status</th>
+            <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Notes</th>
+            {canManage && <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {sessions.map(session => {
+            const start = new Date(session.startTime);
+            const scheduled = session.status === 'SCHEDULED';
+            return (
+              <tr key={session.sessionId} className="border-b hover:bg-gray-50">
+                <td className="py-3 px-4 text-gray-700">{format(start, 'EEE dd MMM yyyy')}</td>
+                <td className="py-3 px-4 text-gray-700">{format(start, 'HH:mm')}-{format(new Date(session.endTime), 'HH:mm')}</td>
+                <td className="py-3 px-4 text-gray-700">
+                  {counterpart === 'trainer' ? session.trainerName : (
+                    <Link to={`/users/${session.userId}`} className="text-blue-600 hover:underline">{session.userName}</Link>
+                  )}
+                </td>
+                <td className={`py-3 px-4 font-semibold ${SESSION_STATUS_COLORS[session.status]}`}>{SESSION_STATUS_LABELS[session.status]}</td>
+                <td className="py-3 px-4 text-gray-700 text-sm">{session.notes}</td>
+                {canManage && (
+                  <td className="py-3 px-4 whitespace-nowrap">
+                    {scheduled && hasStarted(session, now) && (
+                      <>
+                        <button onClick={() => updateStatus(session, 'COMPLETED')} disabled={updatingId === session.sessionId}
+                                className="bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white text-sm py-1 px-3 rounded-md mr-2">Completed</button>
+                        <button onClick={() => updateStatus(session, 'NO_SHOW')} disabled={updatingId === session.sessionId}
+                                className="bg-yellow-500 hover:bg-yellow-600 disabled:opacity-50 text-white text-sm py-1 px-3 rounded-md mr-2">No-show</button>
+                      </>
+                    )}
+                    {scheduled && (
+                      <button onClick={() => updateStatus(session, 'CANCELLED')} disabled={updatingId === session.sessionId}
+                              className="bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white text-sm py-1 px-3 rounded-md">Cancel</button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SessionTable;
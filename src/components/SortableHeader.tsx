@@ -0,0 +1,27 @@
+// src/components/SortableHeader.tsx
+import React from 'react';
+import type { SortDirection } from '../api';
+
+interface SortableHeaderProps {
+  label: string;
+  field: string;
+  sortBy: string;
+  sortDir: SortDirection;
+  onSort: (field: string) => void;
+}
+
+// Table header cell that toggles sorting on click
+const SortableHeader: React.FC<SortableHeaderProps> = ({ label, field, sortBy, sortDir, onSort }) => {
+  const active = sortBy === field;
+  return (
+    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold"
+        aria-sort={active ? (sortDir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      <button onClick={() => onSort(field)} className="flex items-center gap-1 hover:text-gray-900">
+        {label}
+        <span className="text-xs">{active ? (sortDir === 'asc' ? '▲' : '▼') : '↕'}</span>
+      </button>
+    </th>
+  );
+};
+
+export default SortableHeader;
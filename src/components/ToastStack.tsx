@@ -0,0 +1,33 @@
+// src/components/ToastStack.tsx
+import React from 'react';
+import { useNotifications } from '../hooks/useNotifications';
+import { MAX_VISIBLE_TOASTS, NOTIFICATION_LABELS, NOTIFICATION_STYLES } from '../utils/notifications';
+
+// Newest toasts in the bottom-right corner; older ones stay in the notification history
+const ToastStack: React.FC = () => {
+  const { toasts, dismissToast } = useNotifications();
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-96 max-w-full space-y-2" role="status" aria-live="polite">
+      {toasts.slice(0, MAX_VISIBLE_TOASTS).map(toast => (
+        <div key={toast.id} className={`border-l-4 rounded-md shadow-lg p-3 flex items-start gap-2 ${NOTIFICATION_STYLES[toast.type]}`}>
+          <div className="flex-grow text-sm">
+            <p className="font-semibold">
+              {NOTIFICATION_LABELS[toast.type]}{toast.count > 1 && ` (${toast.count})`}
+            </p>
+            <p>{toast.message}</p>
+            {toast.details.length > 0 && (
+              <ul className="list-disc list-inside mt-1">
+                {toast.details.map(detail => <li key={detail}>{detail}</li>)}
+              </ul>
+            )}
+          </div>
+          <button onClick={() => dismissToast(toast.id)} className="text-xl leading-none opacity-60 hover:opacity-100" aria-label="Dismiss">&times;</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastStack;
@@ -0,0 +1,124 @@
+// src/components/TrainerAvailabilityEditor.tsx
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import type { AvailabilityException, AvailabilityExceptionReason, AvailabilitySlot } from '../api';
+import { WEEKDAY_LABELS } from '../utils/peakHours';
+import { EXCEPTION_REASON_LABELS, parseAvailabilityText } from '../utils/trainerAvailability';
+
+interface TrainerAvailabilityEditorProps {
+  slots: AvailabilitySlot[];
+  exceptions: AvailabilityException[];
+  legacyText: string; // Free-text availability, offered for conversion while there are no slots
+  onSlotsChange: (slots: AvailabilitySlot[]) => void;
+  onExceptionsChange: (exceptions: AvailabilityException[]) => void;
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md shadow-sm p-2';
+
+// Weekly shifts plus date ranges when the trainer is away, inside the trainer form
+const TrainerAvailabilityEditor: React.FC<TrainerAvailabilityEditorProps> = ({
+  slots, exceptions, legacyText, onSlotsChange, onExceptionsChange,
+}) => {
+  const [convertMessage, setConvertMessage] = useState<string | null>(null);
+
+  const updateSlot = (index: number, changes: Partial<AvailabilitySlot>) =>
+    onSlotsChange(slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+
+  const updateException = (index: number, changes: Partial<AvailabilityException>) =>
+    onExceptionsChange(exceptions.map((exception, i) => (i === index ? { ...exception, ...changes } : exception)));
+
+  // Repeat the last slot's hours on the next day, which is how most rotas are entered
+  const addSlot = () => {
+    const last = slots[slots.length - 1];
+    onSlotsChange([...slots, last ? { ...last, weekday: (last.weekday + 1) % 7 } : { weekday: 0, start: '09:00', end: '17:00' }]);
+  };
+
+  const addException = () => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    onExceptionsChange([...exceptions, { startDate: today, endDate: today, reason: 'leave', note: null }]);
+  };
+
+  const handleConvert = () => {
+    const parsed = parseAvailabilityText(legacyText);
+    setConvertMessage(parsed.length > 0
+      ? `Read ${parsed.length} slot(s) from the text. Check them before saving.`
+      : 'Could not read any days and times from the text. Add the slots by hand.');
+    if (parsed.length > 0) onSlotsChange(parsed);
+  };
+
+  return (
+    <div className="md:col-span-2 space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-800">Weekly Availability</h3>
+          <button type="button" onClick={addSlot}
+                  className="bg-green-500 hover:bg-green-600 text-white text-sm py-1 px-3 rounded-md">Add Slot</button>
+        </div>
+        {slots.length === 0 && legacyText.trim() && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-2 text-sm text-yellow-800">
+            <p>Not converted yet: "{legacyText}". It can't be searched until it is entered as weekly slots.</p>
+            <button type="button" onClick={handleConvert}
+                    className="mt-2 bg-yellow-500 hover:bg-yellow-600 text-white text-sm py-1 px-3 rounded-md">Convert from Text</button>
+          </div>
+        )}
+        {convertMessage && <p className="text-sm text-gray-600 mb-2">{convertMessage}</p>}
+        {slots.length === 0 ? (
+          <p className="text-sm text-gray-500">No weekly slots.</p>
+        ) : (
+          <div className="space-y-2">
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select value={slot.weekday} onChange={(e) => updateSlot(index, { weekday: Number(e.target.value) })}
+                        aria-label="Day" className={`${inputClass} bg-white max-w-[8rem]`}>
+                  {WEEKDAY_LABELS.map((label, weekday) => <option key={label} value={weekday}>{label}</option>)}
+                </select>
+                <input type="time" value={slot.start} onChange={(e) => updateSlot(index, { start: e.target.value })} required
+                       aria-label="Start time" className={inputClass} />
+                <span className="text-gray-500">to</span>
+                <input type="time" value={slot.end} onChange={(e) => updateSlot(index, { end: e.target.value })} required
+                       aria-label="End time" className={inputClass} />
+                <button type="button" onClick={() => onSlotsChange(slots.filter((_slot, i) => i !== index))}
+                        className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Remove</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-800">Time Off</h3>
+          <button type="button" onClick={addException}
+                  className="bg-green-500 hover:bg-green-600 text-white text-sm py-1 px-3 rounded-md">Add Time Off</button>
+        </div>
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-gray-500">No leave or holidays recorded.</p>
+        ) : (
+          <div className="space-y-2">
+            {exceptions.map((exception, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-center">
+                <input type="date" value={exception.startDate} onChange={(e) => updateException(index, { startDate: e.target.value })} required
+                       aria-label="First day away" className={inputClass} />
+                <input type="date" value={exception.endDate} min={exception.startDate} required
+                       onChange={(e) => updateException(index, { endDate: e.target.value })}
+                       aria-label="Last day away" className={inputClass} />
+                <select value={exception.reason} aria-label="Reason" className={`${inputClass} bg-white`}
+                        onChange={(e) => updateException(index, { reason: e.target.value as AvailabilityExceptionReason })}>
+                  {(Object.keys(EXCEPTION_REASON_LABELS) as AvailabilityExceptionReason[]).map(reason => (
+                    <option key={reason} value={reason}>{EXCEPTION_REASON_LABELS[reason]}</option>
+                  ))}
+                </select>
+                <input type="text" value={exception.note ?? ''} placeholder="Note (optional)" aria-label="Note"
+                       onChange={(e) => updateException(index, { note: e.target.value || null })} className={inputClass} />
+                <button type="button" onClick={() => onExceptionsChange(exceptions.filter((_exception, i) => i !== index))}
+                        className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md justify-self-start">Remove</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrainerAvailabilityEditor;
@@ -0,0 +1,84 @@
+// src/components/TrainerScheduleCalendar.tsx
+import React, { useState } from 'react';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import type { Trainer } from '../api';
+import { EXCEPTION_REASON_LABELS, exceptionOn, hasWeeklySlots, shiftsOn } from '../utils/trainerAvailability';
+
+interface TrainerScheduleCalendarProps {
+  trainers: Trainer[];
+}
+
+const weekStartOf = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+// One row per trainer, one column per day of the chosen week
+const TrainerScheduleCalendar: React.FC<TrainerScheduleCalendarProps> = ({ trainers }) => {
+  const [weekStart, setWeekStart] = useState<Date>(() => weekStartOf(new Date()));
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <p className="text-gray-700 font-semibold">
+          Week of {format(weekStart, 'dd MMM yyyy')}
+        </p>
+        <div className="flex gap-2">
+          <button onClick={() => setWeekStart(addWeeks(weekStart, -1))}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-1 px-3 rounded-md">Previous</button>
+          <button onClick={() => setWeekStart(weekStartOf(new Date()))}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-1 px-3 rounded-md">This Week</button>
+          <button onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-1 px-3 rounded-md">Next</button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white border border-gray-200 text-sm">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="py-2 px-3 border-b text-left text-gray-600 font-semibold">Trainer</th>
+              {days.map(day => (
+                <th key={day.toISOString()}
+                    className={`py-2 px-3 border-b text-left font-semibold ${format(day, 'yyyy-MM-dd') === today ? 'text-blue-700 bg-blue-50' : 'text-gray-600'}`}>
+                  {format(day, 'EEE dd MMM')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {trainers.map(trainer => (
+              <tr key={trainer.trainerId} className="border-b align-top">
+                <td className="py-2 px-3 text-gray-800 font-medium whitespace-nowrap">{trainer.name}</td>
+                {hasWeeklySlots(trainer) ? days.map(day => {
+                  const date = format(day, 'yyyy-MM-dd');
+                  const exception = exceptionOn(trainer, date);
+                  const shifts = shiftsOn(trainer, day);
+                  return (
+                    <td key={date} className={`py-2 px-3 ${date === today ? 'bg-blue-50' : ''}`}>
+                      {exception ? (
+                        <span className="inline-block rounded-md bg-orange-100 text-orange-800 px-2 py-0.5" title={exception.note ?? undefined}>
+                          {EXCEPTION_REASON_LABELS[exception.reason]}
+                        </span>
+                      ) : shifts.length === 0 ? (
+                        <span className="text-gray-400">Off</span>
+                      ) : shifts.map(shift => (
+                        <span key={shift.start} className="block rounded-md bg-green-100 text-green-800 px-2 py-0.5 mb-1 whitespace-nowrap">
+                          {shift.start}-{shift.end}
+                        </span>
+                      ))}
+                    </td>
+                  );
+                }) : (
+                  <td colSpan={days.length} className="py-2 px-3 text-gray-500 italic">
+                    {trainer.availability ? `Not converted: ${trainer.availability}` : 'No availability entered'}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TrainerScheduleCalendar;
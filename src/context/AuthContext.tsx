@@ -1,48 +1,134 @@
 // src/context/AuthContext.tsx
-import React, { createContext, useState, useContext, useEffect, type ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback, type ReactNode } from 'react';
+import { setUnauthorizedHandler } from '../api/axiosConfig';
+import { decodeJwtPayload, getTokenExpiry, isTokenExpired } from '../utils/jwt';
+import { DEFAULT_ROLES, extractRolesFromClaims, hasAnyRole, normalizeRoles, type Role } from '../utils/roles';
+
+export type LogoutReason = 'expired' | null;
+
+interface AuthUser {
+  username: string;
+  roles: Role[];
+}
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  user: { username: string } | null;
-  login: (token: string, username: string) => void;
+  user: AuthUser | null;
+  login: (token: string, username: string, roles?: Role[]) => void;
   logout: () => void;
+  hasRole: (allowed: readonly Role[]) => boolean;
   loading: boolean;
+  sessionExpiresAt: number | null; // ms since epoch, null if the token has no exp claim
+  sessionExpiring: boolean; // True once we are inside the warning window before auto-logout
+  logoutReason: LogoutReason; // Why the last session ended, shown on the login page
 }
 
+const SESSION_WARNING_MS = 2 * 60 * 1000; // Warn this long before the token expires
+const SESSION_LOGOUT_LEAD_MS = 30 * 1000; // Log out this long before expiry so no request fails mid-flight
+const MAX_TIMEOUT_MS = 2 ** 31 - 1; // setTimeout overflows beyond ~24.8 days
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Token claims win over what the login response (or a previous session) reported
+const resolveRoles = (token: string, fallback: Role[] | undefined): Role[] => {
+  const fromClaims = extractRolesFromClaims(decodeJwtPayload(token));
+  if (fromClaims.length > 0) return fromClaims;
+  return fallback && fallback.length > 0 ? fallback : DEFAULT_ROLES;
+};
+
+const readStoredRoles = (): Role[] => {
+  try {
+    return normalizeRoles(JSON.parse(localStorage.getItem('roles') || '[]'));
+  } catch {
+    return [];
+  }
+};
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-  const [user, setUser] = useState<{ username: string } | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [sessionExpiring, setSessionExpiring] = useState<boolean>(false);
+  const [logoutReason, setLogoutReason] = useState<LogoutReason>(null);
+
+  const endSession = useCallback((reason: LogoutReason) => {
+    localStorage.removeItem('jwtToken');
+    localStorage.removeItem('username');
+    localStorage.removeItem('roles');
+    setIsAuthenticated(false);
+    setUser(null);
+    setSessionExpiresAt(null);
+    setSessionExpiring(false);
+    setLogoutReason(reason);
+  }, []);
 
   useEffect(() => {
     const storedToken = localStorage.getItem('jwtToken');
     const storedUsername = localStorage.getItem('username');
 
     if (storedToken && storedUsername) {
-      setIsAuthenticated(true);
-      setUser({ username: storedUsername });
+      if (isTokenExpired(storedToken)) {
+        endSession('expired');
+      } else {
+        setIsAuthenticated(true);
+        setUser({ username: storedUsername, roles: resolveRoles(storedToken, readStoredRoles()) });
+        setSessionExpiresAt(getTokenExpiry(storedToken));
+      }
     }
     setLoading(false);
-  }, []);
+  }, [endSession]);
+
+  // A 401 means our token is no longer accepted. A 403 with a still-valid token is a
+  // role restriction on that endpoint, so the session is kept.
+  useEffect(() => {
+    setUnauthorizedHandler((status) => {
+      const token = localStorage.getItem('jwtToken');
+      if (status === 401 || !token || isTokenExpired(token)) {
+        endSession('expired');
+      }
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [endSession]);
+
+  // Schedule the expiry warning and automatic logout
+  useEffect(() => {
+    if (sessionExpiresAt === null) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const schedule = (delay: number, callback: () => void) => {
+      if (delay <= 0) {
+        callback();
+      } else if (delay < MAX_TIMEOUT_MS) {
+        timers.push(setTimeout(callback, delay));
+      }
+    };
+
+    const now = Date.now();
+    schedule(sessionExpiresAt - SESSION_WARNING_MS - now, () => setSessionExpiring(true));
+    schedule(sessionExpiresAt - SESSION_LOGOUT_LEAD_MS - now, () => endSession('expired'));
+
+    return () => timers.forEach(clearTimeout);
+  }, [sessionExpiresAt, endSession]);
 
-  const login = (token: string, username: string) => {
+  const login = (token: string, username: string, roles?: Role[]) => {
+    const resolvedRoles = resolveRoles(token, roles);
     localStorage.setItem('jwtToken', token);
     localStorage.setItem('username', username);
+    localStorage.setItem('roles', JSON.stringify(resolvedRoles));
     setIsAuthenticated(true);
-    setUser({ username });
+    setUser({ username, roles: resolvedRoles });
+    setSessionExpiresAt(getTokenExpiry(token));
+    setSessionExpiring(false);
+    setLogoutReason(null);
   };
 
-  const logout = () => {
-    localStorage.removeItem('jwtToken');
-    localStorage.removeItem('username');
-    setIsAuthenticated(false);
-    setUser(null);
-  };
+  const logout = () => endSession(null);
+
+  const hasRole = (allowed: readonly Role[]) => user !== null && hasAnyRole(user.roles, allowed);
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, login, logout, loading }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, login, logout, hasRole, loading, sessionExpiresAt, sessionExpiring, logoutReason }}>
       {children}
     </AuthContext.Provider>
   );
@@ -54,4 +140,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,69 @@
+// src/context/NotificationProvider.tsx
+import React, { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { setApiErrorListener } from '../api/errors';
+import { HISTORY_LIMIT, TOAST_DURATION_MS, type AppNotification, type NotificationType } from '../utils/notifications';
+import { NotificationContext } from './notificationContext';
+import { useAuth } from './AuthContext';
+
+const sameToast = (notification: AppNotification, type: NotificationType, message: string) =>
+  notification.showing && notification.type === type && notification.message === message;
+
+// Toasts plus a history of everything shown this session. Failed API calls are added automatically.
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const nextId = useRef(1);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>()); // Keyed by type and message
+
+  const notify = useCallback((type: NotificationType, message: string, details: string[] = []) => {
+    const id = nextId.current++;
+    const now = Date.now();
+    // The same message while it's still on screen (e.g. several requests failing together) bumps a counter instead
+    setNotifications(current => (current.some(n => sameToast(n, type, message))
+      ? current.map(n => (sameToast(n, type, message) ? { ...n, details, createdAt: now, count: n.count + 1, read: false } : n))
+      : [{ id, type, message, details, createdAt: now, count: 1, read: false, showing: true }, ...current].slice(0, HISTORY_LIMIT)));
+
+    const key = `${type}:${message}`;
+    clearTimeout(timers.current.get(key));
+    timers.current.set(key, setTimeout(() => {
+      timers.current.delete(key);
+      setNotifications(current => current.map(n => (sameToast(n, type, message) ? { ...n, showing: false } : n)));
+    }, TOAST_DURATION_MS[type]));
+  }, []);
+
+  const dismissToast = useCallback((id: number) =>
+    setNotifications(current => current.map(n => (n.id === id ? { ...n, showing: false } : n))), []);
+
+  const markAllRead = useCallback(() =>
+    setNotifications(current => (current.some(n => !n.read) ? current.map(n => ({ ...n, read: true })) : current)), []);
+
+  const clearHistory = useCallback(() => {
+    timers.current.forEach(clearTimeout);
+    timers.current.clear();
+    setNotifications([]);
+  }, []);
+
+  useEffect(() => {
+    setApiErrorListener(error => notify('error', error.message, error.details));
+    return () => setApiErrorListener(null);
+  }, [notify]);
+
+  // The history can name members, so it doesn't outlive the session
+  useEffect(() => {
+    if (!user) clearHistory();
+  }, [user, clearHistory]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  const toasts = notifications.filter(n => n.showing);
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  return (
+    <NotificationContext.Provider value={{ notifications, toasts, unreadCount, notify, dismissToast, markAllRead, clearHistory }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
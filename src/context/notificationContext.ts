@@ -0,0 +1,15 @@
+// src/context/notificationContext.ts
+import { createContext } from 'react';
+import type { AppNotification, NotificationType } from '../utils/notifications';
+
+export interface NotificationContextType {
+  notifications: AppNotification[]; // History, newest first
+  toasts: AppNotification[]; // The ones still on screen, newest first
+  unreadCount: number;
+  notify: (type: NotificationType, message: string, details?: string[]) => void;
+  dismissToast: (id: number) => void;
+  markAllRead: () => void;
+  clearHistory: () => void;
+}
+
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
@@ -0,0 +1,102 @@
+// src/hooks/useCheckInQueue.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAxiosError } from 'axios';
+import { ApiValidationError, attendanceApi } from '../api';
+import {
+  claimReplayLease, createQueueId, enqueueCheckIn, isNetworkError, isQueueStorageEvent, loadQueuedCheckIns,
+  releaseReplayLease, removeQueuedCheckIn,
+  type CheckInReplayResult, type QueuedCheckIn,
+} from '../utils/checkInQueue';
+
+// Status codes worth retrying later; anything else means the server rejected the check-in itself
+const isRetryable = (err: unknown) => {
+  if (isNetworkError(err)) return true;
+  const status = isAxiosError(err) ? err.response?.status ?? 0 : 0;
+  return status === 401 || status === 403 || status >= 500;
+};
+
+// Queues check-ins while offline and replays them, oldest first, once the connection returns
+export const useCheckInQueue = (enabled: boolean, onSynced?: () => void) => {
+  const [queue, setQueue] = useState<QueuedCheckIn[]>(loadQueuedCheckIns);
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const [results, setResults] = useState<CheckInReplayResult[]>([]);
+  const syncingRef = useRef(false); // Guards against overlapping replays from repeated online events
+  const [tabId] = useState(createQueueId); // Owner of the cross-tab replay lease
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const enqueue = useCallback((userId: string, memberName?: string) => {
+    const item = enqueueCheckIn(userId, memberName);
+    setQueue(loadQueuedCheckIns());
+    return item;
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    if (!claimReplayLease(tabId)) return; // Another tab is already sending the shared queue
+    syncingRef.current = true;
+    setSyncing(true);
+
+    const replayed: CheckInReplayResult[] = [];
+    try {
+      for (const item of loadQueuedCheckIns()) {
+        if (!claimReplayLease(tabId)) break; // Lease lost, e.g. this tab was suspended past its expiry
+        if (!loadQueuedCheckIns().some(queued => queued.id === item.id)) continue; // Already sent elsewhere
+        try {
+          // Outcomes are listed in the sync results instead of raising a notification each
+          const record = await attendanceApi.checkIn(item.userId, { checkInTime: item.checkInTime }, { silentErrors: true });
+          replayed.push({ item, outcome: 'synced', message: `Recorded for ${record.userName || item.memberName || item.userId}` });
+        } catch (err) {
+          // The server answered 2xx, so the check-in was recorded even though its reply couldn't be read
+          if (err instanceof ApiValidationError) {
+            console.error('Unreadable check-in response:', err);
+            replayed.push({ item, outcome: 'synced', message: `Recorded for ${item.memberName || item.userId}` });
+          } else {
+            if (isRetryable(err)) break; // Keep this and later items in order for the next attempt
+            const message = isAxiosError(err) && err.response?.data?.message
+              ? err.response.data.message
+              : 'Rejected by the server';
+            replayed.push({ item, outcome: 'conflict', message });
+          }
+        }
+        setQueue(removeQueuedCheckIn(item.id));
+      }
+    } finally {
+      releaseReplayLease(tabId);
+      syncingRef.current = false;
+      setSyncing(false);
+      if (replayed.length > 0) {
+        setResults(replayed);
+        onSyncedRef.current?.();
+      }
+    }
+  }, [tabId]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      if (enabled) replay();
+    };
+    const handleOffline = () => setOnline(false);
+    const handleStorage = (event: StorageEvent) => {
+      if (isQueueStorageEvent(event)) setQueue(loadQueuedCheckIns());
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('storage', handleStorage);
+    // Pick up anything left over from a previous session
+    if (enabled && navigator.onLine && loadQueuedCheckIns().length > 0) replay();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [enabled, replay]);
+
+  const clearResults = useCallback(() => setResults([]), []);
+
+  return { queue, online, syncing, results, enqueue, replay, clearResults };
+};
@@ -0,0 +1,11 @@
+// src/hooks/useNotifications.ts
+import { useContext } from 'react';
+import { NotificationContext } from '../context/notificationContext';
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
@@ -5,12 +5,15 @@ import App from './App.tsx';
 import './index.css';
 import { BrowserRouter as Router } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext.tsx';
+import { NotificationProvider } from './context/NotificationProvider.tsx';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <Router>
       <AuthProvider>
-        <App />
+        <NotificationProvider>
+          <App />
+        </NotificationProvider>
       </AuthProvider>
     </Router>
   </React.StrictMode>,
@@ -0,0 +1,34 @@
+// src/mock/index.ts
+// Mock mode is on when VITE_USE_MOCK_API=true, or when switched on in the browser with ?mock=on
+// (?mock=off switches back, ?mock=reset restores the seeded demo data).
+import { resetDb } from './mockDb';
+
+const STORAGE_KEY = 'useMockApi';
+
+const applyMockModeFromUrl = () => {
+  const url = new URL(window.location.href);
+  const mode = url.searchParams.get('mock');
+  if (mode === null) return;
+
+  if (mode === 'on' || mode === 'true') {
+    localStorage.setItem(STORAGE_KEY, 'true');
+  } else if (mode === 'off' || mode === 'false') {
+    localStorage.removeItem(STORAGE_KEY);
+  } else if (mode === 'reset') {
+    resetDb();
+  }
+  url.searchParams.delete('mock');
+  window.history.replaceState(window.history.state, '', url);
+};
+
+export const isMockApiEnabled = (): boolean => {
+  applyMockModeFromUrl();
+  return import.meta.env.VITE_USE_MOCK_API === 'true' || localStorage.getItem(STORAGE_KEY) === 'true';
+};
+
+export const resetMockData = () => {
+  resetDb();
+  window.location.reload();
+};
+
+export { mockAdapter } from './mockAdapter';
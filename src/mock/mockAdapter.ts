@@ -0,0 +1,911 @@
+// src/mock/mockAdapter.ts
+// Axios adapter that answers API requests from the in-browser mock database instead of the network.
+import { AxiosError, AxiosHeaders, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { addDays, addMonths, differenceInCalendarDays, format } from 'date-fns';
+import type {
+  ApiErrorResponse, AttendanceRecord, AvailabilityException, AvailabilityExceptionReason, AvailabilitySlot, ClassBooking,
+  DashboardSummary, ExpiringMembership, GroupClass, LoginResponse, MembershipPlan, PlanAssignment, Trainer,
+  TrainingSession, TrainingSessionStatus, User,
+} from '../api/types';
+import { filterUsers, paginate, sortItems } from '../api/paging';
+import { isPhoneNumber } from '../utils/formValidation';
+import { decodeJwtPayload, isTokenExpired, type JwtPayload } from '../utils/jwt';
+import { ACCESS, extractRolesFromClaims, hasAnyRole } from '../utils/roles';
+import {
+  loadDb, saveDb, type MockAssignment, type MockAttendance, type MockClass, type MockClassBooking, type MockDatabase,
+  type MockFreeze, type MockSession,
+} from './mockDb';
+
+const LATENCY_MS = 150; // Enough to show loading states without slowing demos down
+const TOKEN_LIFETIME_MS = 8 * 60 * 60 * 1000;
+const KIOSK_TOKEN_LIFETIME_MS = 24 * 60 * 60 * 1000; // A tablet at the entrance stays up all day
+const KIOSK_MAX_UNLOCK_ATTEMPTS = 5; // Wrong exit PINs before unlocking is locked out
+const KIOSK_UNLOCK_LOCKOUT_MS = 60 * 1000;
+
+// Thrown by handlers to produce an HTTP error response
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly fieldErrors?: Record<string, string>;
+
+  constructor(status: number, message: string, fieldErrors?: Record<string, string>) {
+    super(message);
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+interface MockRequest {
+  params: Record<string, string>; // Path parameters, e.g. :userId
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  claims: JwtPayload | null; // Caller's token payload; null on public routes called without one
+  db: MockDatabase;
+}
+
+type MockHandler = (request: MockRequest) => unknown;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+  public?: boolean; // Reachable without a token
+  kiosk?: boolean; // Also reachable with a kiosk session, which is refused everywhere else
+}
+
+interface RouteOptions {
+  public?: boolean;
+  kiosk?: boolean;
+}
+
+const routes: MockRoute[] = [];
+
+const route = (method: string, path: string, handler: MockHandler, options: RouteOptions = {}) => {
+  const paramNames: string[] = [];
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_match, name) => {
+    paramNames.push(name);
+    return '([^/]+)';
+  })}$`);
+  routes.push({ method, pattern, paramNames, handler, ...options });
+};
+
+// --- Helpers ---
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const parseDay = (date: string) => new Date(`${date}T00:00:00`);
+
+const shiftDate = (date: string, days: number) => format(addDays(parseDay(date), days), 'yyyy-MM-dd');
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Unsigned token with the same claims a real backend would issue
+const createMockToken = (username: string, role: string, extraClaims: object = {}, lifetimeMs = TOKEN_LIFETIME_MS) => {
+  const now = Date.now();
+  return [
+    base64Url({ alg: 'none', typ: 'JWT' }),
+    base64Url({ sub: username, roles: [role], iat: Math.floor(now / 1000), exp: Math.floor((now + lifetimeMs) / 1000), ...extraClaims }),
+    'mock-signature',
+  ].join('.');
+};
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new MockHttpError(400, `${field} is required`);
+  }
+  return value;
+};
+
+const requireNumber = (body: Record<string, unknown>, field: string): number => {
+  const value = body[field];
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new MockHttpError(400, `${field} must be a number`);
+  }
+  return value;
+};
+
+const requireExitPin = (body: Record<string, unknown>): string => {
+  const pin = requireString(body, 'exitPin');
+  if (!/^\d{4,8}$/.test(pin)) throw new MockHttpError(400, 'exitPin must be 4 to 8 digits');
+  return pin;
+};
+
+const findUser = (db: MockDatabase, userId: string): User => {
+  const user = db.users.find(u => u.userId === userId);
+  if (!user) throw new MockHttpError(404, `User not found with id: ${userId}`);
+  return user;
+};
+
+const requireDate = (body: Record<string, unknown>, field: string): string => {
+  const value = requireString(body, field);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(parseDay(value).getTime())) {
+    throw new MockHttpError(400, `${field} must be a YYYY-MM-DD date`);
+  }
+  return value;
+};
+
+const findPlan = (db: MockDatabase, planId: number): MembershipPlan => {
+  const plan = db.plans.find(p => p.planId === planId);
+  if (!plan) throw new MockHttpError(404, `Membership plan not found with id: ${planId}`);
+  return plan;
+};
+
+// Assignments that can still be changed; cancelled ones are kept read-only for history
+const findOpenAssignment = (db: MockDatabase, assignmentId: number): MockAssignment => {
+  const assignment = db.assignments.find(a => a.assignmentId === assignmentId);
+  if (!assignment) throw new MockHttpError(404, `Plan assignment not found with id: ${assignmentId}`);
+  if (assignment.cancelledOn) throw new MockHttpError(409, 'This plan assignment has been cancelled');
+  return assignment;
+};
+
+const planEndDate = (startDate: string, plan: MembershipPlan) =>
+  format(addMonths(parseDay(startDate), plan.durationMonths), 'yyyy-MM-dd');
+
+const freezeDays = (freeze: MockFreeze) =>
+  freeze.endDate ? differenceInCalendarDays(parseDay(freeze.endDate), parseDay(freeze.startDate)) + 1 : 0;
+
+// Cancelled assignments grant nothing; frozen ones still count as the member's plan
+const coversDate = (assignment: MockAssignment, date: string) =>
+  !assignment.cancelledOn && assignment.startDate <= date && assignment.endDate >= date;
+
+const isFrozenOn = (assignment: MockAssignment, date: string) =>
+  (assignment.freezes ?? []).some(f => f.startDate <= date && (!f.endDate || f.endDate >= date));
+
+const toAssignmentDto = (db: MockDatabase, assignment: MockAssignment): PlanAssignment => ({
+  assignmentId: assignment.assignmentId,
+  userId: assignment.userId,
+  planId: assignment.planId,
+  userName: db.users.find(u => u.userId === assignment.userId)?.name ?? 'Unknown',
+  planName: db.plans.find(p => p.planId === assignment.planId)?.planName ?? 'Unknown',
+  startDate: assignment.startDate,
+  endDate: assignment.endDate,
+  cancelledOn: assignment.cancelledOn ?? null,
+  freezes: (assignment.freezes ?? []).map(f => ({ startDate: f.startDate, endDate: f.endDate ?? null, reason: f.reason ?? null })),
+});
+
+const toAttendanceDto = (db: MockDatabase, record: MockAttendance): AttendanceRecord => ({
+  attendanceId: record.attendanceId,
+  userId: record.userId,
+  userName: db.users.find(u => u.userId === record.userId)?.name ?? 'Unknown',
+  checkInTime: record.checkInTime,
+  checkOutTime: record.checkOutTime ?? null,
+  overrideReason: record.overrideReason ?? null,
+});
+
+const toSessionDto = (db: MockDatabase, session: MockSession): TrainingSession => ({
+  sessionId: session.sessionId,
+  trainerId: session.trainerId,
+  trainerName: db.trainers.find(t => t.trainerId === session.trainerId)?.name ?? 'Unknown',
+  userId: session.userId,
+  userName: db.users.find(u => u.userId === session.userId)?.name ?? 'Unknown',
+  startTime: session.startTime,
+  endTime: session.endTime,
+  status: session.status,
+  notes: session.notes ?? null,
+});
+
+const requireDateTime = (body: Record<string, unknown>, field: string): string => {
+  const value = new Date(requireString(body, field));
+  if (Number.isNaN(value.getTime())) throw new MockHttpError(400, `${field} must be an ISO date-time`);
+  return value.toISOString();
+};
+
+// Mirrors the backend: a member is Active while any assignment covers today
+const refreshMembershipStatus = (db: MockDatabase, userId: string) => {
+  const user = db.users.find(u => u.userId === userId);
+  if (!user) return;
+  const own = db.assignments.filter(a => a.userId === userId);
+  const date = today();
+  if (own.some(a => coversDate(a, date))) {
+    user.membershipStatus = 'Active';
+  } else if (own.length > 0) {
+    user.membershipStatus = 'Expired';
+  }
+};
+
+// Reads every field before failing, so a rejected form gets an error for each bad input (like bean validation)
+const readFields = <T>(readers: { [K in keyof T]: () => T[K] }): T => {
+  const result = {} as T;
+  const fieldErrors: Record<string, string> = {};
+  for (const field of Object.keys(readers) as (keyof T & string)[]) {
+    try {
+      result[field] = readers[field]();
+    } catch (err) {
+      if (!(err instanceof MockHttpError) || err.status !== 400) throw err;
+      fieldErrors[field] = err.message;
+    }
+  }
+  if (Object.keys(fieldErrors).length > 0) throw new MockHttpError(400, 'Validation failed', fieldErrors);
+  return result;
+};
+
+const requireWholeNumber = (body: Record<string, unknown>, field: string, min: number, max: number): number => {
+  const value = requireNumber(body, field);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new MockHttpError(400, `${field} must be a whole number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const userFromBody = (body: Record<string, unknown>): Omit<User, 'userId'> => readFields<Omit<User, 'userId'>>({
+  name: () => requireString(body, 'name'),
+  age: () => requireWholeNumber(body, 'age', 1, 120),
+  gender: () => requireString(body, 'gender'),
+  contactNumber: () => {
+    const contactNumber = requireString(body, 'contactNumber');
+    if (!isPhoneNumber(contactNumber)) throw new MockHttpError(400, 'contactNumber is not a valid phone number');
+    return contactNumber;
+  },
+  membershipStatus: () => (typeof body.membershipStatus === 'string' ? body.membershipStatus : 'Inactive'),
+  joiningDate: () => {
+    const joiningDate = requireDate(body, 'joiningDate');
+    if (joiningDate > today()) throw new MockHttpError(400, 'joiningDate cannot be in the future');
+    return joiningDate;
+  },
+});
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EXCEPTION_REASONS: AvailabilityExceptionReason[] = ['leave', 'holiday', 'other'];
+
+const recordsFromBody = (body: Record<string, unknown>, field: string): Record<string, unknown>[] => {
+  const value = body[field] ?? [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'object' || item === null)) {
+    throw new MockHttpError(400, `${field} must be an array of objects`);
+  }
+  return value;
+};
+
+const slotsFromBody = (body: Record<string, unknown>): AvailabilitySlot[] =>
+  recordsFromBody(body, 'weeklySlots').map(item => {
+    const weekday = requireNumber(item, 'weekday');
+    const start = requireString(item, 'start');
+    const end = requireString(item, 'end');
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) throw new MockHttpError(400, 'weekday must be 0 (Monday) to 6');
+    if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) throw new MockHttpError(400, 'Slot times must be HH:mm');
+    if (end <= start) throw new MockHttpError(400, 'A slot must end after it starts');
+    return { weekday, start, end };
+  });
+
+const exceptionsFromBody = (body: Record<string, unknown>): AvailabilityException[] =>
+  recordsFromBody(body, 'exceptions').map(item => {
+    const startDate = requireDate(item, 'startDate');
+    const endDate = requireDate(item, 'endDate');
+    const reason = item.reason as AvailabilityExceptionReason;
+    if (endDate < startDate) throw new MockHttpError(400, 'An exception cannot end before it starts');
+    if (!EXCEPTION_REASONS.includes(reason)) throw new MockHttpError(400, `reason must be one of ${EXCEPTION_REASONS.join(', ')}`);
+    return { startDate, endDate, reason, note: typeof item.note === 'string' && item.note.trim() ? item.note.trim() : null };
+  });
+
+const trainerFromBody = (body: Record<string, unknown>): Omit<Trainer, 'trainerId'> => readFields<Omit<Trainer, 'trainerId'>>({
+  name: () => requireString(body, 'name'),
+  experience: () => requireWholeNumber(body, 'experience', 0, 60),
+  specialization: () => (typeof body.specialization === 'string' ? body.specialization : ''),
+  availability: () => (typeof body.availability === 'string' ? body.availability : ''),
+  weeklySlots: () => slotsFromBody(body),
+  exceptions: () => exceptionsFromBody(body),
+});
+
+const planFromBody = (body: Record<string, unknown>): Omit<MembershipPlan, 'planId'> => readFields<Omit<MembershipPlan, 'planId'>>({
+  planName: () => requireString(body, 'planName'),
+  price: () => {
+    const price = requireNumber(body, 'price');
+    if (price <= 0) throw new MockHttpError(400, 'price must be greater than 0');
+    return price;
+  },
+  durationMonths: () => requireWholeNumber(body, 'durationMonths', 1, 120),
+  featuresList: () => (typeof body.featuresList === 'string' ? body.featuresList : ''),
+});
+
+// --- Auth ---
+
+route('POST', '/auth/login', ({ body, db }): LoginResponse => {
+  const account = db.staff.find(s => s.username === body.username && s.password === body.password);
+  if (!account) throw new MockHttpError(401, 'Invalid username or password');
+  return {
+    token: createMockToken(account.username, account.role),
+    username: account.username,
+    message: 'Login successful',
+    role: account.role,
+  };
+}, { public: true });
+
+route('POST', '/auth/kiosk', ({ body, claims, db }): LoginResponse => {
+  if (!hasAnyRole(extractRolesFromClaims(claims), ACCESS.launchKiosk)) {
+    throw new MockHttpError(403, 'Only front desk staff and managers can start kiosk mode');
+  }
+  const session = {
+    sessionId: crypto.randomUUID(),
+    exitPin: requireExitPin(body),
+    startedBy: String(claims?.sub ?? 'unknown'),
+    startedAt: new Date().toISOString(),
+  };
+  db.kioskSessions.push(session);
+  return {
+    token: createMockToken('kiosk', 'KIOSK', { sid: session.sessionId }, KIOSK_TOKEN_LIFETIME_MS),
+    username: 'kiosk',
+    message: 'Kiosk session started',
+    role: 'KIOSK',
+  };
+});
+
+route('POST', '/auth/kiosk/unlock', ({ body, claims, db }) => {
+  const session = db.kioskSessions.find(k => k.sessionId === claims?.sid);
+  if (!session) throw new MockHttpError(403, 'Not a kiosk session');
+  if (session.unlockLockedUntil && session.unlockLockedUntil > new Date().toISOString()) {
+    throw new MockHttpError(429, 'Too many incorrect PINs. Try again in a minute.');
+  }
+  if (session.exitPin !== requireString(body, 'exitPin')) {
+    session.failedUnlocks = (session.failedUnlocks ?? 0) + 1;
+    const lockedOut = session.failedUnlocks >= KIOSK_MAX_UNLOCK_ATTEMPTS;
+    if (lockedOut) {
+      session.failedUnlocks = 0;
+      session.unlockLockedUntil = new Date(Date.now() + KIOSK_UNLOCK_LOCKOUT_MS).toISOString();
+    }
+    saveDb(db); // Errors don't save, and the attempt count must survive this one
+    throw lockedOut
+      ? new MockHttpError(429, 'Too many incorrect PINs. Try again in a minute.')
+      : new MockHttpError(403, 'Incorrect PIN');
+  }
+  db.kioskSessions = db.kioskSessions.filter(k => k !== session);
+  return null;
+}, { kiosk: true });
+
+// --- Users ---
+
+// Plain list without paging params (as the original backend does), a Spring-style Page with them
+route('GET', '/users', ({ query, db }) => {
+  if (query.page === undefined) return db.users;
+  const [sortBy, sortDir] = (query.sort ?? 'name,asc').split(',');
+  const field = (sortBy in (db.users[0] ?? {}) ? sortBy : 'name') as keyof User;
+  const filtered = filterUsers(db.users, query);
+  return paginate(sortItems(filtered, field, sortDir === 'desc' ? 'desc' : 'asc'), Number(query.page), Number(query.size ?? 20));
+});
+
+route('GET', '/users/:userId', ({ params, db }) => findUser(db, params.userId));
+
+route('POST', '/users', ({ body, db }) => {
+  const user: User = { userId: crypto.randomUUID(), ...userFromBody(body) };
+  db.users.push(user);
+  return user;
+});
+
+route('PUT', '/users/:userId', ({ params, body, db }) => {
+  const user = findUser(db, params.userId);
+  Object.assign(user, userFromBody(body));
+  return user;
+});
+
+route('DELETE', '/users/:userId', ({ params, db }) => {
+  findUser(db, params.userId);
+  db.users = db.users.filter(u => u.userId !== params.userId);
+  db.assignments = db.assignments.filter(a => a.userId !== params.userId);
+  db.attendance = db.attendance.filter(a => a.userId !== params.userId);
+  db.sessions = db.sessions.filter(s => s.userId !== params.userId);
+  db.classBookings = db.classBookings.filter(b => b.userId !== params.userId);
+  return null;
+});
+
+// --- Trainers ---
+
+route('GET', '/trainers', ({ db }) => db.trainers);
+
+route('POST', '/trainers', ({ body, db }) => {
+  const trainer: Trainer = { trainerId: db.nextIds.trainer++, ...trainerFromBody(body) };
+  db.trainers.push(trainer);
+  return trainer;
+});
+
+route('PUT', '/trainers/:trainerId', ({ params, body, db }) => {
+  const trainer = db.trainers.find(t => t.trainerId === Number(params.trainerId));
+  if (!trainer) throw new MockHttpError(404, `Trainer not found with id: ${params.trainerId}`);
+  Object.assign(trainer, trainerFromBody(body));
+  return trainer;
+});
+
+route('DELETE', '/trainers/:trainerId', ({ params, db }) => {
+  db.trainers = db.trainers.filter(t => t.trainerId !== Number(params.trainerId));
+  return null;
+});
+
+// --- Plans and assignments ---
+
+route('GET', '/plans', ({ db }) => db.plans);
+
+route('POST', '/plans', ({ body, db }) => {
+  const plan: MembershipPlan = { planId: db.nextIds.plan++, ...planFromBody(body) };
+  db.plans.push(plan);
+  return plan;
+});
+
+route('PUT', '/plans/:planId', ({ params, body, db }) => {
+  const plan = findPlan(db, Number(params.planId));
+  Object.assign(plan, planFromBody(body));
+  return plan;
+});
+
+route('DELETE', '/plans/:planId', ({ params, db }) => {
+  const planId = Number(params.planId);
+  findPlan(db, planId);
+  const affectedUsers = db.assignments.filter(a => a.planId === planId).map(a => a.userId);
+  db.plans = db.plans.filter(p => p.planId !== planId);
+  db.assignments = db.assignments.filter(a => a.planId !== planId);
+  affectedUsers.forEach(userId => refreshMembershipStatus(db, userId));
+  return null;
+});
+
+route('POST', '/plans/assign', ({ body, db }) => {
+  const user = findUser(db, requireString(body, 'userId'));
+  const plan = findPlan(db, requireNumber(body, 'planId'));
+  const startDate = requireString(body, 'startDate');
+  const assignment: MockAssignment = {
+    assignmentId: db.nextIds.assignment++,
+    userId: user.userId,
+    planId: plan.planId,
+    startDate,
+    endDate: planEndDate(startDate, plan),
+  };
+  db.assignments.push(assignment);
+  refreshMembershipStatus(db, user.userId);
+  return toAssignmentDto(db, assignment);
+});
+
+route('GET', '/plans/assignments', ({ db }) => db.assignments.map(a => toAssignmentDto(db, a)));
+
+route('PUT', '/plans/assignments/:assignmentId', ({ params, body, db }) => {
+  const assignment = findOpenAssignment(db, Number(params.assignmentId));
+  const plan = findPlan(db, requireNumber(body, 'planId'));
+  const startDate = requireDate(body, 'startDate');
+  const freezes = assignment.freezes ?? [];
+  if (freezes.some(f => f.startDate < startDate)) {
+    throw new MockHttpError(400, 'The start date cannot be after a recorded freeze');
+  }
+  assignment.planId = plan.planId;
+  assignment.startDate = startDate;
+  assignment.endDate = shiftDate(planEndDate(startDate, plan), freezes.reduce((sum, f) => sum + freezeDays(f), 0));
+  refreshMembershipStatus(db, assignment.userId);
+  return toAssignmentDto(db, assignment);
+});
+
+route('POST', '/plans/assignments/:assignmentId/cancel', ({ params, db }) => {
+  const assignment = findOpenAssignment(db, Number(params.assignmentId));
+  const date = today();
+  assignment.cancelledOn = date;
+  // A running freeze stops at the cancellation; there is no end date left to extend
+  const open = assignment.freezes?.find(f => !f.endDate);
+  if (open) {
+    if (open.startDate < date) open.endDate = shiftDate(date, -1);
+    else assignment.freezes = assignment.freezes?.filter(f => f !== open);
+  }
+  refreshMembershipStatus(db, assignment.userId);
+  return toAssignmentDto(db, assignment);
+});
+
+route('POST', '/plans/assignments/:assignmentId/freeze', ({ params, body, db }) => {
+  const assignment = findOpenAssignment(db, Number(params.assignmentId));
+  const startDate = requireDate(body, 'startDate');
+  const endDate = body.endDate ? requireDate(body, 'endDate') : undefined;
+  if (startDate < assignment.startDate || startDate > assignment.endDate) {
+    throw new MockHttpError(400, 'The freeze must start within the membership period');
+  }
+  if (endDate && endDate < startDate) throw new MockHttpError(400, 'The freeze cannot end before it starts');
+  const freezes = assignment.freezes ?? [];
+  if (freezes.some(f => !f.endDate)) throw new MockHttpError(409, 'This membership is already frozen');
+  if (freezes.some(f => f.startDate <= (endDate ?? startDate) && (f.endDate ?? '') >= startDate)) {
+    throw new MockHttpError(409, 'The freeze overlaps an earlier freeze');
+  }
+  const freeze: MockFreeze = {
+    startDate,
+    endDate,
+    reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined,
+  };
+  assignment.freezes = [...freezes, freeze].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  if (endDate) assignment.endDate = shiftDate(assignment.endDate, freezeDays(freeze));
+  refreshMembershipStatus(db, assignment.userId);
+  return toAssignmentDto(db, assignment);
+});
+
+route('POST', '/plans/assignments/:assignmentId/resume', ({ params, body, db }) => {
+  const assignment = findOpenAssignment(db, Number(params.assignmentId));
+  const open = assignment.freezes?.find(f => !f.endDate);
+  if (!open) throw new MockHttpError(409, 'This membership is not frozen');
+  const resumeDate = requireDate(body, 'resumeDate');
+  if (resumeDate < open.startDate) throw new MockHttpError(400, 'The resume date cannot be before the freeze started');
+  if (resumeDate === open.startDate) {
+    assignment.freezes = assignment.freezes?.filter(f => f !== open); // Never took effect
+  } else {
+    open.endDate = shiftDate(resumeDate, -1);
+    assignment.endDate = shiftDate(assignment.endDate, freezeDays(open));
+  }
+  refreshMembershipStatus(db, assignment.userId);
+  return toAssignmentDto(db, assignment);
+});
+
+route('GET', '/plans/user/:userId/assignments', ({ params, db }) =>
+  db.assignments.filter(a => a.userId === params.userId).map(a => toAssignmentDto(db, a)));
+
+// --- Attendance ---
+
+route('GET', '/attendance/all', ({ db }) =>
+  [...db.attendance].reverse().map(record => toAttendanceDto(db, record)));
+
+route('POST', '/attendance/checkin', ({ body, claims, db }) => {
+  const user = findUser(db, requireString(body, 'userId'));
+  // Nobody at the kiosk can override, so members without a current plan are sent to the desk
+  if (extractRolesFromClaims(claims).includes('KIOSK')) {
+    const date = today();
+    const covered = db.assignments.some(a => a.userId === user.userId && coversDate(a, date) && !isFrozenOn(a, date));
+    if (!covered || user.membershipStatus === 'Inactive') {
+      throw new MockHttpError(403, 'No active membership. Please see the front desk.');
+    }
+  }
+  const requestedTime = typeof body.checkInTime === 'string' ? new Date(body.checkInTime) : new Date();
+  if (Number.isNaN(requestedTime.getTime())) throw new MockHttpError(400, 'checkInTime must be an ISO date-time');
+  const checkInTime = requestedTime.toISOString();
+  // A replayed offline check-in may already have reached the server before the connection dropped
+  if (db.attendance.some(a => a.userId === user.userId && a.checkInTime === checkInTime)) {
+    throw new MockHttpError(409, `Check-in already recorded for ${user.name} at ${checkInTime}`);
+  }
+  const record: MockAttendance = {
+    attendanceId: db.nextIds.attendance++,
+    userId: user.userId,
+    checkInTime,
+    overrideReason: typeof body.overrideReason === 'string' && body.overrideReason.trim() ? body.overrideReason.trim() : undefined,
+  };
+  db.attendance.push(record);
+  return toAttendanceDto(db, record);
+}, { kiosk: true });
+
+route('POST', '/attendance/:attendanceId/checkout', ({ params, db }) => {
+  const record = db.attendance.find(a => a.attendanceId === Number(params.attendanceId));
+  if (!record) throw new MockHttpError(404, `Attendance record not found with id: ${params.attendanceId}`);
+  if (record.checkOutTime) throw new MockHttpError(409, 'Member has already checked out');
+  record.checkOutTime = new Date().toISOString();
+  return toAttendanceDto(db, record);
+});
+
+// --- Personal training sessions ---
+
+const SESSION_STATUSES: TrainingSessionStatus[] = ['SCHEDULED', 'COMPLETED', 'NO_SHOW', 'CANCELLED'];
+
+route('GET', '/sessions', ({ query, db }) =>
+  db.sessions
+    .filter(s => (!query.trainerId || s.trainerId === Number(query.trainerId))
+      && (!query.userId || s.userId === query.userId)
+      && (!query.from || s.endTime > new Date(query.from).toISOString())
+      && (!query.to || s.startTime < new Date(query.to).toISOString())
+      && (!query.status || s.status === query.status))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map(s => toSessionDto(db, s)));
+
+route('POST', '/sessions', ({ body, db }) => {
+  const trainerId = requireNumber(body, 'trainerId');
+  const trainer = db.trainers.find(t => t.trainerId === trainerId);
+  if (!trainer) throw new MockHttpError(404, `Trainer not found with id: ${trainerId}`);
+  const user = findUser(db, requireString(body, 'userId'));
+  const startTime = requireDateTime(body, 'startTime');
+  const endTime = requireDateTime(body, 'endTime');
+  if (endTime <= startTime) throw new MockHttpError(400, 'A session must end after it starts');
+  // Cancelled sessions free the slot; anything else still occupies the trainer
+  const clash = db.sessions.find(s => s.trainerId === trainerId && s.status !== 'CANCELLED'
+    && s.startTime < endTime && s.endTime > startTime);
+  if (clash) {
+    const clashWith = db.users.find(u => u.userId === clash.userId)?.name ?? 'another member';
+    const time = (iso: string) => format(new Date(iso), 'HH:mm');
+    throw new MockHttpError(409,
+      `${trainer.name} is already booked with ${clashWith} from ${time(clash.startTime)} to ${time(clash.endTime)}`);
+  }
+  const session: MockSession = {
+    sessionId: db.nextIds.session++,
+    trainerId,
+    userId: user.userId,
+    startTime,
+    endTime,
+    status: 'SCHEDULED',
+    notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : undefined,
+  };
+  db.sessions.push(session);
+  return toSessionDto(db, session);
+});
+
+route('POST', '/sessions/:sessionId/status', ({ params, body, db }) => {
+  const session = db.sessions.find(s => s.sessionId === Number(params.sessionId));
+  if (!session) throw new MockHttpError(404, `Session not found with id: ${params.sessionId}`);
+  const status = body.status as TrainingSessionStatus;
+  if (!SESSION_STATUSES.includes(status) || status === 'SCHEDULED') {
+    throw new MockHttpError(400, 'status must be COMPLETED, NO_SHOW or CANCELLED');
+  }
+  if (session.status !== 'SCHEDULED') throw new MockHttpError(409, `This session is already ${session.status.toLowerCase()}`);
+  if (status !== 'CANCELLED' && new Date(session.startTime) > new Date()) {
+    throw new MockHttpError(409, 'A session cannot be completed or marked as a no-show before it starts');
+  }
+  session.status = status;
+  return toSessionDto(db, session);
+});
+
+// --- Group classes ---
+
+const classFromBody = (db: MockDatabase, body: Record<string, unknown>): Omit<MockClass, 'classId'> => {
+  const trainerId = requireNumber(body, 'trainerId');
+  if (!db.trainers.some(t => t.trainerId === trainerId)) throw new MockHttpError(404, `Trainer not found with id: ${trainerId}`);
+  const capacity = requireNumber(body, 'capacity');
+  if (!Number.isInteger(capacity) || capacity < 1) throw new MockHttpError(400, 'capacity must be a whole number of at least 1');
+  const weekdays = body.weekdays;
+  if (!Array.isArray(weekdays) || weekdays.length === 0
+    || weekdays.some(day => typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new MockHttpError(400, 'weekdays must list at least one day, 0 (Monday) to 6');
+  }
+  const startTime = requireString(body, 'startTime');
+  if (!TIME_PATTERN.test(startTime)) throw new MockHttpError(400, 'startTime must be HH:mm');
+  const durationMinutes = requireNumber(body, 'durationMinutes');
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 1) throw new MockHttpError(400, 'durationMinutes must be a whole number of minutes');
+  return {
+    name: requireString(body, 'name'),
+    trainerId,
+    room: requireString(body, 'room'),
+    capacity,
+    weekdays: [...new Set(weekdays as number[])].sort((a, b) => a - b),
+    startTime,
+    durationMinutes,
+  };
+};
+
+const findClass = (db: MockDatabase, classId: number): MockClass => {
+  const groupClass = db.classes.find(c => c.classId === classId);
+  if (!groupClass) throw new MockHttpError(404, `Class not found with id: ${classId}`);
+  return groupClass;
+};
+
+const toClassDto = (db: MockDatabase, groupClass: MockClass): GroupClass => ({
+  ...groupClass,
+  trainerName: db.trainers.find(t => t.trainerId === groupClass.trainerId)?.name ?? 'Unknown',
+});
+
+// Bookings for one occurrence of a class, in the order they were made
+const occurrenceBookings = (db: MockDatabase, classId: number, date: string) =>
+  db.classBookings
+    .filter(b => b.classId === classId && b.date === date)
+    .sort((a, b) => a.bookedAt.localeCompare(b.bookedAt));
+
+const toClassBookingDto = (db: MockDatabase, booking: MockClassBooking): ClassBooking => ({
+  bookingId: booking.bookingId,
+  classId: booking.classId,
+  className: db.classes.find(c => c.classId === booking.classId)?.name ?? 'Unknown',
+  date: booking.date,
+  userId: booking.userId,
+  userName: db.users.find(u => u.userId === booking.userId)?.name ?? 'Unknown',
+  status: booking.status,
+  waitlistPosition: booking.status === 'WAITLISTED'
+    ? occurrenceBookings(db, booking.classId, booking.date).filter(b => b.status === 'WAITLISTED').indexOf(booking) + 1
+    : null,
+  bookedAt: booking.bookedAt,
+  attendanceId: booking.attendanceId ?? null,
+});
+
+// Gives free places to waitlisted members, first come first served
+const promoteFromWaitlist = (db: MockDatabase, groupClass: MockClass, date: string) => {
+  const bookings = occurrenceBookings(db, groupClass.classId, date);
+  let taken = bookings.filter(b => b.status === 'BOOKED' || b.status === 'ATTENDED').length;
+  bookings.filter(b => b.status === 'WAITLISTED').forEach(booking => {
+    if (taken >= groupClass.capacity) return;
+    booking.status = 'BOOKED';
+    taken++;
+  });
+};
+
+route('GET', '/classes', ({ db }) => db.classes.map(c => toClassDto(db, c)));
+
+route('POST', '/classes', ({ body, db }) => {
+  const groupClass: MockClass = { classId: db.nextIds.groupClass++, ...classFromBody(db, body) };
+  db.classes.push(groupClass);
+  return toClassDto(db, groupClass);
+});
+
+route('PUT', '/classes/:classId', ({ params, body, db }) => {
+  const groupClass = findClass(db, Number(params.classId));
+  Object.assign(groupClass, classFromBody(db, body));
+  // A bigger room lets waitlisted members into upcoming occurrences
+  const date = today();
+  new Set(db.classBookings.filter(b => b.classId === groupClass.classId && b.date >= date).map(b => b.date))
+    .forEach(bookingDate => promoteFromWaitlist(db, groupClass, bookingDate));
+  return toClassDto(db, groupClass);
+});
+
+route('DELETE', '/classes/:classId', ({ params, db }) => {
+  const classId = Number(params.classId);
+  findClass(db, classId);
+  db.classes = db.classes.filter(c => c.classId !== classId);
+  db.classBookings = db.classBookings.filter(b => b.classId !== classId);
+  return null;
+});
+
+route('GET', '/classes/bookings', ({ query, db }) =>
+  db.classBookings
+    .filter(b => (!query.classId || b.classId === Number(query.classId))
+      && (!query.userId || b.userId === query.userId)
+      && (!query.from || b.date >= query.from)
+      && (!query.to || b.date <= query.to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.bookedAt.localeCompare(b.bookedAt))
+    .map(b => toClassBookingDto(db, b)));
+
+route('POST', '/classes/:classId/bookings', ({ params, body, db }) => {
+  const groupClass = findClass(db, Number(params.classId));
+  const user = findUser(db, requireString(body, 'userId'));
+  const date = requireDate(body, 'date');
+  if (date < today()) throw new MockHttpError(400, 'Cannot book a class that has already taken place');
+  if (!groupClass.weekdays.includes((parseDay(date).getDay() + 6) % 7)) {
+    throw new MockHttpError(400, `${groupClass.name} does not run on ${date}`);
+  }
+  const bookings = occurrenceBookings(db, groupClass.classId, date);
+  const existing = bookings.find(b => b.userId === user.userId && b.status !== 'CANCELLED');
+  if (existing) {
+    throw new MockHttpError(409, `${user.name} is already ${existing.status === 'WAITLISTED' ? 'on the waitlist' : 'booked'} for this class`);
+  }
+  const taken = bookings.filter(b => b.status === 'BOOKED' || b.status === 'ATTENDED').length;
+  const booking: MockClassBooking = {
+    bookingId: db.nextIds.classBooking++,
+    classId: groupClass.classId,
+    date,
+    userId: user.userId,
+    status: taken < groupClass.capacity ? 'BOOKED' : 'WAITLISTED',
+    bookedAt: new Date().toISOString(),
+  };
+  db.classBookings.push(booking);
+  return toClassBookingDto(db, booking);
+});
+
+const findClassBooking = (db: MockDatabase, bookingId: number): MockClassBooking => {
+  const booking = db.classBookings.find(b => b.bookingId === bookingId);
+  if (!booking) throw new MockHttpError(404, `Class booking not found with id: ${bookingId}`);
+  return booking;
+};
+
+route('POST', '/classes/bookings/:bookingId/cancel', ({ params, db }) => {
+  const booking = findClassBooking(db, Number(params.bookingId));
+  if (booking.status !== 'BOOKED' && booking.status !== 'WAITLISTED') {
+    throw new MockHttpError(409, `This booking is already ${booking.status.toLowerCase()}`);
+  }
+  const hadPlace = booking.status === 'BOOKED';
+  booking.status = 'CANCELLED';
+  const groupClass = db.classes.find(c => c.classId === booking.classId);
+  if (hadPlace && groupClass) promoteFromWaitlist(db, groupClass, booking.date);
+  return occurrenceBookings(db, booking.classId, booking.date).map(b => toClassBookingDto(db, b));
+});
+
+// Marking attendance is also the member's check-in for the day, unless they already have one
+route('POST', '/classes/bookings/:bookingId/attend', ({ params, db }) => {
+  const booking = findClassBooking(db, Number(params.bookingId));
+  if (booking.status === 'WAITLISTED') throw new MockHttpError(409, 'This member is still on the waitlist');
+  if (booking.status !== 'BOOKED') throw new MockHttpError(409, `This booking is already ${booking.status.toLowerCase()}`);
+  const date = today();
+  if (booking.date > date) throw new MockHttpError(409, 'Attendance can only be marked on or after the day of the class');
+  let record = db.attendance.find(a => a.userId === booking.userId && format(new Date(a.checkInTime), 'yyyy-MM-dd') === booking.date);
+  if (!record) {
+    const groupClass = db.classes.find(c => c.classId === booking.classId);
+    const checkInTime = booking.date === date || !groupClass ? new Date() : new Date(`${booking.date}T${groupClass.startTime}:00`);
+    record = { attendanceId: db.nextIds.attendance++, userId: booking.userId, checkInTime: checkInTime.toISOString() };
+    db.attendance.push(record);
+  }
+  booking.status = 'ATTENDED';
+  booking.attendanceId = record.attendanceId;
+  return toClassBookingDto(db, booking);
+});
+
+// --- Dashboard ---
+
+route('GET', '/dashboard/summary', ({ db }): DashboardSummary => ({
+  totalActiveMembers: db.users.filter(u => u.membershipStatus === 'Active').length,
+  totalTrainers: db.trainers.length,
+}));
+
+route('GET', '/dashboard/plan-distribution', ({ db }) => {
+  const date = today();
+  const distribution: Record<string, number> = {};
+  db.assignments
+    .filter(a => coversDate(a, date))
+    .forEach(a => {
+      const planName = db.plans.find(p => p.planId === a.planId)?.planName ?? 'Unknown';
+      distribution[planName] = (distribution[planName] ?? 0) + 1;
+    });
+  return distribution;
+});
+
+route('GET', '/dashboard/daily-attendance-chart', ({ query, db }) => {
+  const counts: Record<string, number> = {};
+  db.attendance.forEach(record => {
+    const date = format(new Date(record.checkInTime), 'yyyy-MM-dd');
+    if ((!query.startDate || date >= query.startDate) && (!query.endDate || date <= query.endDate)) {
+      counts[date] = (counts[date] ?? 0) + 1;
+    }
+  });
+  return counts;
+});
+
+route('GET', '/dashboard/expiring-memberships', ({ query, db }): ExpiringMembership[] => {
+  const from = today();
+  const until = format(addDays(new Date(), Number(query.days ?? 7)), 'yyyy-MM-dd');
+  return db.assignments
+    .filter(a => !a.cancelledOn && a.endDate >= from && a.endDate <= until)
+    .sort((a, b) => a.endDate.localeCompare(b.endDate))
+    .map(a => {
+      const dto = toAssignmentDto(db, a);
+      return { assignmentId: dto.assignmentId, userId: dto.userId, planId: dto.planId, userName: dto.userName, planName: dto.planName, endDate: dto.endDate };
+    });
+});
+
+// --- Adapter ---
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  return typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+};
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse => ({
+  data,
+  status,
+  statusText: status < 300 ? 'OK' : 'Error',
+  headers: new AxiosHeaders({ 'Content-Type': 'application/json' }),
+  config,
+  request: {},
+});
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+  // Behave like the real network when the browser is offline, so offline handling can be demoed
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return Promise.reject(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config));
+  }
+
+  const method = (config.method ?? 'get').toUpperCase();
+  const url = new URL(config.url ?? '', 'http://mock.local');
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+  const query: Record<string, string> = Object.fromEntries(url.searchParams);
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query[key] = String(value);
+  });
+
+  const fail = (status: number, message: string, fieldErrors?: Record<string, string>) => {
+    const body: ApiErrorResponse = fieldErrors ? { status, message, fieldErrors } : { status, message };
+    const response = respond(config, status, body);
+    return Promise.reject(new AxiosError(message, AxiosError.ERR_BAD_REQUEST, config, {}, response));
+  };
+
+  for (const candidate of routes) {
+    const match = candidate.method === method ? candidate.pattern.exec(path) : null;
+    if (!match) continue;
+
+    const token = String(config.headers?.Authorization ?? '').replace(/^Bearer /, '');
+    if (!candidate.public && (!token || isTokenExpired(token))) {
+      return fail(401, 'Full authentication is required to access this resource');
+    }
+    const claims = token ? decodeJwtPayload(token) : null;
+    if (!candidate.kiosk && extractRolesFromClaims(claims).includes('KIOSK')) {
+      return fail(403, 'Kiosk sessions can only check members in');
+    }
+
+    const params: Record<string, string> = {};
+    candidate.paramNames.forEach((name, index) => { params[name] = decodeURIComponent(match[index + 1]); });
+
+    const db = loadDb();
+    try {
+      const result = candidate.handler({ params, query, body: parseBody(config.data), claims, db });
+      saveDb(db);
+      // Return copies so callers can never mutate the stored data
+      return respond(config, method === 'POST' ? 201 : 200, structuredClone(result));
+    } catch (err) {
+      if (err instanceof MockHttpError) return fail(err.status, err.message, err.fieldErrors);
+      console.error('Mock backend handler failed:', err);
+      return fail(500, 'Internal server error');
+    }
+  }
+
+  return fail(404, `No mock handler for ${method} ${path}`);
+};
@@ -0,0 +1,128 @@
+// src/mock/mockDb.ts
+// Browser-persisted data store behind the mock backend.
+import type { ClassBookingStatus, GroupClass, MembershipPlan, Trainer, TrainingSessionStatus, User } from '../api/types';
+import type { Role } from '../utils/roles';
+import { createSeedData } from './seed';
+
+export interface MockStaffAccount {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+// Self-service check-in tablet; the token carries the session ID
+export interface MockKioskSession {
+  sessionId: string;
+  exitPin: string;
+  startedBy: string; // Staff username
+  startedAt: string; // ISO string
+  failedUnlocks?: number; // Wrong exit PINs since the last lockout
+  unlockLockedUntil?: string; // ISO string; unlock attempts are refused until then
+}
+
+// Assignments and attendance are stored normalised; names are joined in when building DTOs
+export interface MockFreeze {
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, last frozen day; absent while still frozen
+  reason?: string;
+}
+
+export interface MockAssignment {
+  assignmentId: number;
+  userId: string;
+  planId: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, including completed freezes
+  cancelledOn?: string; // YYYY-MM-DD
+  freezes?: MockFreeze[];
+}
+
+export interface MockAttendance {
+  attendanceId: number;
+  userId: string;
+  checkInTime: string; // ISO string
+  checkOutTime?: string; // ISO string
+  overrideReason?: string;
+}
+
+export interface MockSession {
+  sessionId: number;
+  trainerId: number;
+  userId: string;
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  status: TrainingSessionStatus;
+  notes?: string;
+}
+
+export type MockClass = Omit<GroupClass, 'trainerName'>;
+
+export interface MockClassBooking {
+  bookingId: number;
+  classId: number;
+  date: string; // YYYY-MM-DD
+  userId: string;
+  status: ClassBookingStatus;
+  bookedAt: string; // ISO string
+  attendanceId?: number;
+}
+
+export interface MockDatabase {
+  staff: MockStaffAccount[];
+  users: User[];
+  trainers: Trainer[];
+  plans: MembershipPlan[];
+  assignments: MockAssignment[];
+  attendance: MockAttendance[];
+  sessions: MockSession[];
+  classes: MockClass[];
+  classBookings: MockClassBooking[];
+  kioskSessions: MockKioskSession[];
+  nextIds: {
+    trainer: number;
+    plan: number;
+    assignment: number;
+    attendance: number;
+    session: number;
+    groupClass: number;
+    classBooking: number;
+  };
+}
+
+const STORAGE_KEY = 'gymMockDb:v1';
+
+let cached: MockDatabase | null = null;
+
+export const loadDb = (): MockDatabase => {
+  if (cached) return cached;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      cached = JSON.parse(stored) as MockDatabase;
+      cached.kioskSessions ??= []; // Saved before kiosk mode existed
+      cached.sessions ??= []; // Saved before PT sessions existed
+      cached.nextIds.session ??= cached.sessions.length + 1;
+      cached.classes ??= []; // Saved before group classes existed
+      cached.classBookings ??= [];
+      cached.nextIds.groupClass ??= cached.classes.length + 1;
+      cached.nextIds.classBooking ??= cached.classBookings.length + 1;
+      return cached;
+    } catch {
+      console.warn('Mock database in localStorage is corrupt; reseeding.');
+    }
+  }
+  cached = createSeedData();
+  saveDb(cached);
+  return cached;
+};
+
+export const saveDb = (db: MockDatabase) => {
+  cached = db;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+};
+
+// Discard all changes and start again from the seeded dataset
+export const resetDb = () => {
+  cached = null;
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,232 @@
+// src/mock/seed.ts
+// Realistic, deterministic demo dataset. Dates are generated relative to today so the
+// dashboard always has recent attendance and memberships that are about to expire.
+import { addDays, addMinutes, addMonths, format, subDays } from 'date-fns';
+import type { MembershipPlan, Trainer, User } from '../api/types';
+import type { MockAssignment, MockAttendance, MockClass, MockClassBooking, MockDatabase, MockSession } from './mockDb';
+
+const FIRST_NAMES = [
+  'Aarav', 'Priya', 'Rohan', 'Ananya', 'Vikram', 'Sneha', 'Arjun', 'Kavya', 'Rahul', 'Meera',
+  'James', 'Emily', 'Daniel', 'Sophia', 'Michael', 'Olivia', 'David', 'Emma', 'Lucas', 'Mia',
+  'Karthik', 'Divya', 'Sanjay', 'Lakshmi', 'Nikhil', 'Pooja', 'Aditya', 'Ishita', 'Varun', 'Neha',
+];
+
+const LAST_NAMES = [
+  'Sharma', 'Reddy', 'Patel', 'Iyer', 'Nair', 'Gupta', 'Rao', 'Menon', 'Singh', 'Kumar',
+  'Smith', 'Johnson', 'Brown', 'Wilson', 'Taylor', 'Anderson', 'Thomas', 'Moore', 'Martin', 'Clark',
+];
+
+const PLANS: MembershipPlan[] = [
+  { planId: 1, planName: 'Monthly Basic', price: 29.99, durationMonths: 1, featuresList: 'Gym floor access, Locker' },
+  { planId: 2, planName: 'Quarterly Standard', price: 79.99, durationMonths: 3, featuresList: 'Gym floor access, Locker, 1 PT session' },
+  { planId: 3, planName: 'Half-Yearly Plus', price: 149.99, durationMonths: 6, featuresList: 'Gym floor access, Locker, Group classes, 3 PT sessions' },
+  { planId: 4, planName: 'Annual Premium', price: 279.99, durationMonths: 12, featuresList: 'All access, Group classes, Monthly PT session, Sauna' },
+];
+
+// Weekly slots on the given weekdays (0 = Monday), all with the same hours
+const shifts = (weekdays: number[], start: string, end: string) => weekdays.map(weekday => ({ weekday, start, end }));
+
+// Jessica and Fatima still have free-text availability, as entered before weekly slots existed
+const TRAINERS: Trainer[] = [
+  { trainerId: 1, name: 'Ravi Shankar', experience: 8, specialization: 'Strength & Conditioning', availability: 'Mon-Fri 06:00-14:00',
+    weeklySlots: shifts([0, 1, 2, 3, 4], '06:00', '14:00') },
+  { trainerId: 2, name: 'Jessica Lee', experience: 5, specialization: 'Yoga & Mobility', availability: 'Mon, Wed, Fri 7am-12pm' },
+  { trainerId: 3, name: 'Marcus Hill', experience: 10, specialization: 'Bodybuilding', availability: 'Mon-Sat 14:00-22:00',
+    weeklySlots: shifts([0, 1, 2, 3, 4, 5], '14:00', '22:00') },
+  { trainerId: 4, name: 'Anjali Desai', experience: 4, specialization: 'HIIT & Weight Loss', availability: 'Tue, Thu, Sat 06:00-11:00',
+    weeklySlots: shifts([1, 3, 5], '06:00', '11:00') },
+  { trainerId: 5, name: 'Tom Becker', experience: 6, specialization: 'Spin & Cardio', availability: 'Mon-Fri 17:00-21:00; Sat 09:00-12:00',
+    weeklySlots: [...shifts([0, 1, 2, 3, 4], '17:00', '21:00'), ...shifts([5], '09:00', '12:00')] },
+  { trainerId: 6, name: 'Fatima Khan', experience: 3, specialization: 'Functional Training', availability: 'Weekends 8am-4pm' },
+];
+
+const CLASSES: MockClass[] = [
+  { classId: 1, name: 'Sunrise Yoga', trainerId: 2, room: 'Studio A', capacity: 12, weekdays: [0, 2, 4], startTime: '07:00', durationMinutes: 60 },
+  { classId: 2, name: 'HIIT Blast', trainerId: 4, room: 'Studio B', capacity: 15, weekdays: [1, 3], startTime: '06:30', durationMinutes: 45 },
+  { classId: 3, name: 'Spin Express', trainerId: 5, room: 'Spin Room', capacity: 8, weekdays: [0, 1, 2, 3, 4], startTime: '18:00', durationMinutes: 45 },
+  { classId: 4, name: 'Weekend Functional', trainerId: 6, room: 'Studio B', capacity: 10, weekdays: [5, 6], startTime: '09:00', durationMinutes: 60 },
+];
+
+const MEMBER_COUNT = 80;
+const ATTENDANCE_DAYS = 90;
+const SESSION_DAYS = 14; // PT sessions are seeded this many days either side of today
+
+// Small seeded PRNG (mulberry32) so every fresh demo has the same data
+const createRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const createSeedData = (): MockDatabase => {
+  const random = createRandom(20240601);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const uuid = () => 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.floor(random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const todayString = toDateString(today);
+
+  const users: User[] = [];
+  const assignments: MockAssignment[] = [];
+  let nextAssignmentId = 1;
+
+  for (let i = 0; i < MEMBER_COUNT; i++) {
+    const joiningDate = subDays(today, between(5, 540));
+    const user: User = {
+      userId: uuid(),
+      name: `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`,
+      age: between(17, 62),
+      gender: random() < 0.48 ? 'Male' : random() < 0.95 ? 'Female' : 'Other',
+      contactNumber: `9${between(100000000, 999999999)}`,
+      membershipStatus: 'Inactive',
+      joiningDate: toDateString(joiningDate),
+    };
+
+    // Chain of back-to-back plans from the joining date; ~10% never bought a plan
+    if (random() >= 0.1) {
+      let start = joiningDate;
+      const renewals = between(1, 4);
+      for (let n = 0; n < renewals && start <= today; n++) {
+        const plan = pick(PLANS);
+        const end = addMonths(start, plan.durationMonths);
+        assignments.push({
+          assignmentId: nextAssignmentId++,
+          userId: user.userId,
+          planId: plan.planId,
+          startDate: toDateString(start),
+          endDate: toDateString(end),
+        });
+        start = addDays(end, between(0, 1) === 0 ? 1 : between(10, 60)); // Some members lapse before renewing
+      }
+    }
+
+    // Make sure a handful of memberships expire within the next week
+    const own = assignments.filter(a => a.userId === user.userId);
+    const latest = own[own.length - 1];
+    if (latest && i % 12 === 0) {
+      latest.endDate = toDateString(addDays(today, between(1, 7)));
+      if (latest.startDate > todayString) latest.startDate = toDateString(subDays(today, 20));
+    }
+
+    if (own.some(a => a.startDate <= todayString && a.endDate >= todayString)) {
+      user.membershipStatus = 'Active';
+    } else if (own.length > 0) {
+      user.membershipStatus = 'Expired';
+    }
+    users.push(user);
+  }
+
+  // Check-ins cluster around the morning and evening rush
+  const attendance: MockAttendance[] = [];
+  const peakHours = [6, 6, 7, 7, 7, 8, 8, 9, 10, 12, 13, 16, 17, 17, 18, 18, 18, 19, 19, 20, 21];
+  const regulars = users.filter(u => u.membershipStatus === 'Active');
+  for (let day = ATTENDANCE_DAYS; day >= 0; day--) {
+    const date = subDays(today, day);
+    const weekendFactor = date.getDay() === 0 ? 0.4 : date.getDay() === 6 ? 0.7 : 1;
+    for (const user of regulars) {
+      if (toDateString(date) < user.joiningDate || random() > 0.35 * weekendFactor) continue;
+      const checkIn = new Date(date);
+      checkIn.setHours(pick(peakHours), between(0, 59), between(0, 59));
+      if (checkIn > new Date()) continue;
+      const checkOut = addMinutes(checkIn, between(40, 120));
+      attendance.push({
+        attendanceId: 0,
+        userId: user.userId,
+        checkInTime: checkIn.toISOString(),
+        checkOutTime: checkOut > new Date() ? undefined : checkOut.toISOString(), // Still working out
+      });
+    }
+  }
+  attendance.sort((a, b) => a.checkInTime.localeCompare(b.checkInTime));
+  attendance.forEach((record, index) => { record.attendanceId = index + 1; });
+
+  const trainers: Trainer[] = TRAINERS.map(t => ({
+    ...t,
+    // Ravi is on leave for a few days next week, so the calendar and filter have something to show
+    exceptions: t.trainerId === 1
+      ? [{ startDate: toDateString(addDays(today, 7)), endDate: toDateString(addDays(today, 9)), reason: 'leave', note: 'Family visit' }]
+      : t.weeklySlots ? [] : undefined,
+  }));
+
+  // At most one hour-long PT session per trainer per day, inside their weekly slots, with active members
+  const activeMembers = users.filter(u => u.membershipStatus === 'Active');
+  const sessions: MockSession[] = [];
+  for (let offset = -SESSION_DAYS; offset <= SESSION_DAYS; offset++) {
+    const date = addDays(today, offset);
+    const dateString = toDateString(date);
+    trainers.forEach(trainer => {
+      const slot = trainer.weeklySlots?.find(s => s.weekday === (date.getDay() + 6) % 7);
+      const away = trainer.exceptions?.some(e => e.startDate <= dateString && e.endDate >= dateString);
+      if (!slot || away || random() > 0.5) return;
+      const startHour = between(Number(slot.start.slice(0, 2)), Number(slot.end.slice(0, 2)) - 1);
+      const startTime = new Date(date);
+      startTime.setHours(startHour, 0, 0, 0);
+      const roll = random();
+      const past = startTime < new Date();
+      sessions.push({
+        sessionId: sessions.length + 1,
+        trainerId: trainer.trainerId,
+        userId: pick(activeMembers).userId,
+        startTime: startTime.toISOString(),
+        endTime: addMinutes(startTime, 60).toISOString(),
+        status: roll < 0.08 ? 'CANCELLED' : !past ? 'SCHEDULED' : roll < 0.18 ? 'NO_SHOW' : 'COMPLETED',
+      });
+    });
+  }
+
+  // Bookings for the coming week; some occurrences are oversubscribed so the waitlist has people on it
+  const classBookings: MockClassBooking[] = [];
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(today, offset);
+    CLASSES.filter(c => c.weekdays.includes((date.getDay() + 6) % 7)).forEach(groupClass => {
+      const count = between(Math.ceil(groupClass.capacity / 2), groupClass.capacity + 3);
+      const first = between(0, activeMembers.length - 1);
+      for (let i = 0; i < count && i < activeMembers.length; i++) {
+        classBookings.push({
+          bookingId: classBookings.length + 1,
+          classId: groupClass.classId,
+          date: toDateString(date),
+          userId: activeMembers[(first + i) % activeMembers.length].userId,
+          status: i < groupClass.capacity ? 'BOOKED' : 'WAITLISTED',
+          bookedAt: addMinutes(subDays(today, 3), i * 17).toISOString(),
+        });
+      }
+    });
+  }
+
+  return {
+    staff: [
+      { username: 'owner', password: 'owner123', role: 'OWNER' },
+      { username: 'manager', password: 'manager123', role: 'MANAGER' },
+      { username: 'frontdesk', password: 'frontdesk123', role: 'FRONT_DESK' },
+      { username: 'trainer', password: 'trainer123', role: 'TRAINER' },
+    ],
+    users,
+    trainers,
+    plans: PLANS.map(p => ({ ...p })),
+    assignments,
+    attendance,
+    sessions,
+    classes: CLASSES.map(c => ({ ...c, weekdays: [...c.weekdays] })),
+    classBookings,
+    kioskSessions: [],
+    nextIds: {
+      trainer: TRAINERS.length + 1,
+      plan: PLANS.length + 1,
+      assignment: nextAssignmentId,
+      attendance: attendance.length + 1,
+      session: sessions.length + 1,
+      groupClass: CLASSES.length + 1,
+      classBooking: classBookings.length + 1,
+    },
+  };
+};
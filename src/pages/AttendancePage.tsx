@@ -1,38 +1,85 @@
 // src/pages/AttendancePage.tsx
-import React, { useEffect, useState, useCallback } from 'react';
-import axiosInstance from '../api/axiosConfig';
+import React, { useEffect, useMemo, useState, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { isAxiosError } from 'axios';
 import { format } from 'date-fns';
+import { usersApi, attendanceApi, assignmentsApi, apiErrorMessage, reportApiError, type AttendanceRecord, type User } from '../api';
+import { useAuth } from '../context/AuthContext';
+import { ACCESS } from '../utils/roles';
+import { isNetworkError } from '../utils/checkInQueue';
+import { evaluateCheckIn, hasBlockingIssue, needsReview, type CheckInEvaluation } from '../utils/checkInValidation';
+import { useCheckInQueue } from '../hooks/useCheckInQueue';
+import { useNotifications } from '../hooks/useNotifications';
+import { exportRows, type ExportColumn } from '../utils/export';
+import { paginate } from '../api/paging';
+import {
+  EMPTY_ATTENDANCE_FILTERS, filterAttendance, formatVisitDuration, isInGym, visitDurationMinutes,
+  type AttendanceFilters,
+} from '../utils/attendance';
+import ExportButton from '../components/ExportButton';
+import MemberStatusCard from '../components/MemberStatusCard';
+import CheckInReviewActions from '../components/CheckInReviewActions';
+import Pagination from '../components/Pagination';
+import QrScanner from '../components/QrScanner';
 
-// UPDATED: Interface for Attendance Record from Backend (AttendanceResponseDTO)
-interface AttendanceRecordDisplay { // Renamed for clarity in frontend
-  attendanceId: number;
-  userId: string;     // The actual user ID
-  userName: string;   // The name of the user
-  checkInTime: string; // ISO String format
+// Result of the last check-in, shown as a large banner so the front desk can read it at a glance
+interface CheckInBanner {
+  success: boolean;
+  queued?: boolean; // Saved offline, not yet confirmed by the server
+  memberName: string;
+  detail: string;
 }
 
-interface User { // Basic user info for display in dropdowns, or for map
-  userId: string;
-  name: string;
+// Member being checked in, kept on screen until staff move on to the next one
+interface MemberCheck {
+  member: User;
+  evaluation: CheckInEvaluation;
+  checkedInAt: string | null; // Set once the visit is recorded
 }
 
+const ATTENDANCE_EXPORT_COLUMNS: ExportColumn<AttendanceRecord>[] = [
+  { header: 'Record ID', value: r => r.attendanceId },
+  { header: 'Member User ID', value: r => r.userId },
+  { header: 'Member Name', value: r => r.userName },
+  { header: 'Check-in Time', value: r => r.checkInTime, type: 'datetime' },
+  { header: 'Check-out Time', value: r => r.checkOutTime, type: 'datetime' },
+  { header: 'Duration (Minutes)', value: r => visitDurationMinutes(r) },
+  { header: 'Override Reason', value: r => r.overrideReason },
+];
+
+const LOG_PAGE_SIZE = 25;
+
+const SCAN_DEBOUNCE_MS = 5000; // Ignore repeat scans of the same code within this window
+const BANNER_TIMEOUT_MS = 4000; // Hide the banner so the desk is ready for the next member
+
 const AttendancePage: React.FC = () => {
+  const { hasRole } = useAuth();
+  const { notify } = useNotifications();
+  const canCheckIn = hasRole(ACCESS.checkIn);
+  const canOverride = hasRole(ACCESS.overrideCheckIn);
+  const canLaunchKiosk = hasRole(ACCESS.launchKiosk);
   const [userIdInput, setUserIdInput] = useState<string>('');
   const [checkInMessage, setCheckInMessage] = useState<string | null>(null);
   const [checkInError, setCheckInError] = useState<string | null>(null);
   const [loadingCheckIn, setLoadingCheckIn] = useState<boolean>(false);
+  const [checkInMode, setCheckInMode] = useState<'manual' | 'scan'>('manual');
+  const [banner, setBanner] = useState<CheckInBanner | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const [memberCheck, setMemberCheck] = useState<MemberCheck | null>(null);
 
-  // UPDATED: Use the new interface for attendanceRecords state
-  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecordDisplay[]>([]);
+  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [usersMap, setUsersMap] = useState<Map<string, string>>(new Map()); // Map userId to userName for display
   const [loadingLogs, setLoadingLogs] = useState<boolean>(true);
   const [errorLogs, setErrorLogs] = useState<string | null>(null);
+  const [logFilters, setLogFilters] = useState<AttendanceFilters>(EMPTY_ATTENDANCE_FILTERS);
+  const [logPage, setLogPage] = useState<number>(0);
+  const [checkingOutId, setCheckingOutId] = useState<number | null>(null);
 
   const fetchUsersMap = useCallback(async () => {
     try {
-      const response = await axiosInstance.get<User[]>('/users');
+      const users = await usersApi.list();
       const map = new Map<string, string>();
-      response.data.forEach(user => map.set(user.userId, user.name));
+      users.forEach(user => map.set(user.userId, user.name));
       setUsersMap(map);
       setErrorLogs(null);
     } catch (err) {
@@ -41,13 +88,10 @@ const AttendancePage: React.FC = () => {
     }
   }, []);
 
-  // MODIFIED: Fetch attendance logs - now expects AttendanceResponseDTO
   const fetchAttendanceLogs = useCallback(async () => {
     try {
       setLoadingLogs(true);
-      // This endpoint now returns AttendanceResponseDTO
-      const response = await axiosInstance.get<AttendanceRecordDisplay[]>('/attendance/all');
-      setAttendanceRecords(response.data);
+      setAttendanceRecords(await attendanceApi.listAll());
       setErrorLogs(null);
     } catch (err: any) {
       console.error('Failed to fetch attendance logs:', err);
@@ -71,30 +115,139 @@ const AttendancePage: React.FC = () => {
     loadInitialData();
   }, [fetchUsersMap, fetchAttendanceLogs]); // Dependencies
 
-  const handleCheckIn = async (userId: string) => {
+  const checkInQueue = useCheckInQueue(canCheckIn, fetchAttendanceLogs);
+
+  // Auto-dismiss the check-in banner
+  useEffect(() => {
+    if (!banner) return;
+    const timer = setTimeout(() => setBanner(null), BANNER_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [banner]);
+
+  // Keeps the visit with its original time; it is sent once the connection returns
+  const queueOfflineCheckIn = (userId: string) => {
+    const memberName = usersMap.get(userId);
+    const item = checkInQueue.enqueue(userId, memberName);
+    const time = format(new Date(item.checkInTime), 'HH:mm:ss');
+    setCheckInMessage(`No connection. Check-in for ${memberName || userId} saved at ${time} and will be sent when back online.`);
+    setBanner({ success: true, queued: true, memberName: memberName || 'Member', detail: `Saved offline at ${time}` });
+    setUserIdInput('');
+  };
+
+  // Records the visit; the override reason is stored with it when staff let a blocked member in
+  const submitCheckIn = async (userId: string, reason?: string) => {
     setCheckInMessage(null);
     setCheckInError(null);
     setLoadingCheckIn(true);
-
     try {
-      const response = await axiosInstance.post('/attendance/checkin', { userId });
-      const checkedInUserId = response.data.userId; // Get actual userId from response for message
+      // Failures are shown in the banner instead of a notification
+      const record = await attendanceApi.checkIn(userId, reason ? { overrideReason: reason } : {}, { silentErrors: true });
+      const checkedInUserId = record.userId; // Get actual userId from response for message
       const userName = usersMap.get(checkedInUserId) || checkedInUserId.substring(0, 8) + '...'; // Use userId itself if name not found
-      setCheckInMessage(`User ${userName} checked in successfully at ${format(new Date(response.data.checkInTime), 'HH:mm:ss')}!`);
+      setCheckInMessage(`User ${userName} checked in successfully at ${format(new Date(record.checkInTime), 'HH:mm:ss')}!`);
+      setBanner({
+        success: true,
+        memberName: record.userName || userName,
+        detail: `Checked in at ${format(new Date(record.checkInTime), 'HH:mm:ss')}`,
+      });
+      setMemberCheck(check => (check && check.member.userId === userId ? { ...check, checkedInAt: record.checkInTime } : check));
       setUserIdInput('');
       fetchAttendanceLogs(); // Refresh logs
-    } catch (err: any) {
-      console.error('Check-in failed:', err);
-      if (err.response && err.response.data && err.response.data.message) {
-        setCheckInError(err.response.data.message);
-      } else {
-        setCheckInError('Failed to check in. Please ensure User ID is valid.');
+    } catch (err) {
+      if (isNetworkError(err)) {
+        queueOfflineCheckIn(userId);
+        return;
       }
+      console.error('Check-in failed:', err);
+      const message = apiErrorMessage(err, 'Failed to check in. Please ensure User ID is valid.');
+      setCheckInError(message);
+      setBanner({ success: false, memberName: usersMap.get(userId) || 'Unknown member', detail: message });
     } finally {
       setLoadingCheckIn(false);
     }
   };
 
+  // Looks the member up first; anything needing a decision waits in the status card
+  const handleCheckIn = async (userId: string) => {
+    setCheckInMessage(null);
+    setCheckInError(null);
+    setMemberCheck(null);
+
+    if (!navigator.onLine) {
+      queueOfflineCheckIn(userId);
+      return;
+    }
+
+    setLoadingCheckIn(true);
+    let check: MemberCheck;
+    try {
+      const [member, assignments] = await Promise.all([
+        usersApi.get(userId, { silentErrors: true }),
+        assignmentsApi.listForUser(userId, { silentErrors: true }),
+      ]);
+      const evaluation = evaluateCheckIn(member, assignments, attendanceRecords.filter(r => r.userId === userId));
+      check = { member, evaluation, checkedInAt: null };
+      setMemberCheck(check);
+    } catch (err) {
+      setLoadingCheckIn(false);
+      if (isNetworkError(err)) {
+        queueOfflineCheckIn(userId);
+        return;
+      }
+      console.error('Member lookup failed:', err);
+      const message = isAxiosError(err) && err.response?.status === 404
+        ? `No member found with ID ${userId}.`
+        : 'Failed to load the member\'s membership. Please try again.';
+      setCheckInError(message);
+      setBanner({ success: false, memberName: usersMap.get(userId) || 'Unknown member', detail: message });
+      return;
+    }
+
+    if (needsReview(check.evaluation)) {
+      setLoadingCheckIn(false);
+      const firstIssue = check.evaluation.issues.find(issue => issue.severity !== 'info');
+      if (hasBlockingIssue(check.evaluation)) {
+        setBanner({ success: false, memberName: check.member.name, detail: firstIssue?.message || 'Check-in needs review.' });
+      }
+      return;
+    }
+    await submitCheckIn(userId);
+  };
+
+  const handleCheckOut = async (record: AttendanceRecord) => {
+    setCheckingOutId(record.attendanceId);
+    try {
+      const updated = await attendanceApi.checkOut(record.attendanceId);
+      setAttendanceRecords(records => records.map(r => (r.attendanceId === updated.attendanceId ? updated : r)));
+      notify('success', `${usersMap.get(updated.userId) || 'Member'} checked out.`);
+    } catch (err) {
+      console.error('Check-out failed:', err);
+      reportApiError(err);
+    } finally {
+      setCheckingOutId(null);
+    }
+  };
+
+  const filteredRecords = useMemo(() => filterAttendance(attendanceRecords, logFilters), [attendanceRecords, logFilters]);
+  const recordsPage = paginate(filteredRecords, logPage, LOG_PAGE_SIZE);
+  const inGym = attendanceRecords.filter(record => isInGym(record));
+
+  const handleLogFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setLogFilters({ ...logFilters, [e.target.name]: e.target.value });
+    setLogPage(0);
+  };
+
+  const handleScan = (code: string) => {
+    if (!code || loadingCheckIn) return;
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.code === code && now - last.at < SCAN_DEBOUNCE_MS) {
+      return; // Same card still in front of the camera
+    }
+    lastScanRef.current = { code, at: now };
+    handleCheckIn(code);
+  };
+
   const handleManualCheckInSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (userIdInput.trim()) {
@@ -106,36 +259,191 @@ const AttendancePage: React.FC = () => {
     <div className="p-6 bg-white rounded-lg shadow-md">
       <h1 className="text-3xl font-bold text-gray-800 mb-6">Attendance System</h1>
 
-      {/* Manual Check-in Form */}
-      <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
-        <h2 className="text-2xl font-semibold text-gray-800 mb-4">Manual Check-in</h2>
-        <form onSubmit={handleManualCheckInSubmit} className="flex flex-col md:flex-row gap-4 items-end">
-          <div className="flex-grow">
-            <label htmlFor="userId" className="block text-sm font-medium text-gray-700 mb-1">Enter Member User ID:</label>
-            <input
-              type="text"
-              id="userId"
-              value={userIdInput}
-              onChange={(e) => setUserIdInput(e.target.value)}
-              placeholder="e.g., e0a0ca55-986e-..."
-              required
-              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
-            />
-          </div>
+      {/* Check-in mode toggle */}
+      {canCheckIn && (
+        <div className="flex space-x-4 mb-6">
           <button
-            type="submit"
-            disabled={loadingCheckIn}
-            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out h-10"
+            onClick={() => setCheckInMode('manual')}
+            className={`font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out ${checkInMode === 'manual' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
           >
-            {loadingCheckIn ? 'Checking In...' : 'Check In'}
+            Manual Entry
           </button>
-        </form>
-        {checkInMessage && <p className="text-green-600 mt-2">{checkInMessage}</p>}
-        {checkInError && <p className="text-red-600 mt-2">{checkInError}</p>}
-      </div>
+          <button
+            onClick={() => setCheckInMode('scan')}
+            className={`font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out ${checkInMode === 'scan' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+          >
+            Scan QR Code
+          </button>
+          {canLaunchKiosk && (
+            <Link to="/kiosk" className="font-bold py-2 px-4 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors duration-200 ease-in-out">
+              Kiosk Mode
+            </Link>
+          )}
+        </div>
+      )}
+
+      {/* Offline queue status */}
+      {canCheckIn && (!checkInQueue.online || checkInQueue.queue.length > 0) && (
+        <div className={`p-4 rounded-lg mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-2 ${checkInQueue.online ? 'bg-blue-50 text-blue-900' : 'bg-yellow-100 text-yellow-900'}`}>
+          <p>
+            {checkInQueue.online ? 'Back online.' : 'Offline: check-ins are saved on this device.'}
+            {' '}<span className="font-semibold">{checkInQueue.queue.length} pending check-in(s)</span>
+          </p>
+          {checkInQueue.queue.length > 0 && (
+            <button
+              onClick={checkInQueue.replay}
+              disabled={!checkInQueue.online || checkInQueue.syncing}
+              className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-1 px-3 rounded-md"
+            >
+              {checkInQueue.syncing ? 'Syncing...' : 'Sync Now'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Results of the last offline queue replay */}
+      {checkInQueue.results.length > 0 && (
+        <div className="p-4 rounded-lg mb-6 bg-gray-50 border border-gray-200">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-lg font-semibold text-gray-800">Offline Check-ins Sent</h2>
+            <button onClick={checkInQueue.clearResults} className="text-sm text-gray-600 hover:underline">Dismiss</button>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {checkInQueue.results.map(({ item, outcome, message }) => (
+              <li key={item.id} className={outcome === 'synced' ? 'text-green-700' : 'text-red-700'}>
+                {format(new Date(item.checkInTime), 'yyyy-MM-dd HH:mm:ss')} - {item.memberName || item.userId}:{' '}
+                {outcome === 'synced' ? message : `Conflict - ${message}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Large check-in result banner */}
+      {banner && (
+        <div className={`p-6 rounded-lg shadow mb-6 text-center ${banner.queued ? 'bg-yellow-100 text-yellow-900' : banner.success ? 'bg-green-100 text-green-900' : 'bg-red-100 text-red-900'}`}>
+          <p className="text-4xl font-extrabold">{banner.success ? 'Welcome' : 'Check-in Failed'}: {banner.memberName}</p>
+          <p className="text-xl mt-2">{banner.detail}</p>
+        </div>
+      )}
+
+      {/* Status of the member being checked in, with confirm / override actions */}
+      {canCheckIn && memberCheck && (
+        <MemberStatusCard member={memberCheck.member} evaluation={memberCheck.evaluation}>
+          {memberCheck.checkedInAt ? (
+            <p className="text-green-700 font-semibold">Checked in at {format(new Date(memberCheck.checkedInAt), 'HH:mm:ss')}.</p>
+          ) : needsReview(memberCheck.evaluation) && (
+            <CheckInReviewActions
+              evaluation={memberCheck.evaluation}
+              canOverride={canOverride}
+              submitting={loadingCheckIn}
+              onCheckIn={(reason) => submitCheckIn(memberCheck.member.userId, reason)}
+              onCancel={() => setMemberCheck(null)}
+            />
+          )}
+        </MemberStatusCard>
+      )}
+
+      {/* QR Scanner */}
+      {canCheckIn && checkInMode === 'scan' && (
+        <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Scan Member Card</h2>
+          <QrScanner onScan={handleScan} />
+          {loadingCheckIn && <p className="text-gray-600 mt-2 text-center">Checking in...</p>}
+        </div>
+      )}
+
+      {/* Manual Check-in Form */}
+      {canCheckIn && checkInMode === 'manual' && (
+        <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Manual Check-in</h2>
+          <form onSubmit={handleManualCheckInSubmit} className="flex flex-col md:flex-row gap-4 items-end">
+            <div className="flex-grow">
+              <label htmlFor="userId" className="block text-sm font-medium text-gray-700 mb-1">Enter Member User ID:</label>
+              <input
+                type="text"
+                id="userId"
+                value={userIdInput}
+                onChange={(e) => setUserIdInput(e.target.value)}
+                placeholder="e.g., e0a0ca55-986e-..."
+                required
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loadingCheckIn}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out h-10"
+            >
+              {loadingCheckIn ? 'Checking In...' : 'Check In'}
+            </button>
+          </form>
+          {checkInMessage && <p className="text-green-600 mt-2">{checkInMessage}</p>}
+          {checkInError && <p className="text-red-600 mt-2">{checkInError}</p>}
+        </div>
+      )}
+
+      {/* Members currently in the gym */}
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4 mt-8">Currently in the Gym ({inGym.length})</h2>
+      {inGym.length === 0 ? (
+        <p className="text-gray-500 mb-4">Nobody is checked in right now.</p>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 mb-4">
+          {inGym.map(record => (
+            <li key={record.attendanceId} className="flex items-center justify-between bg-green-50 border border-green-200 rounded-md p-2">
+              <span>
+                <Link to={`/users/${record.userId}`} className="text-blue-600 hover:underline">{record.userName || 'Unknown User'}</Link>
+                <span className="text-sm text-gray-600"> since {format(new Date(record.checkInTime), 'HH:mm')}</span>
+              </span>
+              {canCheckIn && (
+                <button onClick={() => handleCheckOut(record)} disabled={checkingOutId === record.attendanceId}
+                        className="bg-orange-500 hover:bg-orange-600 text-white text-sm py-1 px-3 rounded-md">
+                  {checkingOutId === record.attendanceId ? 'Checking Out...' : 'Check Out'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
 
       {/* Attendance Logs Table */}
-      <h2 className="text-2xl font-semibold text-gray-800 mb-4 mt-8">Recent Attendance Logs</h2>
+      <div className="flex items-center justify-between mb-4 mt-8">
+        <h2 className="text-2xl font-semibold text-gray-800">Attendance Log</h2>
+        <ExportButton disabled={filteredRecords.length === 0}
+                      onExport={(exportFormat) => exportRows(filteredRecords, ATTENDANCE_EXPORT_COLUMNS, 'attendance', exportFormat)} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4 items-end">
+        <div>
+          <label htmlFor="logMember" className="block text-sm font-medium text-gray-700">Member:</label>
+          <input type="search" id="logMember" name="member" value={logFilters.member} onChange={handleLogFilterChange}
+                 placeholder="Name or user ID"
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="logFrom" className="block text-sm font-medium text-gray-700">From Date:</label>
+          <input type="date" id="logFrom" name="from" value={logFilters.from} onChange={handleLogFilterChange}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="logTo" className="block text-sm font-medium text-gray-700">To Date:</label>
+          <input type="date" id="logTo" name="to" value={logFilters.to} onChange={handleLogFilterChange}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="logTimeFrom" className="block text-sm font-medium text-gray-700">Checked In After:</label>
+          <input type="time" id="logTimeFrom" name="timeFrom" value={logFilters.timeFrom} onChange={handleLogFilterChange}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="logTimeTo" className="block text-sm font-medium text-gray-700">Checked In Before:</label>
+          <input type="time" id="logTimeTo" name="timeTo" value={logFilters.timeTo} onChange={handleLogFilterChange}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+      </div>
+      {Object.values(logFilters).some(Boolean) && (
+        <button onClick={() => { setLogFilters(EMPTY_ATTENDANCE_FILTERS); setLogPage(0); }}
+                className="mb-4 text-sm text-blue-600 hover:text-blue-800 underline">Clear filters</button>
+      )}
       {errorLogs && (
         <p className="text-red-600 text-center mb-4">{errorLogs}</p>
       )}
@@ -144,29 +452,64 @@ const AttendancePage: React.FC = () => {
         <p className="text-center text-gray-600">Loading attendance logs...</p>
       ) : (
         <div className="overflow-x-auto">
-          {attendanceRecords.length === 0 ? (
-            <p className="text-center text-gray-500">No attendance records found.</p>
+          {filteredRecords.length === 0 ? (
+            <p className="text-center text-gray-500">
+              {attendanceRecords.length === 0 ? 'No attendance records found.' : 'No attendance records match these filters.'}
+            </p>
           ) : (
-            <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
-              <thead>
-                <tr className="bg-gray-100">
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Record ID</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Member User ID</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Member Name</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Check-in Time</th>
-                </tr>
-              </thead>
-              <tbody>
-                {attendanceRecords.map((record) => (
-                  <tr key={record.attendanceId} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4 text-gray-700 text-sm">{record.attendanceId}</td>
-                    <td className="py-3 px-4 text-gray-700 text-sm">{record.userId ? `${record.userId.substring(0, 8)}...` : 'N/A'}</td>
-                    <td className="py-3 px-4 text-gray-700">{record.userName || 'Unknown User'}</td> {/* UPDATED: Use record.userName */}
-                    <td className="py-3 px-4 text-gray-700">{format(new Date(record.checkInTime), 'yyyy-MM-dd HH:mm:ss')}</td>
+            <>
+              <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Record ID</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Member User ID</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Member Name</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Check-in Time</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Check-out Time</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Duration</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {recordsPage.content.map((record) => {
+                    const duration = visitDurationMinutes(record);
+                    return (
+                      <tr key={record.attendanceId} className="border-b hover:bg-gray-50">
+                        <td className="py-3 px-4 text-gray-700 text-sm">{record.attendanceId}</td>
+                        <td className="py-3 px-4 text-gray-700 text-sm">{record.userId ? `${record.userId.substring(0, 8)}...` : 'N/A'}</td>
+                        <td className="py-3 px-4 text-gray-700">
+                          {record.userId ? (
+                            <Link to={`/users/${record.userId}`} className="text-blue-600 hover:underline">{record.userName || 'Unknown User'}</Link>
+                          ) : (record.userName || 'Unknown User')}
+                          {record.overrideReason && (
+                            <span title={record.overrideReason}
+                                  className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">Override</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700">{format(new Date(record.checkInTime), 'yyyy-MM-dd HH:mm:ss')}</td>
+                        <td className="py-3 px-4 text-gray-700">
+                          {record.checkOutTime ? format(new Date(record.checkOutTime), 'yyyy-MM-dd HH:mm:ss') : (
+                            canCheckIn && isInGym(record) ? (
+                              <button onClick={() => handleCheckOut(record)} disabled={checkingOutId === record.attendanceId}
+                                      className="bg-orange-500 hover:bg-orange-600 text-white text-sm py-1 px-3 rounded-md">
+                                {checkingOutId === record.attendanceId ? 'Checking Out...' : 'Check Out'}
+                              </button>
+                            ) : <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700">{duration !== null ? formatVisitDuration(duration) : '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <Pagination
+                page={recordsPage.number}
+                totalPages={recordsPage.totalPages}
+                totalElements={recordsPage.totalElements}
+                size={LOG_PAGE_SIZE}
+                onPageChange={setLogPage}
+              />
+            </>
           )}
         </div>
       )}
@@ -0,0 +1,355 @@
+// src/pages/ClassesPage.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import { classesApi, trainersApi, reportApiError, type ClassBooking, type GroupClass, type Trainer } from '../api';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { ACCESS } from '../utils/roles';
+import { WEEKDAY_LABELS } from '../utils/peakHours';
+import { formatWeekdays } from '../utils/trainerAvailability';
+import { classEndTime, occupancy, runsOn } from '../utils/classes';
+import ClassRoster from '../components/ClassRoster';
+
+const EMPTY_FORM = { name: '', trainerId: '', room: '', capacity: '', startTime: '', durationMinutes: '60' };
+
+const weekStartOf = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+const ClassesPage: React.FC = () => {
+  const { hasRole } = useAuth();
+  const { notify } = useNotifications();
+  const canEditClasses = hasRole(ACCESS.editClasses);
+  const canDeleteClasses = hasRole(ACCESS.deleteClasses);
+  const canBookClasses = hasRole(ACCESS.bookClasses);
+  const canMarkAttendance = hasRole(ACCESS.markClassAttendance);
+
+  const [classes, setClasses] = useState<GroupClass[]>([]);
+  const [trainers, setTrainers] = useState<Trainer[]>([]);
+  const [bookings, setBookings] = useState<ClassBooking[]>([]); // Every booking in the week shown
+  const [weekStart, setWeekStart] = useState<Date>(() => weekStartOf(new Date()));
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ classId: number; date: string } | null>(null); // Occurrence whose roster is open
+
+  const [showForm, setShowForm] = useState<boolean>(false);
+  const [editingClass, setEditingClass] = useState<GroupClass | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formWeekdays, setFormWeekdays] = useState<number[]>([]);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchClasses = async () => {
+    try {
+      setLoading(true);
+      setClasses(await classesApi.list());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch classes:', err);
+      setError('Failed to load classes.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      setBookings(await classesApi.listBookings({
+        from: format(weekStart, 'yyyy-MM-dd'),
+        to: format(addDays(weekStart, 6), 'yyyy-MM-dd'),
+      }));
+    } catch (err) {
+      console.error('Failed to fetch class bookings:', err);
+      setError('Failed to load bookings for this week.');
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    fetchClasses();
+  }, []);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  useEffect(() => {
+    if (showForm && trainers.length === 0) {
+      trainersApi.list().then(setTrainers).catch(err => console.error('Failed to fetch trainers:', err));
+    }
+  }, [showForm, trainers.length]);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setFormWeekdays([]);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData({ ...formData, [name]: value });
+  };
+
+  const toggleWeekday = (weekday: number) =>
+    setFormWeekdays(formWeekdays.includes(weekday) ? formWeekdays.filter(d => d !== weekday) : [...formWeekdays, weekday].sort());
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formWeekdays.length === 0) {
+      setError('Pick at least one day the class runs on.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const payload = {
+        name: formData.name,
+        trainerId: parseInt(formData.trainerId),
+        room: formData.room,
+        capacity: parseInt(formData.capacity),
+        weekdays: formWeekdays,
+        startTime: formData.startTime,
+        durationMinutes: parseInt(formData.durationMinutes),
+      };
+      if (editingClass) {
+        await classesApi.update(editingClass.classId, payload);
+      } else {
+        await classesApi.create(payload);
+      }
+      notify('success', editingClass ? `${payload.name} updated.` : `${payload.name} added to the timetable.`);
+      setShowForm(false);
+      setEditingClass(null);
+      resetForm();
+      await fetchClasses();
+      fetchBookings(); // A bigger capacity promotes waitlisted members
+    } catch (err) {
+      console.error('Failed to save class:', err);
+      reportApiError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditClick = (groupClass: GroupClass) => {
+    setEditingClass(groupClass);
+    setFormData({
+      name: groupClass.name,
+      trainerId: String(groupClass.trainerId),
+      room: groupClass.room,
+      capacity: String(groupClass.capacity),
+      startTime: groupClass.startTime,
+      durationMinutes: String(groupClass.durationMinutes),
+    });
+    setFormWeekdays(groupClass.weekdays);
+    setShowForm(true);
+  };
+
+  const handleDeleteClick = async (groupClass: GroupClass) => {
+    if (!window.confirm(`Delete ${groupClass.name}? All of its bookings will be removed.`)) return;
+    try {
+      await classesApi.remove(groupClass.classId);
+      setClasses(classes.filter(c => c.classId !== groupClass.classId));
+      setBookings(bookings.filter(b => b.classId !== groupClass.classId));
+      notify('success', `${groupClass.name} deleted.`);
+    } catch (err) {
+      console.error('Failed to delete class:', err);
+      reportApiError(err);
+    }
+  };
+
+  // Replaces one occurrence's bookings after a change in the roster
+  const handleBookingsChange = (classId: number, date: string, updated: ClassBooking[]) =>
+    setBookings(current => [...current.filter(b => b.classId !== classId || b.date !== date), ...updated]);
+
+  const selectedClass = selected && classes.find(c => c.classId === selected.classId);
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md">
+      <h1 className="text-3xl font-bold text-gray-800 mb-6">Group Classes</h1>
+
+      {canEditClasses && (
+        <button
+          onClick={() => {
+            setShowForm(!showForm);
+            setEditingClass(null);
+            resetForm();
+          }}
+          className="mb-6 bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+        >
+          {showForm ? 'Hide Form' : 'Add New Class'}
+        </button>
+      )}
+
+      {showForm && (
+        <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">{editingClass ? 'Edit Class' : 'Add New Class'}</h2>
+          <form onSubmit={handleFormSubmit}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700">Class Name:</label>
+                <input type="text" id="name" name="name" value={formData.name} onChange={handleInputChange} required
+                       placeholder="e.g., Sunrise Yoga"
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="trainerId" className="block text-sm font-medium text-gray-700">Trainer:</label>
+                <select id="trainerId" name="trainerId" value={formData.trainerId} onChange={handleInputChange} required
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                  <option value="">-- Select a Trainer --</option>
+                  {trainers.map(t => <option key={t.trainerId} value={t.trainerId}>{t.name} ({t.specialization})</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="room" className="block text-sm font-medium text-gray-700">Room:</label>
+                <input type="text" id="room" name="room" value={formData.room} onChange={handleInputChange} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="capacity" className="block text-sm font-medium text-gray-700">Capacity:</label>
+                <input type="number" id="capacity" name="capacity" min={1} value={formData.capacity} onChange={handleInputChange} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="startTime" className="block text-sm font-medium text-gray-700">Start Time:</label>
+                <input type="time" id="startTime" name="startTime" value={formData.startTime} onChange={handleInputChange} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <div>
+                <label htmlFor="durationMinutes" className="block text-sm font-medium text-gray-700">Duration (Minutes):</label>
+                <input type="number" id="durationMinutes" name="durationMinutes" min={5} step={5} value={formData.durationMinutes}
+                       onChange={handleInputChange} required
+                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+              </div>
+              <fieldset className="md:col-span-2">
+                <legend className="block text-sm font-medium text-gray-700">Runs On:</legend>
+                <div className="mt-1 flex flex-wrap gap-4">
+                  {WEEKDAY_LABELS.map((label, weekday) => (
+                    <label key={label} className="inline-flex items-center gap-1 text-gray-700">
+                      <input type="checkbox" checked={formWeekdays.includes(weekday)} onChange={() => toggleWeekday(weekday)} />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            </div>
+            <div className="mt-6 flex justify-end space-x-3">
+              <button type="submit" disabled={saving}
+                      className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                {saving ? 'Saving...' : (editingClass ? 'Update Class' : 'Add Class')}
+              </button>
+              {editingClass && (
+                <button type="button" onClick={() => { setEditingClass(null); setShowForm(false); resetForm(); }}
+                        className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                  Cancel Edit
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-center mb-4">{error}</p>}
+
+      {/* Weekly timetable */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">Timetable: week of {format(weekStart, 'dd MMM yyyy')}</h2>
+        <div className="flex gap-2">
+          <button onClick={() => setWeekStart(addWeeks(weekStart, -1))}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-1 px-3 rounded-md">Previous</button>
+          <button onClick={() => setWeekStart(weekStartOf(new Date()))}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-1 px-3 rounded-md">This Week</button>
+          <button onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-1 px-3 rounded-md">Next</button>
+        </div>
+      </div>
+
+      {loading && !classes.length ? (
+        <p className="text-center text-gray-600">Loading classes...</p>
+      ) : classes.length === 0 ? (
+        <p className="text-center text-gray-500 mb-8">No classes yet.{canEditClasses && ' Add one above!'}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2 mb-8">
+          {days.map(day => {
+            const date = format(day, 'yyyy-MM-dd');
+            const dayClasses = classes.filter(c => runsOn(c, day)).sort((a, b) => a.startTime.localeCompare(b.startTime));
+            return (
+              <div key={date} className={`rounded-lg p-2 ${date === today ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'}`}>
+                <p className={`font-semibold mb-2 ${date === today ? 'text-blue-700' : 'text-gray-700'}`}>{format(day, 'EEE dd MMM')}</p>
+                {dayClasses.length === 0 && <p className="text-sm text-gray-400">No classes</p>}
+                {dayClasses.map(groupClass => {
+                  const { taken, waitlisted } = occupancy(bookings.filter(b => b.classId === groupClass.classId && b.date === date));
+                  const full = taken >= groupClass.capacity;
+                  return (
+                    <button key={groupClass.classId} onClick={() => setSelected({ classId: groupClass.classId, date })}
+                            className={`block w-full text-left rounded-md p-2 mb-2 text-sm shadow-sm hover:shadow ${date < today ? 'bg-gray-100 text-gray-500' : 'bg-white text-gray-700'}`}>
+                      <span className="block font-semibold text-gray-800">{groupClass.name}</span>
+                      <span className="block">{groupClass.startTime}-{classEndTime(groupClass)}</span>
+                      <span className="block">{groupClass.trainerName}, {groupClass.room}</span>
+                      <span className={`block font-semibold ${full ? 'text-red-600' : 'text-green-600'}`}>
+                        {taken}/{groupClass.capacity}{waitlisted > 0 && ` +${waitlisted} waiting`}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Class definitions */}
+      {classes.length > 0 && (
+        <>
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">All Classes</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Class</th>
+                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Trainer</th>
+                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Room</th>
+                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Schedule</th>
+                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Capacity</th>
+                  {(canEditClasses || canDeleteClasses) && <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {classes.map(groupClass => (
+                  <tr key={groupClass.classId} className="border-b hover:bg-gray-50">
+                    <td className="py-3 px-4 text-gray-700">{groupClass.name}</td>
+                    <td className="py-3 px-4 text-gray-700">{groupClass.trainerName}</td>
+                    <td className="py-3 px-4 text-gray-700">{groupClass.room}</td>
+                    <td className="py-3 px-4 text-gray-700">
+                      {formatWeekdays(groupClass.weekdays)} {groupClass.startTime}-{classEndTime(groupClass)}
+                    </td>
+                    <td className="py-3 px-4 text-gray-700">{groupClass.capacity}</td>
+                    {(canEditClasses || canDeleteClasses) && (
+                      <td className="py-3 px-4">
+                        {canEditClasses && (
+                          <button onClick={() => handleEditClick(groupClass)}
+                                  className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
+                        )}
+                        {canDeleteClasses && (
+                          <button onClick={() => handleDeleteClick(groupClass)}
+                                  className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Delete</button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {selected && selectedClass && (
+        <ClassRoster groupClass={selectedClass} date={selected.date}
+                     bookings={bookings.filter(b => b.classId === selected.classId && b.date === selected.date)}
+                     canBook={canBookClasses} canMarkAttendance={canMarkAttendance}
+                     onClose={() => setSelected(null)}
+                     onBookingsChange={(updated) => handleBookingsChange(selected.classId, selected.date, updated)} />
+      )}
+    </div>
+  );
+};
+
+export default ClassesPage;
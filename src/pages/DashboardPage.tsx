@@ -1,44 +1,40 @@
 // src/pages/DashboardPage.tsx
 import React, { useEffect, useState } from 'react';
-import axiosInstance from '../api/axiosConfig';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { format } from 'date-fns'; // Make sure date-fns is imported
-
-// Define interfaces for data structures (matches backend DTOs/Entities)
-interface DashboardSummary {
-  totalActiveMembers: number;
-  totalTrainers: number;
-}
-
-interface PlanDistribution {
-  [planName: string]: number; // e.g., { "Monthly Basic": 10, "Annual Premium": 5 }
-}
-
-// For daily attendance data, mapping date string to count
-interface DailyAttendance {
-  [date: string]: number; // e.g., { "2025-07-20": 5, "2025-07-21": 8 }
-}
-
-// UPDATED: Interface for ExpiringMembership from Backend (ExpiringMembershipDTO)
-interface ExpiringMembershipDisplay { // Renamed from ExpiringMembership to avoid confusion
-  assignmentId: number;
-  userName: string; // Now a direct string from DTO
-  planName: string; // Now a direct string from DTO
-  endDate: string; // Will be a string in ISO format (YYYY-MM-DD)
-  userId?: string; // Optional
-  planId?: number;  // Optional
-}
+import { dashboardApi, type DashboardSummary, type ExpiringMembership, type PlanAssignment } from '../api';
+import { Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { ACCESS } from '../utils/roles';
+import { exportRows, type ExportColumn } from '../utils/export';
+import ExportButton from '../components/ExportButton';
+import AttendanceTrendChart from '../components/AttendanceTrendChart';
+import RevenueAnalytics from '../components/RevenueAnalytics';
+import PeakHoursChart from '../components/PeakHoursChart';
+import AssignmentRenewal, { type RenewalMode } from '../components/AssignmentRenewal';
+
+const EXPIRING_EXPORT_COLUMNS: ExportColumn<ExpiringMembership>[] = [
+  { header: 'Assignment ID', value: m => m.assignmentId },
+  { header: 'Member User ID', value: m => m.userId },
+  { header: 'Member Name', value: m => m.userName },
+  { header: 'Plan Name', value: m => m.planName },
+  { header: 'End Date', value: m => m.endDate, type: 'date' },
+];
+
+const EXPIRING_WINDOW_DAYS = 7;
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#AF19FF', '#FF0054']; // For pie chart colors
 
 const DashboardPage: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canViewRevenue = hasRole(ACCESS.viewRevenue);
+  const canAssignPlans = hasRole(ACCESS.assignPlans);
   const [summary, setSummary] = useState<DashboardSummary | null>(null);
   const [planDistributionData, setPlanDistributionData] = useState<any[]>([]); // Formatted for Recharts PieChart
-  const [attendanceChartData, setAttendanceChartData] = useState<any[]>([]); // Formatted for Recharts LineChart
-  // UPDATED: Use the new interface for expiringMemberships state
-  const [expiringMemberships, setExpiringMemberships] = useState<ExpiringMembershipDisplay[]>([]);
+  const [expiringMemberships, setExpiringMemberships] = useState<ExpiringMembership[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [renewing, setRenewing] = useState<{ membership: ExpiringMembership; mode: RenewalMode } | null>(null);
+  const [renewed, setRenewed] = useState<Map<number, PlanAssignment>>(new Map()); // Expiring assignmentId -> follow-on assignment
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -46,48 +42,16 @@ const DashboardPage: React.FC = () => {
         setLoading(true);
 
         // Fetch Summary Data
-        const summaryRes = await axiosInstance.get<DashboardSummary>('/dashboard/summary');
-        setSummary(summaryRes.data);
+        setSummary(await dashboardApi.getSummary());
 
         // Fetch Plan Distribution
-        const planDistRes = await axiosInstance.get<PlanDistribution>('/dashboard/plan-distribution');
+        const planDistribution = await dashboardApi.getPlanDistribution();
         // Transform object to array of { name: 'Plan Name', value: count } for PieChart
-        const formattedPlanData = Object.entries(planDistRes.data).map(([name, value]) => ({ name, value }));
+        const formattedPlanData = Object.entries(planDistribution).map(([name, value]) => ({ name, value }));
         setPlanDistributionData(formattedPlanData);
 
-        // Fetch Daily Attendance for last 7 days (adjust range as needed)
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(endDate.getDate() - 6); // Last 7 days including today
-
-        const formatDateForApi = (date: Date) => format(date, 'yyyy-MM-dd'); // Use date-fns for consistency
-        const attendanceRes = await axiosInstance.get<DailyAttendance>(`/dashboard/daily-attendance-chart`, {
-          params: {
-            startDate: formatDateForApi(startDate),
-            endDate: formatDateForApi(endDate),
-          },
-        });
-
-        // Transform attendance data for LineChart
-        // Ensure all dates in range are present, even with 0 attendance
-        const dailyDataMap: { [key: string]: number } = {};
-        for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-          dailyDataMap[formatDateForApi(d)] = 0; // Initialize with 0
-        }
-        Object.entries(attendanceRes.data).forEach(([date, count]) => {
-          dailyDataMap[date] = count;
-        });
-        const formattedAttendanceData = Object.entries(dailyDataMap)
-          .sort(([dateA], [dateB]) => dateA.localeCompare(dateB)) // Sort by date
-          .map(([date, count]) => ({ date, count }));
-        setAttendanceChartData(formattedAttendanceData);
-
-
-        // Fetch Expiring Memberships (next 7 days) - now expects ExpiringMembershipDisplay
-        const expiringRes = await axiosInstance.get<ExpiringMembershipDisplay[]>('/dashboard/expiring-memberships', {
-          params: { days: 7 },
-        });
-        setExpiringMemberships(expiringRes.data);
+        // Fetch Expiring Memberships
+        setExpiringMemberships(await dashboardApi.getExpiringMemberships(EXPIRING_WINDOW_DAYS));
 
       } catch (err: any) {
         console.error('Failed to fetch dashboard data:', err);
@@ -100,6 +64,11 @@ const DashboardPage: React.FC = () => {
     fetchDashboardData();
   }, []); // Empty dependency array means this runs once on mount
 
+  const handleRenewed = (assignment: PlanAssignment) => {
+    if (renewing) setRenewed(new Map(renewed).set(renewing.membership.assignmentId, assignment));
+    setRenewing(null);
+  };
+
   if (loading) {
     return <div className="p-6 text-center text-gray-600">Loading dashboard data...</div>;
   }
@@ -122,28 +91,15 @@ const DashboardPage: React.FC = () => {
           <p className="text-5xl font-extrabold text-green-900 mt-2">{summary?.totalTrainers ?? 0}</p>
         </div>
         <div className="bg-yellow-100 p-6 rounded-lg shadow flex flex-col items-center justify-center">
-          <h3 className="text-xl font-semibold text-yellow-800">Memberships Expiring (7 Days)</h3>
+          <h3 className="text-xl font-semibold text-yellow-800">Memberships Expiring ({EXPIRING_WINDOW_DAYS} Days)</h3>
           <p className="text-5xl font-extrabold text-yellow-900 mt-2">{expiringMemberships.length}</p>
         </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         <div className="bg-white p-6 rounded-lg shadow-md">
-          <h3 className="text-xl font-semibold text-gray-800 mb-4">Daily Attendance Last 7 Days</h3>
-          {attendanceChartData.length > 0 ? (
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={attendanceChartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
-                <XAxis dataKey="date" />
-                <YAxis allowDecimals={false} />
-                <Tooltip />
-                <Legend />
-                <Line type="monotone" dataKey="count" stroke="#8884d8" activeDot={{ r: 8 }} name="Check-ins" />
-              </LineChart>
-            </ResponsiveContainer>
-          ) : (
-            <p className="text-gray-500 text-center">No attendance data for the last 7 days.</p>
-          )}
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">Attendance Trend</h3>
+          <AttendanceTrendChart />
         </div>
 
         <div className="bg-white p-6 rounded-lg shadow-md">
@@ -175,8 +131,24 @@ const DashboardPage: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+        <h3 className="text-xl font-semibold text-gray-800 mb-4">Peak Hours</h3>
+        <PeakHoursChart />
+      </div>
+
+      {canViewRevenue && (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">Revenue</h3>
+          <RevenueAnalytics expiringMemberships={expiringMemberships} expiringDays={EXPIRING_WINDOW_DAYS} />
+        </div>
+      )}
+
       <div className="bg-white p-6 rounded-lg shadow-md">
-        <h3 className="text-xl font-semibold text-gray-800 mb-4">Memberships Expiring Soon</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-gray-800">Memberships Expiring Soon</h3>
+          <ExportButton disabled={expiringMemberships.length === 0}
+                        onExport={(exportFormat) => exportRows(expiringMemberships, EXPIRING_EXPORT_COLUMNS, 'expiring-memberships', exportFormat)} />
+        </div>
         {expiringMemberships.length > 0 ? (
           <div className="overflow-x-auto">
             <table className="min-w-full bg-white border border-gray-200">
@@ -185,23 +157,50 @@ const DashboardPage: React.FC = () => {
                   <th className="py-2 px-4 border-b text-left text-gray-600 font-semibold">Member Name</th>
                   <th className="py-2 px-4 border-b text-left text-gray-600 font-semibold">Plan Name</th>
                   <th className="py-2 px-4 border-b text-left text-gray-600 font-semibold">End Date</th>
+                  {canAssignPlans && <th className="py-2 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>}
                 </tr>
               </thead>
               <tbody>
-                {expiringMemberships.map((membership) => (
-                  <tr key={membership.assignmentId} className="hover:bg-gray-50">
-                    <td className="py-2 px-4 border-b text-gray-700">{membership.userName}</td> {/* UPDATED */}
-                    <td className="py-2 px-4 border-b text-gray-700">{membership.planName}</td> {/* UPDATED */}
-                    <td className="py-2 px-4 border-b text-gray-700">{membership.endDate}</td>
-                  </tr>
-                ))}
+                {expiringMemberships.map((membership) => {
+                  const followOn = renewed.get(membership.assignmentId);
+                  return (
+                    <tr key={membership.assignmentId} className="hover:bg-gray-50">
+                      <td className="py-2 px-4 border-b text-gray-700">
+                        {membership.userId ? (
+                          <Link to={`/users/${membership.userId}`} className="text-blue-600 hover:underline">{membership.userName}</Link>
+                        ) : membership.userName}
+                      </td>
+                      <td className="py-2 px-4 border-b text-gray-700">{membership.planName}</td> {/* UPDATED */}
+                      <td className="py-2 px-4 border-b text-gray-700">{membership.endDate}</td>
+                      {canAssignPlans && (
+                        <td className="py-2 px-4 border-b">
+                          {followOn ? (
+                            <span className="text-green-700 text-sm">Renewed: {followOn.planName} until {followOn.endDate}</span>
+                          ) : membership.userId && (
+                            <>
+                              <button onClick={() => setRenewing({ membership, mode: 'renew' })}
+                                      className="bg-purple-500 hover:bg-purple-600 text-white text-sm py-1 px-3 rounded-md mr-2">Renew</button>
+                              <button onClick={() => setRenewing({ membership, mode: 'change' })}
+                                      className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md">Change Plan</button>
+                            </>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         ) : (
-          <p className="text-gray-500 text-center">No memberships expiring in the next 7 days.</p>
+          <p className="text-gray-500 text-center">No memberships expiring in the next {EXPIRING_WINDOW_DAYS} days.</p>
         )}
       </div>
+
+      {renewing && (
+        <AssignmentRenewal source={renewing.membership} mode={renewing.mode}
+                           onClose={() => setRenewing(null)} onAssigned={handleRenewed} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,333 @@
+// src/pages/KioskPage.tsx
+// Self-service check-in for a tablet at the entrance. Staff start it with an exit PIN, which swaps
+// their session for a kiosk session that the backend only lets check members in.
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { apiErrorMessage, attendanceApi, authApi } from '../api';
+import { useAuth } from '../context/AuthContext';
+import { ACCESS, extractRolesFromClaims, type Role } from '../utils/roles';
+import { decodeJwtPayload } from '../utils/jwt';
+import { isNetworkError } from '../utils/checkInQueue';
+import QrScanner from '../components/QrScanner';
+
+interface KioskResult {
+  success: boolean;
+  title: string;
+  detail: string;
+}
+
+const RESULT_DISPLAY_MS = 5000; // Then back to idle for the next member
+const SCAN_DEBOUNCE_MS = 5000; // Ignore repeat scans of the same code within this window
+const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_PAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'Clear', '0', 'Back'];
+const KIOSK_ROLES: Role[] = ['KIOSK']; // Whatever the login response says, a kiosk session gets nothing else
+const MAX_UNLOCK_ATTEMPTS = 5; // Wrong exit PINs before the PIN pad locks
+const UNLOCK_LOCKOUT_MS = 60 * 1000;
+const UNLOCK_LOCK_KEY = 'kioskUnlockLock:v1';
+
+// Wrong exit PINs on this device, kept in localStorage so reloading the page doesn't reset the count
+interface UnlockLock {
+  failures: number;
+  lockedUntil: number | null; // ms since epoch
+}
+
+const NO_UNLOCK_LOCK: UnlockLock = { failures: 0, lockedUntil: null };
+
+const readUnlockLock = (): UnlockLock => {
+  try {
+    return { ...NO_UNLOCK_LOCK, ...JSON.parse(localStorage.getItem(UNLOCK_LOCK_KEY) || '{}') };
+  } catch {
+    return NO_UNLOCK_LOCK;
+  }
+};
+
+// Not every tablet browser allows it; the kiosk still works in a normal window
+const enterFullscreen = () => {
+  if (document.fullscreenEnabled && !document.fullscreenElement) {
+    document.documentElement.requestFullscreen().catch(() => undefined);
+  }
+};
+
+const exitFullscreen = () => {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(() => undefined);
+  }
+};
+
+const checkInErrorMessage = (err: unknown): string => {
+  if (isNetworkError(err)) return 'No connection. Please see the front desk.';
+  if (isAxiosError(err) && err.response?.status === 404) return 'Member ID not recognised. Please see the front desk.';
+  return apiErrorMessage(err, 'Check-in failed. Please see the front desk.');
+};
+
+// Staff choose the exit PIN and hand the device over
+const KioskSetup: React.FC = () => {
+  const { login } = useAuth();
+  const [pin, setPin] = useState<string>('');
+  const [confirmPin, setConfirmPin] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState<boolean>(false);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(pin)) {
+      setError('The PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('The PINs do not match.');
+      return;
+    }
+    setError(null);
+    setStarting(true);
+    try {
+      const { token, username } = await authApi.startKioskSession(pin);
+      // Never fall back to the default staff role here: the device is left with members
+      if (!token || extractRolesFromClaims(decodeJwtPayload(token)).some(role => role !== 'KIOSK')) {
+        setError('The server did not return a kiosk session.');
+        return;
+      }
+      login(token, username || 'kiosk', KIOSK_ROLES);
+      enterFullscreen();
+    } catch (err) {
+      console.error('Failed to start kiosk mode:', err);
+      setError(apiErrorMessage(err, 'Failed to start kiosk mode.'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-6">
+      <form onSubmit={handleStart} className="bg-gray-800 rounded-lg shadow-lg p-8 w-full max-w-md">
+        <h1 className="text-3xl font-bold mb-2">Start Kiosk Mode</h1>
+        <p className="text-gray-300 mb-6">
+          This device will only check members in. Starting kiosk mode signs you out; the PIN is needed to leave it.
+        </p>
+        <label htmlFor="kioskPin" className="block text-sm font-medium text-gray-300 mb-1">Exit PIN (4-8 digits):</label>
+        <input type="password" id="kioskPin" inputMode="numeric" autoComplete="off" value={pin}
+               onChange={(e) => setPin(e.target.value)} required
+               className="mb-4 block w-full rounded-md p-3 text-2xl text-gray-900" />
+        <label htmlFor="kioskPinConfirm" className="block text-sm font-medium text-gray-300 mb-1">Confirm PIN:</label>
+        <input type="password" id="kioskPinConfirm" inputMode="numeric" autoComplete="off" value={confirmPin}
+               onChange={(e) => setConfirmPin(e.target.value)} required
+               className="mb-4 block w-full rounded-md p-3 text-2xl text-gray-900" />
+        {error && <p className="text-red-400 mb-4">{error}</p>}
+        <div className="flex gap-3">
+          <button type="submit" disabled={starting}
+                  className="flex-grow bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white text-xl font-bold py-3 px-4 rounded-md">
+            {starting ? 'Starting...' : 'Start Kiosk'}
+          </button>
+          <Link to="/attendance" className="bg-gray-600 hover:bg-gray-500 text-white text-xl font-bold py-3 px-4 rounded-md">
+            Back
+          </Link>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// The member-facing screen, shown for as long as the kiosk session lasts
+const KioskScreen: React.FC = () => {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<'scan' | 'type'>('scan');
+  const [memberId, setMemberId] = useState<string>('');
+  const [working, setWorking] = useState<boolean>(false);
+  const [result, setResult] = useState<KioskResult | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  const [unlockOpen, setUnlockOpen] = useState<boolean>(false);
+  const [pin, setPin] = useState<string>('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+  const [unlockLock, setUnlockLock] = useState<UnlockLock>(readUnlockLock);
+  const lockedOut = unlockLock.lockedUntil !== null && unlockLock.lockedUntil > Date.now();
+
+  const updateUnlockLock = (lock: UnlockLock) => {
+    if (lock.failures === 0 && lock.lockedUntil === null) localStorage.removeItem(UNLOCK_LOCK_KEY);
+    else localStorage.setItem(UNLOCK_LOCK_KEY, JSON.stringify(lock));
+    setUnlockLock(lock);
+  };
+
+  // Unlock the PIN pad again once the lockout ends
+  useEffect(() => {
+    if (unlockLock.lockedUntil === null) return;
+    const timer = setTimeout(() => {
+      localStorage.removeItem(UNLOCK_LOCK_KEY);
+      setUnlockLock(NO_UNLOCK_LOCK);
+      setUnlockError(null);
+    }, Math.max(0, unlockLock.lockedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [unlockLock.lockedUntil]);
+
+  // Return to idle after each check-in
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => setResult(null), RESULT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  const checkIn = async (userId: string) => {
+    setWorking(true);
+    try {
+      const record = await attendanceApi.checkIn(userId, {}, { silentErrors: true }); // The kiosk screen shows its own result
+      setResult({
+        success: true,
+        title: `Welcome, ${record.userName}!`,
+        detail: `Checked in at ${format(new Date(record.checkInTime), 'HH:mm')}`,
+      });
+    } catch (err) {
+      console.error('Kiosk check-in failed:', err);
+      setResult({ success: false, title: 'Check-in Failed', detail: checkInErrorMessage(err) });
+    } finally {
+      setWorking(false);
+      setMemberId('');
+    }
+  };
+
+  const handleScan = (code: string) => {
+    if (!code || working || result || unlockOpen) return;
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.code === code && now - last.at < SCAN_DEBOUNCE_MS) {
+      return; // Same card still in front of the camera
+    }
+    lastScanRef.current = { code, at: now };
+    checkIn(code);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (memberId.trim() && !working) {
+      checkIn(memberId.trim());
+    }
+  };
+
+  const handlePinKey = (key: string) => {
+    setUnlockError(null);
+    if (key === 'Clear') setPin('');
+    else if (key === 'Back') setPin(pin.slice(0, -1));
+    else if (pin.length < 8) setPin(pin + key);
+  };
+
+  const closeUnlock = () => {
+    setUnlockOpen(false);
+    setPin('');
+    setUnlockError(null);
+  };
+
+  const handleUnlock = async () => {
+    if (lockedOut) return;
+    setUnlocking(true);
+    try {
+      await authApi.unlockKioskSession(pin);
+      updateUnlockLock(NO_UNLOCK_LOCK);
+      exitFullscreen();
+      navigate('/login', { replace: true });
+      logout();
+    } catch (err) {
+      console.error('Kiosk unlock failed:', err);
+      const status = isAxiosError(err) ? err.response?.status : undefined;
+      const failures = unlockLock.failures + 1;
+      if (status === 429 || (status === 403 && failures >= MAX_UNLOCK_ATTEMPTS)) {
+        // The backend limits attempts too; lock locally either way so the pad can't be hammered
+        updateUnlockLock({ failures: 0, lockedUntil: Date.now() + UNLOCK_LOCKOUT_MS });
+      } else if (status === 403) {
+        updateUnlockLock({ ...unlockLock, failures });
+        setUnlockError(`Incorrect PIN. ${MAX_UNLOCK_ATTEMPTS - failures} attempt(s) left.`);
+      } else {
+        setUnlockError('Could not verify the PIN. Check the connection.');
+      }
+      setPin('');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 text-white flex flex-col items-center justify-center p-8 select-none">
+      <button onClick={() => setUnlockOpen(true)} className="absolute top-4 right-4 text-gray-500 hover:text-gray-300 text-sm py-2 px-3">
+        Staff
+      </button>
+
+      <h1 className="text-5xl font-extrabold text-teal-400 mb-8">Gym Central</h1>
+
+      {result ? (
+        <div className={`w-full max-w-2xl rounded-lg p-10 text-center ${result.success ? 'bg-green-600' : 'bg-red-600'}`}>
+          <p className="text-5xl font-extrabold">{result.title}</p>
+          <p className="text-2xl mt-4">{result.detail}</p>
+        </div>
+      ) : (
+        <div className="w-full max-w-2xl">
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <button onClick={() => setMode('scan')}
+                    className={`text-2xl font-bold py-5 rounded-lg ${mode === 'scan' ? 'bg-teal-500 text-white' : 'bg-gray-700 text-gray-300'}`}>
+              Scan Card
+            </button>
+            <button onClick={() => setMode('type')}
+                    className={`text-2xl font-bold py-5 rounded-lg ${mode === 'type' ? 'bg-teal-500 text-white' : 'bg-gray-700 text-gray-300'}`}>
+              Enter Member ID
+            </button>
+          </div>
+
+          {mode === 'scan' ? (
+            <div className="bg-white rounded-lg p-4 text-gray-900">
+              <QrScanner onScan={handleScan} boxSize={300} />
+              <p className="text-center text-xl mt-2">{working ? 'Checking in...' : 'Hold your membership card up to the camera.'}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+              <input type="text" value={memberId} onChange={(e) => setMemberId(e.target.value)} autoFocus autoComplete="off"
+                     placeholder="Member ID" aria-label="Member ID"
+                     className="w-full rounded-lg p-5 text-3xl text-gray-900" />
+              <button type="submit" disabled={working || !memberId.trim()}
+                      className="bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white text-3xl font-bold py-5 rounded-lg">
+                {working ? 'Checking In...' : 'Check In'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {/* Staff PIN pad to leave kiosk mode */}
+      {unlockOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-sm">
+            <h2 className="text-2xl font-bold mb-4 text-center">Staff PIN</h2>
+            <p className="text-4xl tracking-widest text-center h-12 mb-2">{'•'.repeat(pin.length)}</p>
+            {lockedOut ? (
+              <p className="text-red-400 text-center mb-2">Too many incorrect PINs. Try again in a minute.</p>
+            ) : unlockError && <p className="text-red-400 text-center mb-2">{unlockError}</p>}
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              {PIN_PAD_KEYS.map(key => (
+                <button key={key} onClick={() => handlePinKey(key)}
+                        className={`${/\d/.test(key) ? 'text-3xl' : 'text-lg'} font-bold py-4 rounded-lg bg-gray-700 hover:bg-gray-600`}>
+                  {key}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button onClick={handleUnlock} disabled={unlocking || lockedOut || !PIN_PATTERN.test(pin)}
+                      className="flex-grow bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xl font-bold py-3 rounded-lg">
+                {unlocking ? 'Checking...' : 'Exit Kiosk'}
+              </button>
+              <button onClick={closeUnlock} className="flex-grow bg-gray-600 hover:bg-gray-500 text-white text-xl font-bold py-3 rounded-lg">
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const KioskPage: React.FC = () => {
+  const { hasRole } = useAuth();
+  return hasRole(ACCESS.useKiosk) ? <KioskScreen /> : <KioskSetup />;
+};
+
+export default KioskPage;
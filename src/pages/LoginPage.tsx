@@ -1,8 +1,9 @@
 // src/pages/LoginPage.tsx
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation, type Location } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import axiosInstance from '../api/axiosConfig'; // Import your configured Axios instance
+import { authApi } from '../api';
+import { normalizeRoles } from '../utils/roles';
 
 const LoginPage: React.FC = () => {
   const [username, setUsername] = useState<string>('');
@@ -10,8 +11,12 @@ const LoginPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false); // For loading state
 
-  const { login } = useAuth(); // Get the login function from AuthContext
+  const { login, logoutReason } = useAuth(); // Get the login function from AuthContext
   const navigate = useNavigate(); // Hook to navigate programmatically
+  const location = useLocation();
+  // Route the user was on before being sent to login (set by PrivateRoute)
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/dashboard';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault(); // Prevent default form submission behavior (page reload)
@@ -19,16 +24,11 @@ const LoginPage: React.FC = () => {
     setLoading(true); // Set loading state
 
     try {
-      const response = await axiosInstance.post('/auth/login', {
-        username,
-        password,
-      });
-
-      const { token, username: loggedInUsername, message } = response.data;
+      const { token, username: loggedInUsername, message, role, roles } = await authApi.login({ username, password });
 
       if (token) {
-        login(token, loggedInUsername); // Update authentication state
-        navigate('/dashboard'); // Redirect to dashboard on successful login
+        login(token, loggedInUsername || username, normalizeRoles(roles ?? role)); // Update authentication state
+        navigate(redirectTo, { replace: true }); // Return to the previous page, or the dashboard
       } else {
         setError(message || 'Login failed. Please check your credentials.');
       }
@@ -78,6 +78,10 @@ const LoginPage: React.FC = () => {
             />
           </div>
 
+          {logoutReason === 'expired' && !error && (
+            <p className="text-yellow-700 bg-yellow-100 rounded p-2 text-sm mb-4 text-center">Your session has expired. Please log in again.</p>
+          )}
+
           {error && (
             <p className="text-red-500 text-xs italic mb-4 text-center">{error}</p>
           )}
@@ -0,0 +1,430 @@
+// src/pages/MemberDetailPage.tsx
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { differenceInCalendarWeeks, format, startOfWeek, subDays, subWeeks } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  usersApi, assignmentsApi, attendanceApi, plansApi, sessionsApi, reportApiError,
+  type AttendanceRecord, type MembershipPlan, type PlanAssignment, type TrainingSession, type User, type UserPayload,
+} from '../api';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { ACCESS } from '../utils/roles';
+import { ASSIGNMENT_STATUS_COLORS, ASSIGNMENT_STATUS_LABELS, getAssignmentStatus } from '../utils/assignments';
+import { pastSessions, upcomingSessions } from '../utils/sessions';
+import { evaluateCheckIn, needsReview, type CheckInEvaluation } from '../utils/checkInValidation';
+import { serverFieldErrors } from '../utils/formValidation';
+import { MEMBER_FIELDS, type MemberFormValues } from '../utils/formSchemas';
+import MemberForm from '../components/MemberForm';
+import MemberStatusCard from '../components/MemberStatusCard';
+import CheckInReviewActions from '../components/CheckInReviewActions';
+import SessionBookingDialog from '../components/SessionBookingDialog';
+import SessionTable from '../components/SessionTable';
+
+const FREQUENCY_WEEKS = 12; // Weeks shown in the visit frequency chart
+
+const MemberDetailPage: React.FC = () => {
+  const { userId = '' } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const { notify } = useNotifications();
+
+  const [member, setMember] = useState<User | null>(null);
+  const [assignments, setAssignments] = useState<PlanAssignment[]>([]);
+  const [visits, setVisits] = useState<AttendanceRecord[]>([]);
+  const [visitsFailed, setVisitsFailed] = useState<boolean>(false); // Check-ins can't rule out a second visit today
+  const [sessions, setSessions] = useState<TrainingSession[]>([]);
+  const [showBooking, setShowBooking] = useState<boolean>(false);
+  const [checkInReview, setCheckInReview] = useState<CheckInEvaluation | null>(null); // Waiting for staff to confirm or override
+  const [checkingIn, setCheckingIn] = useState<boolean>(false);
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [showEditForm, setShowEditForm] = useState<boolean>(false);
+  const [showAssignForm, setShowAssignForm] = useState<boolean>(false);
+  const [assignFormData, setAssignFormData] = useState({ planId: '', startDate: format(new Date(), 'yyyy-MM-dd') });
+
+  // Section loads are silent: their failures are listed in the page's own error line
+  const fetchAssignments = useCallback(async () => {
+    const data = await assignmentsApi.listForUser(userId, { silentErrors: true });
+    setAssignments([...data].sort((a, b) => b.startDate.localeCompare(a.startDate)));
+  }, [userId]);
+
+  // There is no per-member attendance endpoint, so filter the full log
+  const fetchVisits = useCallback(async () => {
+    try {
+      const all = await attendanceApi.listAll({ silentErrors: true });
+      setVisits(all.filter(r => r.userId === userId).sort((a, b) => b.checkInTime.localeCompare(a.checkInTime)));
+      setVisitsFailed(false);
+    } catch (err) {
+      setVisitsFailed(true);
+      throw err;
+    }
+  }, [userId]);
+
+  const fetchSessions = useCallback(async () => {
+    setSessions(await sessionsApi.list({ userId }, { silentErrors: true }));
+  }, [userId]);
+
+  useEffect(() => {
+    const loadMember = async () => {
+      try {
+        setLoading(true);
+        setMember(await usersApi.get(userId, { silentErrors: true }));
+        // Each section loads on its own, so one failing call doesn't hide the rest of the page
+        const sections = [
+          { label: 'plan history', load: fetchAssignments },
+          { label: 'visits', load: fetchVisits },
+          { label: 'PT sessions', load: fetchSessions },
+        ];
+        const results = await Promise.allSettled(sections.map(section => section.load()));
+        const failed = sections.filter((_, index) => results[index].status === 'rejected');
+        results.forEach(result => {
+          if (result.status === 'rejected') console.error('Failed to load member section:', result.reason);
+        });
+        setError(failed.length > 0 ? `Could not load ${failed.map(section => section.label).join(', ')}.` : null);
+      } catch (err) {
+        console.error('Failed to load member:', err);
+        setError('Failed to load member details.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadMember();
+  }, [userId, fetchAssignments, fetchVisits, fetchSessions]);
+
+  useEffect(() => {
+    if (showAssignForm && plans.length === 0) {
+      plansApi.list().then(setPlans).catch(err => console.error('Failed to fetch plans:', err));
+    }
+  }, [showAssignForm, plans.length]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const currentAssignment = assignments.find(a => ['active', 'frozen'].includes(getAssignmentStatus(a, today)));
+  const canBookSessions = hasRole(ACCESS.bookSessions);
+  const upcoming = upcomingSessions(sessions, new Date());
+  const past = pastSessions(sessions, new Date());
+
+  const frequency = useMemo(() => {
+    const now = new Date();
+    const last30 = visits.filter(v => new Date(v.checkInTime) >= subDays(now, 30)).length;
+    const firstWeek = startOfWeek(subWeeks(now, FREQUENCY_WEEKS - 1), { weekStartsOn: 1 });
+    const weeks = Array.from({ length: FREQUENCY_WEEKS }, (_, i) => ({
+      week: format(startOfWeek(subWeeks(now, FREQUENCY_WEEKS - 1 - i), { weekStartsOn: 1 }), 'MMM d'),
+      visits: 0,
+    }));
+    visits.forEach(v => {
+      const checkIn = new Date(v.checkInTime);
+      if (checkIn < firstWeek) return;
+      const index = differenceInCalendarWeeks(checkIn, firstWeek, { weekStartsOn: 1 });
+      if (weeks[index]) weeks[index].visits += 1;
+    });
+    const weeklyAverage = weeks.reduce((sum, w) => sum + w.visits, 0) / FREQUENCY_WEEKS;
+    return { last30, weeklyAverage, weeks, lastVisit: visits[0]?.checkInTime ?? null };
+  }, [visits]);
+
+  // The override reason is stored with the visit when staff let a blocked member in
+  const submitCheckIn = async (reason?: string) => {
+    setCheckingIn(true);
+    try {
+      const record = await attendanceApi.checkIn(userId, reason ? { overrideReason: reason } : {});
+      setCheckInReview(null);
+      notify('success', `${record.userName || member?.name} checked in at ${format(new Date(record.checkInTime), 'HH:mm:ss')}.`);
+      fetchVisits().catch(err => console.error('Failed to refresh visits:', err));
+    } catch (err) {
+      console.error('Check-in failed:', err);
+      reportApiError(err);
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  // Same membership checks as the Attendance page; anything needing a decision waits in the status card
+  const handleCheckIn = () => {
+    if (!member) return;
+    const evaluation = evaluateCheckIn(member, assignments, visitsFailed ? null : visits);
+    if (needsReview(evaluation)) {
+      setCheckInReview(evaluation);
+      return;
+    }
+    submitCheckIn();
+  };
+
+  const handleSessionChanged = (session: TrainingSession) =>
+    setSessions(sessions.map(s => (s.sessionId === session.sessionId ? session : s)));
+
+  const handleSessionBooked = (session: TrainingSession) => {
+    setSessions([...sessions, session]);
+    setShowBooking(false);
+    notify('success', `PT session booked with ${session.trainerName} on ${format(new Date(session.startTime), 'dd MMM HH:mm')}.`);
+  };
+
+  const handleEditSubmit = async (payload: UserPayload) => {
+    setSaving(true);
+    try {
+      setMember(await usersApi.update(userId, payload));
+      setShowEditForm(false);
+      notify('success', `${payload.name} was updated.`);
+    } catch (err) {
+      console.error('Failed to save user:', err);
+      reportApiError(err);
+      return serverFieldErrors<MemberFormValues>(err, MEMBER_FIELDS);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssignSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await assignmentsApi.assign({ userId, planId: parseInt(assignFormData.planId), startDate: assignFormData.startDate });
+      setShowAssignForm(false);
+      setAssignFormData({ planId: '', startDate: format(new Date(), 'yyyy-MM-dd') });
+      await fetchAssignments();
+      setMember(await usersApi.get(userId)); // Membership status may have changed
+      notify('success', 'Plan assigned.');
+    } catch (err) {
+      console.error('Failed to assign plan:', err);
+      reportApiError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!member || !window.confirm(`Are you sure you want to delete ${member.name}?`)) return;
+    try {
+      await usersApi.remove(userId);
+      notify('success', `${member.name} was deleted.`);
+      navigate('/users');
+    } catch (err) {
+      console.error('Failed to delete user:', err);
+      reportApiError(err);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-center text-gray-600">Loading member...</div>;
+  }
+
+  if (!member) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow-md text-center">
+        <p className="text-red-600 mb-4">{error || 'Member not found.'}</p>
+        <Link to="/users" className="text-blue-600 hover:underline">Back to Members</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md">
+      <Link to="/users" className="text-sm text-blue-600 hover:underline">&larr; Back to Members</Link>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mt-2 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">{member.name}</h1>
+          <p className="text-sm text-gray-500 break-all">{member.userId}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {hasRole(ACCESS.checkIn) && (
+            <button onClick={handleCheckIn} disabled={checkingIn}
+                    className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">Check In</button>
+          )}
+          {hasRole(ACCESS.assignPlans) && (
+            <button onClick={() => { setShowAssignForm(!showAssignForm); setShowEditForm(false); }}
+                    className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">Assign Plan</button>
+          )}
+          {canBookSessions && (
+            <button onClick={() => setShowBooking(true)}
+                    className="bg-teal-500 hover:bg-teal-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">Book PT Session</button>
+          )}
+          {hasRole(ACCESS.editMembers) && (
+            <button onClick={() => { setShowEditForm(!showEditForm); setShowAssignForm(false); }}
+                    className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">Edit</button>
+          )}
+          {hasRole(ACCESS.deleteMembers) && (
+            <button onClick={handleDelete}
+                    className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">Delete</button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 text-center mb-4">{error}</p>}
+
+      {checkInReview && (
+        <MemberStatusCard member={member} evaluation={checkInReview}>
+          <CheckInReviewActions
+            evaluation={checkInReview}
+            canOverride={hasRole(ACCESS.overrideCheckIn)}
+            submitting={checkingIn}
+            onCheckIn={submitCheckIn}
+            onCancel={() => setCheckInReview(null)}
+          />
+        </MemberStatusCard>
+      )}
+
+      {showEditForm && (
+        <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Edit Member</h2>
+          <MemberForm editingUser={member} saving={saving} onSubmit={handleEditSubmit} onCancel={() => setShowEditForm(false)} />
+        </div>
+      )}
+
+      {showAssignForm && (
+        <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Assign Plan</h2>
+          <form onSubmit={handleAssignSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label htmlFor="planId" className="block text-sm font-medium text-gray-700">Select Plan:</label>
+              <select id="planId" value={assignFormData.planId} onChange={(e) => setAssignFormData({ ...assignFormData, planId: e.target.value })} required
+                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                <option value="">-- Select a Plan --</option>
+                {plans.map(plan => (
+                  <option key={plan.planId} value={plan.planId}>{plan.planName} (${plan.price} / {plan.durationMonths}mo)</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">Start Date:</label>
+              <input type="date" id="startDate" value={assignFormData.startDate} onChange={(e) => setAssignFormData({ ...assignFormData, startDate: e.target.value })} required
+                     className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+            </div>
+            <button type="submit" disabled={saving}
+                    className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out h-10">
+              {saving ? 'Assigning...' : 'Assign Plan'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Profile */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="bg-gray-50 p-4 rounded-lg shadow-inner md:col-span-2">
+          <h2 className="text-xl font-semibold text-gray-800 mb-3">Profile</h2>
+          <dl className="grid grid-cols-2 gap-y-2 text-gray-700">
+            <dt className="font-medium">Age</dt><dd>{member.age}</dd>
+            <dt className="font-medium">Gender</dt><dd>{member.gender}</dd>
+            <dt className="font-medium">Contact</dt><dd>{member.contactNumber}</dd>
+            <dt className="font-medium">Joining Date</dt><dd>{member.joiningDate}</dd>
+            <dt className="font-medium">Status</dt>
+            <dd className={`font-semibold ${member.membershipStatus === 'Active' ? 'text-green-600' : member.membershipStatus === 'Expired' ? 'text-red-600' : 'text-yellow-600'}`}>
+              {member.membershipStatus}
+            </dd>
+            <dt className="font-medium">Current Plan</dt>
+            <dd>
+              {currentAssignment ? `${currentAssignment.planName} (until ${currentAssignment.endDate})` : 'None'}
+              {currentAssignment && getAssignmentStatus(currentAssignment, today) === 'frozen' && ' - frozen'}
+            </dd>
+          </dl>
+        </div>
+        <div className="bg-blue-100 p-4 rounded-lg shadow flex flex-col items-center justify-center">
+          <h3 className="text-lg font-semibold text-blue-800">Visits (30 Days)</h3>
+          <p className="text-4xl font-extrabold text-blue-900 mt-2">{frequency.last30}</p>
+        </div>
+        <div className="bg-green-100 p-4 rounded-lg shadow flex flex-col items-center justify-center">
+          <h3 className="text-lg font-semibold text-green-800">Avg Visits / Week</h3>
+          <p className="text-4xl font-extrabold text-green-900 mt-2">{frequency.weeklyAverage.toFixed(1)}</p>
+          <p className="text-sm text-green-800 mt-1">
+            Last visit: {frequency.lastVisit ? format(new Date(frequency.lastVisit), 'yyyy-MM-dd HH:mm') : 'Never'}
+          </p>
+        </div>
+      </div>
+
+      {/* Visit frequency */}
+      <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+        <h3 className="text-xl font-semibold text-gray-800 mb-4">Weekly Visits (Last {FREQUENCY_WEEKS} Weeks)</h3>
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={frequency.weeks}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis dataKey="week" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Bar dataKey="visits" fill="#14b8a6" name="Visits" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Plan history */}
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4">Plan History</h2>
+      <div className="overflow-x-auto mb-8">
+        {assignments.length === 0 ? (
+          <p className="text-center text-gray-500">No plans assigned yet.</p>
+        ) : (
+          <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Assignment ID</th>
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Plan Name</th>
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Start Date</th>
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">End Date</th>
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assignments.map((assignment) => {
+                const status = getAssignmentStatus(assignment, today);
+                return (
+                  <tr key={assignment.assignmentId} className="border-b hover:bg-gray-50">
+                    <td className="py-3 px-4 text-gray-700 text-sm">{assignment.assignmentId}</td>
+                    <td className="py-3 px-4 text-gray-700">{assignment.planName}</td>
+                    <td className="py-3 px-4 text-gray-700">{assignment.startDate}</td>
+                    <td className="py-3 px-4 text-gray-700">{assignment.endDate}</td>
+                    <td className={`py-3 px-4 font-semibold ${ASSIGNMENT_STATUS_COLORS[status]}`}>{ASSIGNMENT_STATUS_LABELS[status]}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Personal training */}
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4">Upcoming PT Sessions</h2>
+      <div className="mb-8">
+        <SessionTable sessions={upcoming} counterpart="trainer" canManage={canBookSessions}
+                      onChanged={handleSessionChanged} emptyMessage="No upcoming sessions booked." />
+      </div>
+      {past.length > 0 && (
+        <>
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Past PT Sessions</h2>
+          <div className="mb-8 max-h-96 overflow-y-auto">
+            <SessionTable sessions={past} counterpart="trainer" canManage={canBookSessions}
+                          onChanged={handleSessionChanged} emptyMessage="No past sessions." />
+          </div>
+        </>
+      )}
+
+      {/* Attendance history */}
+      <h2 className="text-2xl font-semibold text-gray-800 mb-4">Attendance History</h2>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        {visits.length === 0 ? (
+          <p className="text-center text-gray-500">No visits recorded.</p>
+        ) : (
+          <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Record ID</th>
+                <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Check-in Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visits.map((visit) => (
+                <tr key={visit.attendanceId} className="border-b hover:bg-gray-50">
+                  <td className="py-3 px-4 text-gray-700 text-sm">{visit.attendanceId}</td>
+                  <td className="py-3 px-4 text-gray-700">{format(new Date(visit.checkInTime), 'yyyy-MM-dd HH:mm:ss')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showBooking && (
+        <SessionBookingDialog member={member} onClose={() => setShowBooking(false)} onBooked={handleSessionBooked} />
+      )}
+    </div>
+  );
+};
+
+export default MemberDetailPage;
@@ -1,38 +1,82 @@
 // src/pages/MembershipPlansPage.tsx
-import React, { useEffect, useState } from 'react';
-import axiosInstance from '../api/axiosConfig';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
+import {
+  plansApi, usersApi, assignmentsApi, reportApiError,
+  type AllAssignmentsResult, type MembershipPlan, type PlanAssignment, type User,
+} from '../api';
+import { paginate } from '../api/paging';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { ACCESS } from '../utils/roles';
+import {
+  ASSIGNMENT_STATUS_COLORS, ASSIGNMENT_STATUS_LABELS, findAssignedPlan, freezeLengthDays, getAssignmentStatus, openFreeze,
+  type AssignmentStatus,
+} from '../utils/assignments';
+import { exportRows, type ExportColumn } from '../utils/export';
+import { hasFieldErrors, inputBorder, serverFieldErrors, validateForm, type FieldErrors } from '../utils/formValidation';
+import {
+  ASSIGNMENT_FIELDS, ASSIGNMENT_FORM_SCHEMA, PLAN_FIELDS, PLAN_FORM_SCHEMA, type AssignmentFormValues, type PlanFormValues,
+} from '../utils/formSchemas';
+import Pagination from '../components/Pagination';
+import ExportButton from '../components/ExportButton';
+import FieldError from '../components/FieldError';
+import AssignmentRenewal, { type RenewalMode } from '../components/AssignmentRenewal';
+import AssignmentFreezeDialog from '../components/AssignmentFreezeDialog';
 
-// Define interfaces for data (matches backend DTOs/Entities)
-interface MembershipPlan {
-  planId: number;
+type UserOption = Pick<User, 'userId' | 'name'>; // Basic user info needed for plan assignment dropdown
+
+const ASSIGNMENTS_PAGE_SIZE = 20;
+
+interface AssignmentFilters {
   planName: string;
-  price: number;
-  durationMonths: number;
-  featuresList: string;
+  status: AssignmentStatus | '';
+  from: string; // Assignments active at any point between from and to (YYYY-MM-DD)
+  to: string;
 }
 
-interface User { // Basic user interface needed for plan assignment dropdown
-  userId: string;
-  name: string;
-}
+const EMPTY_ASSIGNMENT_FILTERS: AssignmentFilters = { planName: '', status: '', from: '', to: '' };
 
-// UPDATED: Interface for PlanAssignment from Backend (PlanAssignmentResponseDTO)
-interface PlanAssignmentDisplay { // Renamed from PlanAssignment to avoid confusion
-  assignmentId: number;
-  userName: string; // Now a direct string from DTO
-  planName: string; // Now a direct string from DTO
-  startDate: string;
-  endDate: string;
-  userId?: string; // Optional, only if needed by frontend
-  planId?: number;  // Optional
-}
+const PLAN_EXPORT_COLUMNS: ExportColumn<MembershipPlan>[] = [
+  { header: 'Plan ID', value: p => p.planId },
+  { header: 'Plan Name', value: p => p.planName },
+  { header: 'Price', value: p => p.price },
+  { header: 'Duration (Months)', value: p => p.durationMonths },
+  { header: 'Features', value: p => p.featuresList },
+];
+
+const assignmentExportColumns = (today: string): ExportColumn<PlanAssignment>[] => [
+  { header: 'Assignment ID', value: a => a.assignmentId },
+  { header: 'Member User ID', value: a => a.userId },
+  { header: 'Member Name', value: a => a.userName },
+  { header: 'Plan Name', value: a => a.planName },
+  { header: 'Start Date', value: a => a.startDate, type: 'date' },
+  { header: 'End Date', value: a => a.endDate, type: 'date' },
+  { header: 'Status', value: a => ASSIGNMENT_STATUS_LABELS[getAssignmentStatus(a, today)] },
+  { header: 'Cancelled On', value: a => a.cancelledOn, type: 'date' },
+  { header: 'Days Frozen', value: a => (a.freezes ?? []).reduce((sum, f) => sum + (freezeLengthDays(f) ?? 0), 0) },
+];
 
 const MembershipPlansPage: React.FC = () => {
+  const { hasRole } = useAuth();
+  const { notify } = useNotifications();
+  const canEditPlans = hasRole(ACCESS.editPlans);
+  const canDeletePlans = hasRole(ACCESS.deletePlans);
+  const canAssignPlans = hasRole(ACCESS.assignPlans);
+  const canEditAssignments = hasRole(ACCESS.editAssignments);
+  const canCancelAssignments = hasRole(ACCESS.cancelAssignments);
   const [plans, setPlans] = useState<MembershipPlan[]>([]);
-  const [users, setUsers] = useState<User[]>([]); // To populate user dropdown for assignment
-  // UPDATED: Use the new interface for planAssignments state
-  const [planAssignments, setPlanAssignments] = useState<PlanAssignmentDisplay[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]); // To populate user dropdown for assignment
+  const [planAssignments, setPlanAssignments] = useState<PlanAssignment[]>([]);
+  const [loadingAssignments, setLoadingAssignments] = useState<boolean>(true);
+  const [assignmentProgress, setAssignmentProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [failedAssignmentUsers, setFailedAssignmentUsers] = useState<AllAssignmentsResult['failedUsers']>([]);
+  const [assignmentFilters, setAssignmentFilters] = useState<AssignmentFilters>(EMPTY_ASSIGNMENT_FILTERS);
+  const [assignmentPage, setAssignmentPage] = useState<number>(0);
+  const [renewing, setRenewing] = useState<{ assignment: PlanAssignment; mode: RenewalMode } | null>(null);
+  const [freezing, setFreezing] = useState<PlanAssignment | null>(null);
+  const [expandedAssignmentId, setExpandedAssignmentId] = useState<number | null>(null); // Row showing its freeze history
 
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -40,20 +84,23 @@ const MembershipPlansPage: React.FC = () => {
   // State for Plan CRUD Form
   const [showPlanForm, setShowPlanForm] = useState<boolean>(false);
   const [editingPlan, setEditingPlan] = useState<MembershipPlan | null>(null);
-  const [planFormData, setPlanFormData] = useState({
+  const [planFormData, setPlanFormData] = useState<PlanFormValues>({
     planName: '',
     price: '',
     durationMonths: '',
     featuresList: '',
   });
+  const [planFieldErrors, setPlanFieldErrors] = useState<FieldErrors<PlanFormValues>>({});
 
   // State for Plan Assignment Form
   const [showAssignForm, setShowAssignForm] = useState<boolean>(false);
-  const [assignFormData, setAssignFormData] = useState({
+  const [editingAssignment, setEditingAssignment] = useState<PlanAssignment | null>(null);
+  const [assignFormData, setAssignFormData] = useState<AssignmentFormValues>({
     userId: '',
     planId: '',
     startDate: format(new Date(), 'yyyy-MM-dd'), // Default to today
   });
+  const [assignFieldErrors, setAssignFieldErrors] = useState<FieldErrors<AssignmentFormValues>>({});
 
   useEffect(() => {
     fetchPlans();
@@ -64,8 +111,7 @@ const MembershipPlansPage: React.FC = () => {
   const fetchPlans = async () => {
     try {
       setLoading(true);
-      const response = await axiosInstance.get<MembershipPlan[]>('/plans');
-      setPlans(response.data);
+      setPlans(await plansApi.list());
       setError(null);
     } catch (err: any) {
       console.error('Failed to fetch plans:', err);
@@ -77,68 +123,97 @@ const MembershipPlansPage: React.FC = () => {
 
   const fetchUsersForAssignment = async () => {
     try {
-      const response = await axiosInstance.get<User[]>('/users');
+      const allUsers = await usersApi.list();
       // Filter to get only userId and name for the dropdown
-      setUsers(response.data.map(user => ({ userId: user.userId, name: user.name })));
-    } catch (err: any) {
+      setUsers(allUsers.map(user => ({ userId: user.userId, name: user.name })));
+    } catch (err) {
       console.error('Failed to fetch users for assignment:', err);
     }
   };
 
   const fetchAllPlanAssignments = async () => {
     try {
-      setLoading(true);
-      const allUsersRes = await axiosInstance.get<User[]>('/users'); // Still need users to loop through
-
-      const assignments: PlanAssignmentDisplay[] = []; // Use the new display interface
-
-      // Fetch assignments for each user
-      for (const user of allUsersRes.data) {
-          // Endpoint now returns PlanAssignmentResponseDTO, which matches PlanAssignmentDisplay
-          const userAssignmentsRes = await axiosInstance.get<PlanAssignmentDisplay[]>(`/plans/user/${user.userId}/assignments`);
-          assignments.push(...userAssignmentsRes.data);
-      }
-      setPlanAssignments(assignments);
-    } catch (err: any) {
+      setLoadingAssignments(true);
+      const result = await assignmentsApi.listAll((completed, total) => setAssignmentProgress({ completed, total }));
+      setPlanAssignments(result.assignments.sort((a, b) => b.startDate.localeCompare(a.startDate)));
+      setFailedAssignmentUsers(result.failedUsers);
+    } catch (err) {
         console.error('Failed to fetch plan assignments:', err);
         setError('Failed to load plan assignments.');
     } finally {
-        setLoading(false);
+        setLoadingAssignments(false);
+        setAssignmentProgress(null);
     }
   };
 
+  const filteredAssignments = useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const { planName, status, from, to } = assignmentFilters;
+    return planAssignments.filter(a =>
+      (!planName || a.planName === planName) &&
+      (!status || getAssignmentStatus(a, today) === status) &&
+      (!from || a.endDate >= from) &&
+      (!to || a.startDate <= to));
+  }, [planAssignments, assignmentFilters]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const assignmentsPage = paginate(filteredAssignments, assignmentPage, ASSIGNMENTS_PAGE_SIZE);
+
+  // Renew / change plan is offered on each member's latest assignment that wasn't cancelled
+  const latestAssignmentIds = useMemo(() => {
+    const latest = new Map<string, PlanAssignment>();
+    planAssignments.filter(a => !a.cancelledOn).forEach(a => {
+      const key = a.userId ?? a.userName;
+      const current = latest.get(key);
+      if (!current || a.endDate > current.endDate) latest.set(key, a);
+    });
+    return new Set(Array.from(latest.values(), a => a.assignmentId));
+  }, [planAssignments]);
+
+  const handleAssignmentFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setAssignmentFilters({ ...assignmentFilters, [name]: value });
+    setAssignmentPage(0);
+  };
+
 
   // --- Plan CRUD Handlers ---
   const handlePlanInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setPlanFormData({ ...planFormData, [name]: value });
+    setPlanFieldErrors({ ...planFieldErrors, [name]: undefined });
   };
 
   const handlePlanFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const errors = validateForm(PLAN_FORM_SCHEMA, planFormData);
+    setPlanFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
     setError(null);
     setLoading(true);
 
     try {
       const planPayload = {
         ...planFormData,
-        price: parseFloat(planFormData.price),
-        durationMonths: parseInt(planFormData.durationMonths),
+        price: Number(planFormData.price),
+        durationMonths: Number(planFormData.durationMonths),
       };
 
       if (editingPlan) {
-        await axiosInstance.put(`/plans/${editingPlan.planId}`, planPayload);
+        await plansApi.update(editingPlan.planId, planPayload);
       } else {
-        await axiosInstance.post('/plans', planPayload);
+        await plansApi.create(planPayload);
       }
+      notify('success', editingPlan ? `${planPayload.planName} was updated.` : `${planPayload.planName} was added.`);
       setShowPlanForm(false);
       setEditingPlan(null);
       setPlanFormData({ planName: '', price: '', durationMonths: '', featuresList: '' });
       fetchPlans(); // Refresh plans list
       fetchAllPlanAssignments(); // Refresh assignments in case plan names updated
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to save plan:', err);
-      setError('Failed to save plan. Please check your input.');
+      reportApiError(err);
+      setPlanFieldErrors(serverFieldErrors<PlanFormValues>(err, PLAN_FIELDS));
     } finally {
       setLoading(false);
     }
@@ -152,6 +227,7 @@ const MembershipPlansPage: React.FC = () => {
       durationMonths: plan.durationMonths.toString(),
       featuresList: plan.featuresList,
     });
+    setPlanFieldErrors({});
     setShowPlanForm(true);
   };
 
@@ -159,12 +235,13 @@ const MembershipPlansPage: React.FC = () => {
     if (window.confirm('Are you sure you want to delete this plan? This will also remove associated assignments!')) {
       try {
         setLoading(true);
-        await axiosInstance.delete(`/plans/${planId}`);
+        await plansApi.remove(planId);
+        notify('success', 'Plan deleted.');
         fetchPlans(); // Refresh plans list
         fetchAllPlanAssignments(); // Refresh assignments list
-      } catch (err: any) {
+      } catch (err) {
         console.error('Failed to delete plan:', err);
-        setError('Failed to delete plan.');
+        reportApiError(err);
       } finally {
         setLoading(false);
       }
@@ -175,59 +252,120 @@ const MembershipPlansPage: React.FC = () => {
   const handleAssignInputChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
     const { name, value } = e.target;
     setAssignFormData({ ...assignFormData, [name]: value });
+    setAssignFieldErrors({ ...assignFieldErrors, [name]: undefined });
   };
 
   const handleAssignFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const errors = validateForm(ASSIGNMENT_FORM_SCHEMA, assignFormData);
+    setAssignFieldErrors(errors);
+    if (hasFieldErrors(errors)) return;
     setError(null);
     setLoading(true);
 
     try {
       const assignmentPayload = {
         userId: assignFormData.userId,
-        planId: parseInt(assignFormData.planId),
+        planId: Number(assignFormData.planId),
         startDate: assignFormData.startDate, // YYYY-MM-DD
       };
-      await axiosInstance.post('/plans/assign', assignmentPayload);
+      if (editingAssignment) {
+        await assignmentsApi.update(editingAssignment.assignmentId, { planId: assignmentPayload.planId, startDate: assignmentPayload.startDate });
+      } else {
+        await assignmentsApi.assign(assignmentPayload);
+      }
+      notify('success', editingAssignment ? `Assignment #${editingAssignment.assignmentId} was updated.` : 'Plan assigned.');
       setShowAssignForm(false);
+      setEditingAssignment(null);
       setAssignFormData({ userId: '', planId: '', startDate: format(new Date(), 'yyyy-MM-dd') }); // Reset form
       fetchAllPlanAssignments(); // Refresh assignments list
       fetchUsersForAssignment(); // Re-fetch users to update their membership status
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to assign plan:', err);
-      setError('Failed to assign plan. Ensure user and plan exist.');
+      reportApiError(err);
+      setAssignFieldErrors(serverFieldErrors<AssignmentFormValues>(err, ASSIGNMENT_FIELDS));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleEditAssignmentClick = (assignment: PlanAssignment) => {
+    setEditingAssignment(assignment);
+    setAssignFormData({
+      userId: assignment.userId ?? '',
+      planId: String(findAssignedPlan(plans, assignment)?.planId ?? ''),
+      startDate: assignment.startDate,
+    });
+    setAssignFieldErrors({});
+    setShowAssignForm(true);
+    setShowPlanForm(false);
+  };
+
+  const handleCancelAssignmentClick = async (assignment: PlanAssignment) => {
+    if (window.confirm(`Cancel ${assignment.userName}'s ${assignment.planName} membership? It ends today and cannot be undone.`)) {
+      try {
+        setLoading(true);
+        await assignmentsApi.cancel(assignment.assignmentId);
+        notify('success', `${assignment.userName}'s ${assignment.planName} membership was cancelled.`);
+        fetchAllPlanAssignments();
+        fetchUsersForAssignment();
+      } catch (err) {
+        console.error('Failed to cancel assignment:', err);
+        reportApiError(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleFreezeSaved = (updated: PlanAssignment) => {
+    notify('success', `${updated.userName}'s membership was ${freezing && openFreeze(freezing) ? 'resumed' : 'frozen'}.`);
+    setFreezing(null);
+    setPlanAssignments(assignments => assignments.map(a => (a.assignmentId === updated.assignmentId ? updated : a)));
+    setExpandedAssignmentId(updated.assignmentId);
+  };
+
+  const handleRenewed = (assignment: PlanAssignment) => {
+    notify('success', `${assignment.planName} assigned to ${assignment.userName}.`);
+    setRenewing(null);
+    fetchAllPlanAssignments();
+    fetchUsersForAssignment();
+  };
+
 
   return (
     <div className="p-6 bg-white rounded-lg shadow-md">
       <h1 className="text-3xl font-bold text-gray-800 mb-6">Membership Plans Management</h1>
 
       <div className="flex space-x-4 mb-6">
-        <button
-          onClick={() => {
-            setShowPlanForm(!showPlanForm);
-            setEditingPlan(null);
-            setPlanFormData({ planName: '', price: '', durationMonths: '', featuresList: '' });
-            setShowAssignForm(false); // Hide assign form if showing
-          }}
-          className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
-        >
-          {showPlanForm ? 'Hide Plan Form' : 'Add/Edit Plans'}
-        </button>
-        <button
-          onClick={() => {
-            setShowAssignForm(!showAssignForm);
-            setAssignFormData({ userId: '', planId: '', startDate: format(new Date(), 'yyyy-MM-dd') });
-            setShowPlanForm(false); // Hide plan form if showing
-          }}
-          className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
-        >
-          {showAssignForm ? 'Hide Assign Form' : 'Assign Plan to Member'}
-        </button>
+        {canEditPlans && (
+          <button
+            onClick={() => {
+              setShowPlanForm(!showPlanForm);
+              setEditingPlan(null);
+              setPlanFormData({ planName: '', price: '', durationMonths: '', featuresList: '' });
+              setPlanFieldErrors({});
+              setShowAssignForm(false); // Hide assign form if showing
+            }}
+            className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+          >
+            {showPlanForm ? 'Hide Plan Form' : 'Add/Edit Plans'}
+          </button>
+        )}
+        {canAssignPlans && (
+          <button
+            onClick={() => {
+              setShowAssignForm(!showAssignForm);
+              setEditingAssignment(null);
+              setAssignFormData({ userId: '', planId: '', startDate: format(new Date(), 'yyyy-MM-dd') });
+              setAssignFieldErrors({});
+              setShowPlanForm(false); // Hide plan form if showing
+            }}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+          >
+            {showAssignForm ? 'Hide Assign Form' : 'Assign Plan to Member'}
+          </button>
+        )}
       </div>
 
       {error && (
@@ -238,27 +376,31 @@ const MembershipPlansPage: React.FC = () => {
       {showPlanForm && (
         <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
           <h2 className="text-2xl font-semibold text-gray-800 mb-4">{editingPlan ? 'Edit Membership Plan' : 'Add New Membership Plan'}</h2>
-          <form onSubmit={handlePlanFormSubmit}>
+          <form onSubmit={handlePlanFormSubmit} noValidate>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="planName" className="block text-sm font-medium text-gray-700">Plan Name:</label>
                 <input type="text" id="planName" name="planName" value={planFormData.planName} onChange={handlePlanInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(planFieldErrors.planName)} rounded-md shadow-sm p-2`} />
+                <FieldError message={planFieldErrors.planName} />
               </div>
               <div>
                 <label htmlFor="price" className="block text-sm font-medium text-gray-700">Price:</label>
                 <input type="number" id="price" name="price" value={planFormData.price} onChange={handlePlanInputChange} required step="0.01"
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(planFieldErrors.price)} rounded-md shadow-sm p-2`} />
+                <FieldError message={planFieldErrors.price} />
               </div>
               <div>
                 <label htmlFor="durationMonths" className="block text-sm font-medium text-gray-700">Duration (Months):</label>
                 <input type="number" id="durationMonths" name="durationMonths" value={planFormData.durationMonths} onChange={handlePlanInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(planFieldErrors.durationMonths)} rounded-md shadow-sm p-2`} />
+                <FieldError message={planFieldErrors.durationMonths} />
               </div>
               <div>
                 <label htmlFor="featuresList" className="block text-sm font-medium text-gray-700">Features (comma-separated):</label>
                 <textarea id="featuresList" name="featuresList" value={planFormData.featuresList} onChange={handlePlanInputChange}
-                          rows={3} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"></textarea>
+                          rows={3} className={`mt-1 block w-full border ${inputBorder(planFieldErrors.featuresList)} rounded-md shadow-sm p-2`}></textarea>
+                <FieldError message={planFieldErrors.featuresList} />
               </div>
             </div>
             <div className="mt-6 flex justify-end space-x-3">
@@ -280,47 +422,66 @@ const MembershipPlansPage: React.FC = () => {
       {/* Plan Assignment Form */}
       {showAssignForm && (
         <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
-          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Assign Plan to Member</h2>
-          <form onSubmit={handleAssignFormSubmit}>
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+            {editingAssignment ? `Edit Assignment #${editingAssignment.assignmentId}` : 'Assign Plan to Member'}
+          </h2>
+          <form onSubmit={handleAssignFormSubmit} noValidate>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="userId" className="block text-sm font-medium text-gray-700">Select Member:</label>
                 <select id="userId" name="userId" value={assignFormData.userId} onChange={handleAssignInputChange} required
-                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                        disabled={editingAssignment !== null}
+                        className={`mt-1 block w-full border ${inputBorder(assignFieldErrors.userId)} rounded-md shadow-sm p-2 bg-white`}>
                   <option value="">-- Select a Member --</option>
                   {users.map(user => (
                     <option key={user.userId} value={user.userId}>{user.name} ({user.userId.substring(0,8)}...)</option>
                   ))}
                 </select>
+                <FieldError message={assignFieldErrors.userId} />
               </div>
               <div>
                 <label htmlFor="planId" className="block text-sm font-medium text-gray-700">Select Plan:</label>
                 <select id="planId" name="planId" value={assignFormData.planId} onChange={handleAssignInputChange} required
-                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+                        className={`mt-1 block w-full border ${inputBorder(assignFieldErrors.planId)} rounded-md shadow-sm p-2 bg-white`}>
                   <option value="">-- Select a Plan --</option>
                   {plans.map(plan => (
                     <option key={plan.planId} value={plan.planId}>{plan.planName} (${plan.price} / {plan.durationMonths}mo)</option>
                   ))}
                 </select>
+                <FieldError message={assignFieldErrors.planId} />
               </div>
               <div>
                 <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">Start Date:</label>
                 <input type="date" id="startDate" name="startDate" value={assignFormData.startDate} onChange={handleAssignInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(assignFieldErrors.startDate)} rounded-md shadow-sm p-2`} />
+                <FieldError message={assignFieldErrors.startDate} />
               </div>
             </div>
-            <div className="mt-6 flex justify-end">
+            {editingAssignment && (editingAssignment.freezes?.length ?? 0) > 0 && (
+              <p className="text-sm text-gray-600 mt-4">The end date is recalculated from the plan and still includes the days frozen so far.</p>
+            )}
+            <div className="mt-6 flex justify-end space-x-3">
               <button type="submit" disabled={loading}
                       className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
-                {loading ? 'Assigning...' : 'Assign Plan'}
+                {loading ? 'Saving...' : (editingAssignment ? 'Update Assignment' : 'Assign Plan')}
               </button>
+              {editingAssignment && (
+                <button type="button" onClick={() => { setEditingAssignment(null); setShowAssignForm(false); }}
+                        className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
+                  Cancel Edit
+                </button>
+              )}
             </div>
           </form>
         </div>
       )}
 
       {/* Membership Plans Table */}
-      <h2 className="text-2xl font-semibold text-gray-800 mb-4 mt-8">All Membership Plans</h2>
+      <div className="flex items-center justify-between mb-4 mt-8">
+        <h2 className="text-2xl font-semibold text-gray-800">All Membership Plans</h2>
+        <ExportButton disabled={plans.length === 0}
+                      onExport={(exportFormat) => exportRows(plans, PLAN_EXPORT_COLUMNS, 'membership-plans', exportFormat)} />
+      </div>
       {loading && !plans.length ? (
         <p className="text-center text-gray-600">Loading plans...</p>
       ) : (
@@ -336,7 +497,7 @@ const MembershipPlansPage: React.FC = () => {
                   <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Price</th>
                   <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Duration (Months)</th>
                   <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Features</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>
+                  {(canEditPlans || canDeletePlans) && <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>}
                 </tr>
               </thead>
               <tbody>
@@ -347,12 +508,18 @@ const MembershipPlansPage: React.FC = () => {
                     <td className="py-3 px-4 text-gray-700">${plan.price.toFixed(2)}</td>
                     <td className="py-3 px-4 text-gray-700">{plan.durationMonths}</td>
                     <td className="py-3 px-4 text-gray-700 text-sm">{plan.featuresList}</td>
-                    <td className="py-3 px-4">
-                      <button onClick={() => handleEditPlanClick(plan)}
-                              className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
-                      <button onClick={() => handleDeletePlanClick(plan.planId)}
-                              className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Delete</button>
-                    </td>
+                    {(canEditPlans || canDeletePlans) && (
+                      <td className="py-3 px-4">
+                        {canEditPlans && (
+                          <button onClick={() => handleEditPlanClick(plan)}
+                                  className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
+                        )}
+                        {canDeletePlans && (
+                          <button onClick={() => handleDeletePlanClick(plan.planId)}
+                                  className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Delete</button>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -362,39 +529,193 @@ const MembershipPlansPage: React.FC = () => {
       )}
 
       {/* Plan Assignments Table */}
-      <h2 className="text-2xl font-semibold text-gray-800 mb-4 mt-8">All Plan Assignments</h2>
-      {loading && !planAssignments.length ? (
+      <div className="flex items-center justify-between mb-4 mt-8">
+        <h2 className="text-2xl font-semibold text-gray-800">All Plan Assignments</h2>
+        <ExportButton disabled={filteredAssignments.length === 0}
+                      onExport={(exportFormat) => exportRows(filteredAssignments, assignmentExportColumns(today), 'plan-assignments', exportFormat)} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4 items-end">
+        <div>
+          <label htmlFor="filterPlan" className="block text-sm font-medium text-gray-700">Plan:</label>
+          <select id="filterPlan" name="planName" value={assignmentFilters.planName} onChange={handleAssignmentFilterChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+            <option value="">All Plans</option>
+            {plans.map(plan => <option key={plan.planId} value={plan.planName}>{plan.planName}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filterStatus" className="block text-sm font-medium text-gray-700">Status:</label>
+          <select id="filterStatus" name="status" value={assignmentFilters.status} onChange={handleAssignmentFilterChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+            <option value="">All</option>
+            {(Object.keys(ASSIGNMENT_STATUS_LABELS) as AssignmentStatus[]).map(status => (
+              <option key={status} value={status}>{ASSIGNMENT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filterFrom" className="block text-sm font-medium text-gray-700">Active From:</label>
+          <input type="date" id="filterFrom" name="from" value={assignmentFilters.from} onChange={handleAssignmentFilterChange}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="filterTo" className="block text-sm font-medium text-gray-700">Active To:</label>
+          <input type="date" id="filterTo" name="to" value={assignmentFilters.to} onChange={handleAssignmentFilterChange}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+      </div>
+
+      {assignmentProgress && assignmentProgress.total > 0 && (
+        <div className="mb-4">
+          <p className="text-sm text-gray-600 mb-1">
+            Loading assignments for {assignmentProgress.completed} of {assignmentProgress.total} members...
+          </p>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-purple-500 h-2 rounded-full transition-all duration-200"
+                 style={{ width: `${(assignmentProgress.completed / assignmentProgress.total) * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {failedAssignmentUsers.length > 0 && (
+        <p className="text-yellow-700 bg-yellow-100 rounded-md p-2 text-sm mb-4">
+          Could not load assignments for {failedAssignmentUsers.length} member(s): {failedAssignmentUsers.map(u => u.name).join(', ')}.
+          <button onClick={fetchAllPlanAssignments} className="ml-2 underline">Retry</button>
+        </p>
+      )}
+
+      {loadingAssignments && !planAssignments.length ? (
         <p className="text-center text-gray-600">Loading assignments...</p>
       ) : (
         <div className="overflow-x-auto">
-          {planAssignments.length === 0 ? (
+          {filteredAssignments.length === 0 ? (
             <p className="text-center text-gray-500">No plan assignments found.</p>
           ) : (
-            <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
-              <thead>
-                <tr className="bg-gray-100">
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Assignment ID</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Member Name</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Plan Name</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Start Date</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">End Date</th>
-                </tr>
-              </thead>
-              <tbody>
-                {planAssignments.map((assignment) => (
-                  <tr key={assignment.assignmentId} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4 text-gray-700 text-sm">{assignment.assignmentId}</td>
-                    <td className="py-3 px-4 text-gray-700">{assignment.userName || 'N/A'}</td> {/* CORRECTED */}
-                    <td className="py-3 px-4 text-gray-700">{assignment.planName || 'N/A'}</td> {/* CORRECTED */}
-                    <td className="py-3 px-4 text-gray-700">{assignment.startDate}</td>
-                    <td className="py-3 px-4 text-gray-700">{assignment.endDate}</td>
+            <>
+              <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Assignment ID</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Member Name</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Plan Name</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Start Date</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">End Date</th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Status</th>
+                    {(canAssignPlans || canEditAssignments || canCancelAssignments) && (
+                      <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>
+                    )}
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {assignmentsPage.content.map((assignment) => {
+                    const status = getAssignmentStatus(assignment, today);
+                    const freezes = assignment.freezes ?? [];
+                    const hasHistory = freezes.length > 0 || Boolean(assignment.cancelledOn);
+                    const expanded = expandedAssignmentId === assignment.assignmentId;
+                    return (
+                      <React.Fragment key={assignment.assignmentId}>
+                        <tr className="border-b hover:bg-gray-50">
+                          <td className="py-3 px-4 text-gray-700 text-sm">{assignment.assignmentId}</td>
+                          <td className="py-3 px-4 text-gray-700">
+                            {assignment.userId ? (
+                              <Link to={`/users/${assignment.userId}`} className="text-blue-600 hover:underline">{assignment.userName || 'N/A'}</Link>
+                            ) : (assignment.userName || 'N/A')}
+                          </td>
+                          <td className="py-3 px-4 text-gray-700">{assignment.planName || 'N/A'}</td>
+                          <td className="py-3 px-4 text-gray-700">{assignment.startDate}</td>
+                          <td className="py-3 px-4 text-gray-700">{assignment.endDate}</td>
+                          <td className="py-3 px-4">
+                            <span className={`font-semibold ${ASSIGNMENT_STATUS_COLORS[status]}`}>{ASSIGNMENT_STATUS_LABELS[status]}</span>
+                            {hasHistory && (
+                              <button onClick={() => setExpandedAssignmentId(expanded ? null : assignment.assignmentId)}
+                                      className="ml-2 text-sm text-blue-600 hover:underline">
+                                {expanded ? 'Hide history' : `History (${freezes.length + (assignment.cancelledOn ? 1 : 0)})`}
+                              </button>
+                            )}
+                          </td>
+                          {(canAssignPlans || canEditAssignments || canCancelAssignments) && (
+                            <td className="py-3 px-4 whitespace-nowrap">
+                              {canAssignPlans && assignment.userId && latestAssignmentIds.has(assignment.assignmentId) && (
+                                <>
+                                  <button onClick={() => setRenewing({ assignment, mode: 'renew' })}
+                                          className="bg-purple-500 hover:bg-purple-600 text-white text-sm py-1 px-3 rounded-md mr-2">Renew</button>
+                                  <button onClick={() => setRenewing({ assignment, mode: 'change' })}
+                                          className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Change Plan</button>
+                                </>
+                              )}
+                              {canEditAssignments && status !== 'cancelled' && (
+                                <>
+                                  <button onClick={() => handleEditAssignmentClick(assignment)}
+                                          className="bg-gray-500 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
+                                  {(openFreeze(assignment) || status !== 'expired') && (
+                                    <button onClick={() => setFreezing(assignment)}
+                                            className="bg-cyan-600 hover:bg-cyan-700 text-white text-sm py-1 px-3 rounded-md mr-2">
+                                      {openFreeze(assignment) ? 'Resume' : 'Freeze'}
+                                    </button>
+                                  )}
+                                </>
+                              )}
+                              {canCancelAssignments && status !== 'cancelled' && (
+                                <button onClick={() => handleCancelAssignmentClick(assignment)}
+                                        className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Cancel</button>
+                              )}
+                            </td>
+                          )}
+                        </tr>
+                        {expanded && (
+                          <tr className="border-b bg-gray-50">
+                            <td colSpan={7} className="py-3 px-8 text-sm text-gray-700">
+                              {assignment.cancelledOn && <p className="mb-2">Cancelled on {assignment.cancelledOn}.</p>}
+                              {freezes.length > 0 && (
+                                <table className="min-w-full">
+                                  <thead>
+                                    <tr className="text-left text-gray-600">
+                                      <th className="py-1 pr-4 font-semibold">Frozen From</th>
+                                      <th className="py-1 pr-4 font-semibold">Frozen Until</th>
+                                      <th className="py-1 pr-4 font-semibold">Days Added</th>
+                                      <th className="py-1 pr-4 font-semibold">Reason</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {freezes.map(freeze => (
+                                      <tr key={freeze.startDate}>
+                                        <td className="py-1 pr-4">{freeze.startDate}</td>
+                                        <td className="py-1 pr-4">{freeze.endDate ?? 'Still frozen'}</td>
+                                        <td className="py-1 pr-4">{freezeLengthDays(freeze) ?? '-'}</td>
+                                        <td className="py-1 pr-4">{freeze.reason || '-'}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <Pagination
+                page={assignmentsPage.number}
+                totalPages={assignmentsPage.totalPages}
+                totalElements={assignmentsPage.totalElements}
+                size={ASSIGNMENTS_PAGE_SIZE}
+                onPageChange={setAssignmentPage}
+              />
+            </>
           )}
         </div>
       )}
+
+      {freezing && (
+        <AssignmentFreezeDialog assignment={freezing} onClose={() => setFreezing(null)} onSaved={handleFreezeSaved} />
+      )}
+
+      {renewing && (
+        <AssignmentRenewal source={renewing.assignment} mode={renewing.mode}
+                           onClose={() => setRenewing(null)} onAssigned={handleRenewed} />
+      )}
     </div>
   );
 };
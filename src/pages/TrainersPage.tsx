@@ -1,41 +1,95 @@
 // src/pages/TrainersPage.tsx
 import React, { useEffect, useState } from 'react';
-import axiosInstance from '../api/axiosConfig'; // Your configured Axios instance
+import { format } from 'date-fns';
+import {
+  trainersApi, sessionsApi, reportApiError, type AvailabilityException, type AvailabilitySlot, type Trainer, type TrainingSession,
+} from '../api';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { ACCESS } from '../utils/roles';
+import { exportRows, type ExportColumn } from '../utils/export';
+import {
+  EXCEPTION_REASON_LABELS, exceptionOn, formatSlots, hasWeeklySlots, isAvailableAt, validateExceptions, validateSlots,
+} from '../utils/trainerAvailability';
+import { upcomingSessions } from '../utils/sessions';
+import { hasFieldErrors, inputBorder, serverFieldErrors, validateForm, type FieldErrors } from '../utils/formValidation';
+import { TRAINER_FIELDS, TRAINER_FORM_SCHEMA, type TrainerFormValues } from '../utils/formSchemas';
+import ExportButton from '../components/ExportButton';
+import FieldError from '../components/FieldError';
+import TrainerAvailabilityEditor from '../components/TrainerAvailabilityEditor';
+import TrainerScheduleCalendar from '../components/TrainerScheduleCalendar';
+import SessionBookingDialog from '../components/SessionBookingDialog';
+import SessionTable from '../components/SessionTable';
 
-// Define Trainer interface (matches backend Trainer entity structure)
-interface Trainer {
-  trainerId: number; // Auto-generated in backend
-  name: string;
-  experience: number;
-  specialization: string;
-  availability: string;
-}
+const TRAINER_EXPORT_COLUMNS: ExportColumn<Trainer>[] = [
+  { header: 'Trainer ID', value: t => t.trainerId },
+  { header: 'Name', value: t => t.name },
+  { header: 'Experience (Years)', value: t => t.experience },
+  { header: 'Specialization', value: t => t.specialization },
+  { header: 'Availability', value: t => t.availability },
+  { header: 'Weekly Slots', value: t => (hasWeeklySlots(t) ? formatSlots(t.weeklySlots ?? []) : '') },
+  { header: 'Time Off', value: t => (t.exceptions ?? []).map(e => `${e.startDate} to ${e.endDate} (${EXCEPTION_REASON_LABELS[e.reason]})`).join('; ') },
+];
+
+type AvailabilityFilter = 'all' | 'now' | 'at';
+
+const EMPTY_FORM: TrainerFormValues = { name: '', experience: '', specialization: '', availability: '' };
 
 const TrainersPage: React.FC = () => {
+  const { hasRole } = useAuth();
+  const canEditTrainers = hasRole(ACCESS.editTrainers);
+  const canDeleteTrainers = hasRole(ACCESS.deleteTrainers);
+  const canBookSessions = hasRole(ACCESS.bookSessions);
+  const { notify } = useNotifications();
   const [trainers, setTrainers] = useState<Trainer[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [showForm, setShowForm] = useState<boolean>(false); // To toggle add/edit form
   const [editingTrainer, setEditingTrainer] = useState<Trainer | null>(null); // Trainer currently being edited
 
-  // Form state for new/editing trainer
-  const [formData, setFormData] = useState({
-    name: '',
-    experience: '', // Keep as string for input field
-    specialization: '',
-    availability: '',
-  });
+  // Form state for new/editing trainer; experience is kept as a string for the input field
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<TrainerFormValues>>({});
+
+  const [availabilityFilter, setAvailabilityFilter] = useState<AvailabilityFilter>('all');
+  const [filterAt, setFilterAt] = useState<string>(() => format(new Date(), "yyyy-MM-dd'T'HH:mm")); // datetime-local value
+
+  const [sessions, setSessions] = useState<TrainingSession[]>([]); // Scheduled sessions that haven't ended
+  const [expandedTrainerId, setExpandedTrainerId] = useState<number | null>(null); // Row showing its upcoming sessions
+  const [bookingTrainer, setBookingTrainer] = useState<Trainer | null>(null);
 
   // Fetch trainers on component mount and when dependencies change
   useEffect(() => {
     fetchTrainers();
+    fetchSessions();
   }, []);
 
+  // Sessions are extra detail on the rows, so a failure here doesn't hide the trainer list
+  const fetchSessions = async () => {
+    try {
+      setSessions(await sessionsApi.list({ from: new Date().toISOString(), status: 'SCHEDULED' }));
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+    }
+  };
+
+  const handleSessionChanged = (session: TrainingSession) =>
+    setSessions(sessions.map(s => (s.sessionId === session.sessionId ? session : s)));
+
+  const handleSessionBooked = (session: TrainingSession) => {
+    setSessions([...sessions, session]);
+    setBookingTrainer(null);
+    setExpandedTrainerId(session.trainerId);
+    notify('success', `${session.userName} is booked with ${session.trainerName} on ${format(new Date(session.startTime), 'dd MMM HH:mm')}.`);
+  };
+
   const fetchTrainers = async () => {
     try {
       setLoading(true);
-      const response = await axiosInstance.get<Trainer[]>('/trainers');
-      setTrainers(response.data);
+      setTrainers(await trainersApi.list());
       setError(null);
     } catch (err: any) {
       console.error('Failed to fetch trainers:', err);
@@ -48,33 +102,53 @@ const TrainersPage: React.FC = () => {
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData({ ...formData, [name]: value });
+    setFieldErrors({ ...fieldErrors, [name]: undefined });
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setSlots([]);
+    setExceptions([]);
+    setFormError(null);
+    setFieldErrors({});
   };
 
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const errors = validateForm(TRAINER_FORM_SCHEMA, formData);
+    const invalid = validateSlots(slots) ?? validateExceptions(exceptions);
+    setFieldErrors(errors);
+    setFormError(invalid);
+    if (hasFieldErrors(errors) || invalid) return;
     setError(null);
     setLoading(true);
 
     try {
       const trainerPayload = {
         ...formData,
-        experience: parseInt(formData.experience), // Convert experience to number
+        experience: Number(formData.experience),
+        // Once converted, the free text becomes a summary of the slots for older clients
+        availability: slots.length > 0 ? formatSlots(slots) : formData.availability,
+        weeklySlots: slots,
+        exceptions,
       };
 
       if (editingTrainer) {
         // Update existing trainer
-        await axiosInstance.put(`/trainers/${editingTrainer.trainerId}`, trainerPayload);
+        await trainersApi.update(editingTrainer.trainerId, trainerPayload);
       } else {
         // Add new trainer
-        await axiosInstance.post('/trainers', trainerPayload);
+        await trainersApi.create(trainerPayload);
       }
+      notify('success', editingTrainer ? `${formData.name} was updated.` : `${formData.name} was added.`);
       setShowForm(false);
       setEditingTrainer(null);
-      setFormData({ name: '', experience: '', specialization: '', availability: '' }); // Reset form
+      resetForm();
       fetchTrainers(); // Refresh list
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to save trainer:', err);
-      setError('Failed to save trainer. Please check your input.');
+      reportApiError(err);
+      setFieldErrors(serverFieldErrors<TrainerFormValues>(err, TRAINER_FIELDS));
     } finally {
       setLoading(false);
     }
@@ -88,6 +162,10 @@ const TrainersPage: React.FC = () => {
       specialization: trainer.specialization,
       availability: trainer.availability,
     });
+    setSlots(trainer.weeklySlots ?? []);
+    setExceptions(trainer.exceptions ?? []);
+    setFormError(null);
+    setFieldErrors({});
     setShowForm(true);
   };
 
@@ -95,65 +173,86 @@ const TrainersPage: React.FC = () => {
     if (window.confirm('Are you sure you want to delete this trainer?')) {
       try {
         setLoading(true);
-        await axiosInstance.delete(`/trainers/${trainerId}`);
+        await trainersApi.remove(trainerId);
+        notify('success', 'Trainer deleted.');
         fetchTrainers();
-      } catch (err: any) {
+      } catch (err) {
         console.error('Failed to delete trainer:', err);
-        setError('Failed to delete trainer.');
+        reportApiError(err);
       } finally {
         setLoading(false);
       }
     }
   };
 
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const filterTime = availabilityFilter === 'now' ? new Date() : availabilityFilter === 'at' && filterAt ? new Date(filterAt) : null;
+  // Free-text availability can't be checked against a time, so those trainers drop out of the filter
+  const visibleTrainers = filterTime ? trainers.filter(t => hasWeeklySlots(t) && isAvailableAt(t, filterTime)) : trainers;
+  const unconvertedCount = trainers.filter(t => !hasWeeklySlots(t)).length;
+  const upcoming = upcomingSessions(sessions, new Date());
+  const showActions = canEditTrainers || canDeleteTrainers || canBookSessions;
+
   return (
     <div className="p-6 bg-white rounded-lg shadow-md">
       <h1 className="text-3xl font-bold text-gray-800 mb-6">Trainers Management</h1>
 
-      <button
-        onClick={() => {
-          setShowForm(!showForm);
-          setEditingTrainer(null);
-          setFormData({ name: '', experience: '', specialization: '', availability: '' });
-        }}
-        className="mb-6 bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
-      >
-        {showForm ? 'Hide Form' : 'Add New Trainer'}
-      </button>
+      {canEditTrainers && (
+        <button
+          onClick={() => {
+            setShowForm(!showForm);
+            setEditingTrainer(null);
+            resetForm();
+          }}
+          className="mb-6 bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+        >
+          {showForm ? 'Hide Form' : 'Add New Trainer'}
+        </button>
+      )}
 
       {showForm && (
         <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
           <h2 className="text-2xl font-semibold text-gray-800 mb-4">{editingTrainer ? 'Edit Trainer' : 'Add New Trainer'}</h2>
-          <form onSubmit={handleFormSubmit}>
+          <form onSubmit={handleFormSubmit} noValidate>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name:</label>
                 <input type="text" id="name" name="name" value={formData.name} onChange={handleInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(fieldErrors.name)} rounded-md shadow-sm p-2`} />
+                <FieldError message={fieldErrors.name} />
               </div>
               <div>
                 <label htmlFor="experience" className="block text-sm font-medium text-gray-700">Experience (Years):</label>
                 <input type="number" id="experience" name="experience" value={formData.experience} onChange={handleInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(fieldErrors.experience)} rounded-md shadow-sm p-2`} />
+                <FieldError message={fieldErrors.experience} />
               </div>
               <div>
                 <label htmlFor="specialization" className="block text-sm font-medium text-gray-700">Specialization:</label>
                 <input type="text" id="specialization" name="specialization" value={formData.specialization} onChange={handleInputChange}
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
-              </div>
-              <div>
-                <label htmlFor="availability" className="block text-sm font-medium text-gray-700">Availability:</label>
-                <input type="text" id="availability" name="availability" value={formData.availability} onChange={handleInputChange}
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+                       className={`mt-1 block w-full border ${inputBorder(fieldErrors.specialization)} rounded-md shadow-sm p-2`} />
+                <FieldError message={fieldErrors.specialization} />
               </div>
+              {slots.length === 0 && (
+                <div>
+                  <label htmlFor="availability" className="block text-sm font-medium text-gray-700">Availability Notes:</label>
+                  <input type="text" id="availability" name="availability" value={formData.availability} onChange={handleInputChange}
+                         placeholder="Replaced by a summary once weekly slots are added"
+                         className={`mt-1 block w-full border ${inputBorder(fieldErrors.availability)} rounded-md shadow-sm p-2`} />
+                  <FieldError message={fieldErrors.availability} />
+                </div>
+              )}
+              <TrainerAvailabilityEditor slots={slots} exceptions={exceptions} legacyText={formData.availability}
+                                         onSlotsChange={setSlots} onExceptionsChange={setExceptions} />
             </div>
+            {formError && <p className="text-red-600 mt-4">{formError}</p>}
             <div className="mt-6 flex justify-end space-x-3">
               <button type="submit" disabled={loading}
                       className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
                 {loading ? 'Saving...' : (editingTrainer ? 'Update Trainer' : 'Add Trainer')}
               </button>
               {editingTrainer && (
-                <button type="button" onClick={() => { setEditingTrainer(null); setShowForm(false); setFormData({name: '', experience: '', specialization: '', availability: ''}); }}
+                <button type="button" onClick={() => { setEditingTrainer(null); setShowForm(false); resetForm(); }}
                         className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
                   Cancel Edit
                 </button>
@@ -167,12 +266,39 @@ const TrainersPage: React.FC = () => {
         <p className="text-red-600 text-center mb-4">{error}</p>
       )}
 
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label htmlFor="availabilityFilter" className="block text-sm font-medium text-gray-700">Availability:</label>
+            <select id="availabilityFilter" value={availabilityFilter} onChange={(e) => setAvailabilityFilter(e.target.value as AvailabilityFilter)}
+                    className="mt-1 block border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+              <option value="all">All trainers</option>
+              <option value="now">Available now</option>
+              <option value="at">Available at...</option>
+            </select>
+          </div>
+          {availabilityFilter === 'at' && (
+            <input type="datetime-local" value={filterAt} onChange={(e) => setFilterAt(e.target.value)} aria-label="Available at"
+                   className="block border border-gray-300 rounded-md shadow-sm p-2" />
+          )}
+        </div>
+        <ExportButton disabled={visibleTrainers.length === 0}
+                      onExport={(exportFormat) => exportRows(visibleTrainers, TRAINER_EXPORT_COLUMNS, 'trainers', exportFormat)} />
+      </div>
+      {filterTime && unconvertedCount > 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          {unconvertedCount} trainer(s) with free-text availability are not included. Edit them to add weekly slots.
+        </p>
+      )}
+
       {loading && !trainers.length ? (
         <p className="text-center text-gray-600">Loading trainers...</p>
       ) : (
         <div className="overflow-x-auto">
           {trainers.length === 0 ? (
             <p className="text-center text-gray-500">No trainers found. Add one above!</p>
+          ) : visibleTrainers.length === 0 ? (
+            <p className="text-center text-gray-500">No trainers are available at that time.</p>
           ) : (
             <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
               <thead>
@@ -182,30 +308,89 @@ const TrainersPage: React.FC = () => {
                   <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Experience</th>
                   <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Specialization</th>
                   <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Availability</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>
+                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Upcoming Sessions</th>
+                  {showActions && <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>}
                 </tr>
               </thead>
               <tbody>
-                {trainers.map((trainer) => (
-                  <tr key={trainer.trainerId} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4 text-gray-700 text-sm">{trainer.trainerId}</td>
-                    <td className="py-3 px-4 text-gray-700">{trainer.name}</td>
-                    <td className="py-3 px-4 text-gray-700">{trainer.experience}</td>
-                    <td className="py-3 px-4 text-gray-700">{trainer.specialization}</td>
-                    <td className="py-3 px-4 text-gray-700">{trainer.availability}</td>
-                    <td className="py-3 px-4">
-                      <button onClick={() => handleEditClick(trainer)}
-                              className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
-                      <button onClick={() => handleDeleteClick(trainer.trainerId)}
-                              className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Delete</button>
-                    </td>
-                  </tr>
-                ))}
+                {visibleTrainers.map((trainer) => {
+                  const timeOff = exceptionOn(trainer, today);
+                  const trainerSessions = upcoming.filter(s => s.trainerId === trainer.trainerId);
+                  const expanded = expandedTrainerId === trainer.trainerId;
+                  return (
+                    <React.Fragment key={trainer.trainerId}>
+                      <tr className="border-b hover:bg-gray-50">
+                        <td className="py-3 px-4 text-gray-700 text-sm">{trainer.trainerId}</td>
+                        <td className="py-3 px-4 text-gray-700">{trainer.name}</td>
+                        <td className="py-3 px-4 text-gray-700">{trainer.experience}</td>
+                        <td className="py-3 px-4 text-gray-700">{trainer.specialization}</td>
+                        <td className="py-3 px-4 text-gray-700">
+                          {hasWeeklySlots(trainer) ? formatSlots(trainer.weeklySlots ?? []) : (
+                            <>
+                              {trainer.availability} <span className="text-xs text-yellow-700">(not converted)</span>
+                            </>
+                          )}
+                          {timeOff && (
+                            <span className="block text-xs text-orange-700">
+                              {EXCEPTION_REASON_LABELS[timeOff.reason]} until {timeOff.endDate}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700">
+                          {trainerSessions.length === 0 ? <span className="text-gray-400">None</span> : (
+                            <>
+                              Next: {format(new Date(trainerSessions[0].startTime), 'EEE dd MMM HH:mm')}
+                              <button onClick={() => setExpandedTrainerId(expanded ? null : trainer.trainerId)}
+                                      className="ml-2 text-sm text-blue-600 hover:underline">
+                                {expanded ? 'Hide' : `All (${trainerSessions.length})`}
+                              </button>
+                            </>
+                          )}
+                        </td>
+                        {showActions && (
+                          <td className="py-3 px-4 whitespace-nowrap">
+                            {canBookSessions && (
+                              <button onClick={() => setBookingTrainer(trainer)}
+                                      className="bg-purple-500 hover:bg-purple-600 text-white text-sm py-1 px-3 rounded-md mr-2">Book Session</button>
+                            )}
+                            {canEditTrainers && (
+                              <button onClick={() => handleEditClick(trainer)}
+                                      className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
+                            )}
+                            {canDeleteTrainers && (
+                              <button onClick={() => handleDeleteClick(trainer.trainerId)}
+                                      className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Delete</button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                      {expanded && (
+                        <tr className="border-b bg-gray-50">
+                          <td colSpan={showActions ? 7 : 6} className="py-3 px-8">
+                            <SessionTable sessions={trainerSessions} counterpart="member" canManage={canBookSessions}
+                                          onChanged={handleSessionChanged} emptyMessage="No upcoming sessions." />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
               </tbody>
             </table>
           )}
         </div>
       )}
+
+      {trainers.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Weekly Schedule</h2>
+          <TrainerScheduleCalendar trainers={trainers} />
+        </div>
+      )}
+
+      {bookingTrainer && (
+        <SessionBookingDialog trainer={bookingTrainer} onClose={() => setBookingTrainer(null)} onBooked={handleSessionBooked} />
+      )}
     </div>
   );
 };
@@ -1,46 +1,113 @@
 // src/pages/UsersPage.tsx
-import React, { useEffect, useState } from 'react';
-import axiosInstance from '../api/axiosConfig'; // Your configured Axios instance
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { usersApi, assignmentsApi, reportApiError, type User, type UserPayload, type PlanAssignment, type UserQuery } from '../api';
 import { format } from 'date-fns'; // For date formatting
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { ACCESS } from '../utils/roles';
+import MemberForm from '../components/MemberForm';
+import MemberImport from '../components/MemberImport';
+import MemberCardSheet, { type MemberCardData } from '../components/MemberCardSheet';
+import Pagination from '../components/Pagination';
+import SortableHeader from '../components/SortableHeader';
+import ExportButton from '../components/ExportButton';
+import { exportRows, type ExportColumn, type ExportFormat } from '../utils/export';
+import { serverFieldErrors } from '../utils/formValidation';
+import { MEMBER_FIELDS, type MemberFormValues } from '../utils/formSchemas';
+import { mapWithConcurrency } from '../utils/concurrency';
 
-// Define User interface (matches backend User entity structure)
-interface User {
-  userId: string;
-  name: string;
-  age: number;
-  gender: string;
-  contactNumber: string;
-  membershipStatus: string;
-  joiningDate: string; // Will be in YYYY-MM-DD format from backend
-}
+const DEFAULT_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+const CARD_PLAN_CONCURRENCY = 6; // Parallel plan lookups when printing many cards
+const SORTABLE_FIELDS: (keyof User)[] = ['name', 'age', 'gender', 'contactNumber', 'membershipStatus', 'joiningDate'];
+
+const MEMBER_EXPORT_COLUMNS: ExportColumn<User>[] = [
+  { header: 'User ID', value: u => u.userId },
+  { header: 'Name', value: u => u.name },
+  { header: 'Age', value: u => u.age },
+  { header: 'Gender', value: u => u.gender },
+  { header: 'Contact Number', value: u => u.contactNumber },
+  { header: 'Membership Status', value: u => u.membershipStatus },
+  { header: 'Joining Date', value: u => u.joiningDate, type: 'date' },
+];
+
+// Table state lives in the query string (?q=&status=&gender=&from=&to=&sort=&dir=&page=&size=)
+// so searches can be bookmarked and shared. "page" is one-based in the URL.
+const queryFromSearchParams = (params: URLSearchParams): UserQuery => {
+  const sortBy = params.get('sort') as keyof User | null;
+  return {
+    page: Math.max(0, (Number(params.get('page')) || 1) - 1),
+    size: Number(params.get('size')) || DEFAULT_PAGE_SIZE,
+    sortBy: sortBy && SORTABLE_FIELDS.includes(sortBy) ? sortBy : 'name',
+    sortDir: params.get('dir') === 'desc' ? 'desc' : 'asc',
+    search: params.get('q') || undefined,
+    membershipStatus: params.get('status') || undefined,
+    gender: params.get('gender') || undefined,
+    joinedFrom: params.get('from') || undefined,
+    joinedTo: params.get('to') || undefined,
+  };
+};
+
+// Pick the assignment covering today, otherwise the most recent one
+const pickCurrentPlanName = (assignments: PlanAssignment[]): string | null => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const current = assignments.find(a => a.startDate <= today && a.endDate >= today);
+  if (current) return current.planName;
+  const latest = [...assignments].sort((a, b) => b.endDate.localeCompare(a.endDate))[0];
+  return latest ? latest.planName : null;
+};
 
 const UsersPage: React.FC = () => {
-  const [users, setUsers] = useState<User[]>([]);
+  const { hasRole } = useAuth();
+  const canEditMembers = hasRole(ACCESS.editMembers);
+  const canDeleteMembers = hasRole(ACCESS.deleteMembers);
+  const { notify } = useNotifications();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => queryFromSearchParams(searchParams), [searchParams]);
+  const [searchInput, setSearchInput] = useState<string>(query.search ?? '');
+  const [users, setUsers] = useState<User[]>([]); // Current page only
+  const [totalElements, setTotalElements] = useState<number>(0);
+  const [totalPages, setTotalPages] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [showForm, setShowForm] = useState<boolean>(false); // To toggle add/edit form
   const [editingUser, setEditingUser] = useState<User | null>(null); // User currently being edited
+  const [selectedUsers, setSelectedUsers] = useState<Map<string, User>>(new Map()); // Members selected for card printing, across pages
+  const [printCards, setPrintCards] = useState<MemberCardData[] | null>(null); // Non-null while the card sheet is open
+  const [loadingCards, setLoadingCards] = useState<boolean>(false);
+  const [showImport, setShowImport] = useState<boolean>(false);
 
-  // Form state for new/editing user
-  const [formData, setFormData] = useState({
-    name: '',
-    age: '',
-    gender: '',
-    contactNumber: '',
-    membershipStatus: 'Inactive', // Default status
-    joiningDate: format(new Date(), 'yyyy-MM-dd'), // Today's date
-  });
-
-  // Fetch users on component mount and when dependencies change
+  // Merge changes into the query string. Any change other than paging goes back to page 1.
+  const updateParams = useCallback((changes: Record<string, string | null>, resetPage = true) => {
+    setSearchParams(previous => {
+      const next = new URLSearchParams(previous);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (resetPage) next.delete('page');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Debounce typing in the search box before hitting the backend
   useEffect(() => {
-    fetchUsers();
-  }, []);
+    if ((query.search ?? '') === searchInput.trim()) return;
+    const timer = setTimeout(() => updateParams({ q: searchInput.trim() || null }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, query.search, updateParams]);
 
-  const fetchUsers = async () => {
+  const fetchUsers = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await axiosInstance.get<User[]>('/users');
-      setUsers(response.data);
+      const page = await usersApi.listPage(query);
+      setUsers(page.content);
+      setTotalElements(page.totalElements);
+      setTotalPages(page.totalPages);
       setError(null); // Clear any previous errors
     } catch (err: any) {
       console.error('Failed to fetch users:', err);
@@ -48,42 +115,43 @@ const UsersPage: React.FC = () => {
     } finally {
       setLoading(false);
     }
+  }, [query]);
+
+  // Fetch users on mount and whenever the query string changes
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleSort = (field: string) => {
+    const sortDir = query.sortBy === field && query.sortDir === 'asc' ? 'desc' : 'asc';
+    updateParams({ sort: field, dir: sortDir });
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setFormData({ ...formData, [name]: value });
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearchParams(new URLSearchParams(), { replace: true });
   };
 
-  const handleFormSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleFormSubmit = async (userPayload: UserPayload) => {
     setError(null);
     setLoading(true);
 
     try {
-      const userPayload = {
-        ...formData,
-        age: parseInt(formData.age), // Convert age to number
-        joiningDate: formData.joiningDate, // Ensure date format
-        membershipStatus: formData.membershipStatus,
-      };
-
       if (editingUser) {
         // Update existing user
-        await axiosInstance.put(`/users/${editingUser.userId}`, userPayload);
+        await usersApi.update(editingUser.userId, userPayload);
       } else {
         // Add new user
-        await axiosInstance.post('/users', userPayload);
+        await usersApi.create(userPayload);
       }
+      notify('success', editingUser ? `${userPayload.name} was updated.` : `${userPayload.name} was added.`);
       setShowForm(false); // Hide form after submission
       setEditingUser(null); // Clear editing state
-      setFormData({ // Reset form
-        name: '', age: '', gender: '', contactNumber: '', membershipStatus: 'Inactive', joiningDate: format(new Date(), 'yyyy-MM-dd')
-      });
       fetchUsers(); // Refresh list
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to save user:', err);
-      setError('Failed to save user. Please check your input.');
+      reportApiError(err);
+      return serverFieldErrors<MemberFormValues>(err, MEMBER_FIELDS);
     } finally {
       setLoading(false);
     }
@@ -91,14 +159,6 @@ const UsersPage: React.FC = () => {
 
   const handleEditClick = (user: User) => {
     setEditingUser(user);
-    setFormData({
-      name: user.name,
-      age: user.age.toString(), // Convert number to string for input field
-      gender: user.gender,
-      contactNumber: user.contactNumber,
-      membershipStatus: user.membershipStatus,
-      joiningDate: user.joiningDate,
-    });
     setShowForm(true); // Show the form with user data
   };
 
@@ -106,92 +166,117 @@ const UsersPage: React.FC = () => {
     if (window.confirm('Are you sure you want to delete this user?')) {
       try {
         setLoading(true);
-        await axiosInstance.delete(`/users/${userId}`);
+        await usersApi.remove(userId);
+        notify('success', 'Member deleted.');
         fetchUsers(); // Refresh list
-      } catch (err: any) {
+      } catch (err) {
         console.error('Failed to delete user:', err);
-        setError('Failed to delete user.');
+        reportApiError(err);
       } finally {
         setLoading(false);
       }
     }
   };
 
+  const toggleUserSelection = (user: User) => {
+    const next = new Map(selectedUsers);
+    if (next.has(user.userId)) {
+      next.delete(user.userId);
+    } else {
+      next.set(user.userId, user);
+    }
+    setSelectedUsers(next);
+  };
+
+  const allOnPageSelected = users.length > 0 && users.every(u => selectedUsers.has(u.userId));
+
+  // Select or clear every member on the current page
+  const toggleSelectAll = () => {
+    const next = new Map(selectedUsers);
+    users.forEach(u => (allOnPageSelected ? next.delete(u.userId) : next.set(u.userId, u)));
+    setSelectedUsers(next);
+  };
+
+  // Exports every member matching the current filters, not just the visible page
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const members = await usersApi.listAllMatching(query);
+    await exportRows(members, MEMBER_EXPORT_COLUMNS, 'members', exportFormat);
+  };
+
+  // Open the card sheet for the given members, looking up each one's current plan
+  const handlePrintCards = async (membersToPrint: User[]) => {
+    if (membersToPrint.length === 0) return;
+    setPrintCards([]);
+    setLoadingCards(true);
+    try {
+      // Silent because a failed lookup still prints the card, just without a plan
+      const results = await mapWithConcurrency(membersToPrint, CARD_PLAN_CONCURRENCY,
+        member => assignmentsApi.listForUser(member.userId, { silentErrors: true }));
+      const cards = membersToPrint.map((member, index): MemberCardData => {
+        const result = results[index];
+        if (result.status === 'rejected') console.error(`Failed to fetch assignments for ${member.userId}:`, result.reason);
+        const planName = result.status === 'fulfilled' ? pickCurrentPlanName(result.value) : null;
+        return { userId: member.userId, name: member.name, joiningDate: member.joiningDate, planName };
+      });
+      setPrintCards(cards);
+    } finally {
+      setLoadingCards(false);
+    }
+  };
+
   return (
     <div className="p-6 bg-white rounded-lg shadow-md">
       <h1 className="text-3xl font-bold text-gray-800 mb-6">Members Management</h1>
 
-      <button
-        onClick={() => {
-          setShowForm(!showForm);
-          setEditingUser(null); // Clear editing state when toggling
-          setFormData({ // Reset form when toggling
-            name: '', age: '', gender: '', contactNumber: '', membershipStatus: 'Inactive', joiningDate: format(new Date(), 'yyyy-MM-dd')
-          });
-        }}
-        className="mb-6 bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
-      >
-        {showForm ? 'Hide Form' : 'Add New Member'}
-      </button>
+      {printCards && (
+        <MemberCardSheet cards={printCards} loading={loadingCards} onClose={() => setPrintCards(null)} />
+      )}
+
+      {showImport && (
+        <MemberImport onClose={() => setShowImport(false)} onImported={fetchUsers} />
+      )}
+
+      <div className="flex space-x-4 mb-6">
+        {canEditMembers && (
+          <button
+            onClick={() => {
+              setShowForm(!showForm);
+              setEditingUser(null); // Clear editing state when toggling
+            }}
+            className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+          >
+            {showForm ? 'Hide Form' : 'Add New Member'}
+          </button>
+        )}
+        {canEditMembers && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+          >
+            Import CSV
+          </button>
+        )}
+        <button
+          onClick={() => handlePrintCards(Array.from(selectedUsers.values()))}
+          disabled={selectedUsers.size === 0}
+          className="bg-teal-500 hover:bg-teal-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out"
+        >
+          Print Cards ({selectedUsers.size})
+        </button>
+        <div className="flex-grow" />
+        <ExportButton disabled={totalElements === 0} onExport={handleExport} />
+      </div>
 
       {showForm && (
         <div className="bg-gray-50 p-6 rounded-lg shadow-inner mb-8">
           <h2 className="text-2xl font-semibold text-gray-800 mb-4">{editingUser ? 'Edit Member' : 'Add New Member'}</h2>
-          <form onSubmit={handleFormSubmit}>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name:</label>
-                <input type="text" id="name" name="name" value={formData.name} onChange={handleInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
-              </div>
-              <div>
-                <label htmlFor="age" className="block text-sm font-medium text-gray-700">Age:</label>
-                <input type="number" id="age" name="age" value={formData.age} onChange={handleInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
-              </div>
-              <div>
-                <label htmlFor="gender" className="block text-sm font-medium text-gray-700">Gender:</label>
-                <select id="gender" name="gender" value={formData.gender} onChange={handleInputChange} required
-                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
-                  <option value="">Select Gender</option>
-                  <option value="Male">Male</option>
-                  <option value="Female">Female</option>
-                  <option value="Other">Other</option>
-                </select>
-              </div>
-              <div>
-                <label htmlFor="contactNumber" className="block text-sm font-medium text-gray-700">Contact Number:</label>
-                <input type="text" id="contactNumber" name="contactNumber" value={formData.contactNumber} onChange={handleInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
-              </div>
-              <div>
-                <label htmlFor="membershipStatus" className="block text-sm font-medium text-gray-700">Membership Status:</label>
-                <select id="membershipStatus" name="membershipStatus" value={formData.membershipStatus} onChange={handleInputChange} required
-                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
-                  <option value="Active">Active</option>
-                  <option value="Inactive">Inactive</option>
-                  <option value="Expired">Expired</option>
-                </select>
-              </div>
-              <div>
-                <label htmlFor="joiningDate" className="block text-sm font-medium text-gray-700">Joining Date:</label>
-                <input type="date" id="joiningDate" name="joiningDate" value={formData.joiningDate} onChange={handleInputChange} required
-                       className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
-              </div>
-            </div>
-            <div className="mt-6 flex justify-end space-x-3">
-              <button type="submit" disabled={loading}
-                      className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
-                {loading ? 'Saving...' : (editingUser ? 'Update Member' : 'Add Member')}
-              </button>
-              {editingUser && (
-                <button type="button" onClick={() => { setEditingUser(null); setShowForm(false); setFormData({name: '', age: '', gender: '', contactNumber: '', membershipStatus: 'Inactive', joiningDate: format(new Date(), 'yyyy-MM-dd')}); }}
-                        className="bg-gray-400 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out">
-                  Cancel Edit
-                </button>
-              )}
-            </div>
-          </form>
+          <MemberForm
+            key={editingUser?.userId ?? 'new'}
+            editingUser={editingUser}
+            saving={loading}
+            onSubmit={handleFormSubmit}
+            onCancel={() => { setEditingUser(null); setShowForm(false); }}
+          />
         </div>
       )}
 
@@ -199,48 +284,119 @@ const UsersPage: React.FC = () => {
         <p className="text-red-600 text-center mb-4">{error}</p>
       )}
 
+      {/* Search and filters */}
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-4 items-end">
+        <div className="md:col-span-2">
+          <label htmlFor="memberSearch" className="block text-sm font-medium text-gray-700">Search:</label>
+          <input type="search" id="memberSearch" value={searchInput} onChange={(e) => setSearchInput(e.target.value)}
+                 placeholder="Name or contact number"
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="statusFilter" className="block text-sm font-medium text-gray-700">Status:</label>
+          <select id="statusFilter" value={query.membershipStatus ?? ''} onChange={(e) => updateParams({ status: e.target.value || null })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+            <option value="">All</option>
+            <option value="Active">Active</option>
+            <option value="Inactive">Inactive</option>
+            <option value="Expired">Expired</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="genderFilter" className="block text-sm font-medium text-gray-700">Gender:</label>
+          <select id="genderFilter" value={query.gender ?? ''} onChange={(e) => updateParams({ gender: e.target.value || null })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 bg-white">
+            <option value="">All</option>
+            <option value="Male">Male</option>
+            <option value="Female">Female</option>
+            <option value="Other">Other</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="joinedFrom" className="block text-sm font-medium text-gray-700">Joined From:</label>
+          <input type="date" id="joinedFrom" value={query.joinedFrom ?? ''} onChange={(e) => updateParams({ from: e.target.value || null })}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+        <div>
+          <label htmlFor="joinedTo" className="block text-sm font-medium text-gray-700">Joined To:</label>
+          <input type="date" id="joinedTo" value={query.joinedTo ?? ''} onChange={(e) => updateParams({ to: e.target.value || null })}
+                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2" />
+        </div>
+      </div>
+      {searchParams.toString() && (
+        <button onClick={clearFilters} className="mb-4 text-sm text-blue-600 hover:text-blue-800 underline">Clear filters</button>
+      )}
+
       {loading && !users.length ? ( // Show loading only if no users are loaded yet
         <p className="text-center text-gray-600">Loading members...</p>
       ) : (
         <div className="overflow-x-auto">
           {users.length === 0 ? (
-            <p className="text-center text-gray-500">No members found. Add one above!</p>
+            <p className="text-center text-gray-500">
+              {searchParams.toString() ? 'No members match these filters.' : 'No members found. Add one above!'}
+            </p>
           ) : (
-            <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
-              <thead>
-                <tr className="bg-gray-100">
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">User ID</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Name</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Age</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Gender</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Contact</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Status</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Joining Date</th>
-                  <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {users.map((user) => (
-                  <tr key={user.userId} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4 text-gray-700 text-sm">{user.userId.substring(0, 8)}...</td> {/* Show truncated ID */}
-                    <td className="py-3 px-4 text-gray-700">{user.name}</td>
-                    <td className="py-3 px-4 text-gray-700">{user.age}</td>
-                    <td className="py-3 px-4 text-gray-700">{user.gender}</td>
-                    <td className="py-3 px-4 text-gray-700">{user.contactNumber}</td>
-                    <td className={`py-3 px-4 font-semibold ${user.membershipStatus === 'Active' ? 'text-green-600' : user.membershipStatus === 'Expired' ? 'text-red-600' : 'text-yellow-600'}`}>
-                      {user.membershipStatus}
-                    </td>
-                    <td className="py-3 px-4 text-gray-700">{user.joiningDate}</td>
-                    <td className="py-3 px-4">
-                      <button onClick={() => handleEditClick(user)}
-                              className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
-                      <button onClick={() => handleDeleteClick(user.userId)}
-                              className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md">Delete</button>
-                    </td>
+            <>
+              <table className="min-w-full bg-white border border-gray-200 shadow-sm rounded-lg">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="py-3 px-4 border-b text-left">
+                      <input type="checkbox" checked={allOnPageSelected} onChange={toggleSelectAll}
+                             aria-label="Select all members on this page" />
+                    </th>
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">User ID</th>
+                    <SortableHeader label="Name" field="name" sortBy={query.sortBy} sortDir={query.sortDir} onSort={handleSort} />
+                    <SortableHeader label="Age" field="age" sortBy={query.sortBy} sortDir={query.sortDir} onSort={handleSort} />
+                    <SortableHeader label="Gender" field="gender" sortBy={query.sortBy} sortDir={query.sortDir} onSort={handleSort} />
+                    <SortableHeader label="Contact" field="contactNumber" sortBy={query.sortBy} sortDir={query.sortDir} onSort={handleSort} />
+                    <SortableHeader label="Status" field="membershipStatus" sortBy={query.sortBy} sortDir={query.sortDir} onSort={handleSort} />
+                    <SortableHeader label="Joining Date" field="joiningDate" sortBy={query.sortBy} sortDir={query.sortDir} onSort={handleSort} />
+                    <th className="py-3 px-4 border-b text-left text-gray-600 font-semibold">Actions</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {users.map((user) => (
+                    <tr key={user.userId} className="border-b hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        <input type="checkbox" checked={selectedUsers.has(user.userId)} onChange={() => toggleUserSelection(user)}
+                               aria-label={`Select ${user.name}`} />
+                      </td>
+                      <td className="py-3 px-4 text-gray-700 text-sm">{user.userId.substring(0, 8)}...</td> {/* Show truncated ID */}
+                      <td className="py-3 px-4 text-gray-700">
+                        <Link to={`/users/${user.userId}`} className="text-blue-600 hover:underline">{user.name}</Link>
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">{user.age}</td>
+                      <td className="py-3 px-4 text-gray-700">{user.gender}</td>
+                      <td className="py-3 px-4 text-gray-700">{user.contactNumber}</td>
+                      <td className={`py-3 px-4 font-semibold ${user.membershipStatus === 'Active' ? 'text-green-600' : user.membershipStatus === 'Expired' ? 'text-red-600' : 'text-yellow-600'}`}>
+                        {user.membershipStatus}
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">{user.joiningDate}</td>
+                      <td className="py-3 px-4">
+                        {canEditMembers && (
+                          <button onClick={() => handleEditClick(user)}
+                                  className="bg-blue-500 hover:bg-blue-600 text-white text-sm py-1 px-3 rounded-md mr-2">Edit</button>
+                        )}
+                        {canDeleteMembers && (
+                          <button onClick={() => handleDeleteClick(user.userId)}
+                                  className="bg-red-500 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md mr-2">Delete</button>
+                        )}
+                        <button onClick={() => handlePrintCards([user])}
+                                className="bg-teal-500 hover:bg-teal-600 text-white text-sm py-1 px-3 rounded-md">Print card</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <Pagination
+                page={query.page}
+                totalPages={totalPages}
+                totalElements={totalElements}
+                size={query.size}
+                onPageChange={(page) => updateParams({ page: String(page + 1) }, false)}
+                onSizeChange={(size) => updateParams({ size: String(size) })}
+              />
+            </>
           )}
         </div>
       )}
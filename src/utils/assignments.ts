@@ -0,0 +1,81 @@
+// src/utils/assignments.ts
+import { addDays, addMonths, differenceInCalendarDays, format, max, parseISO, subMonths } from 'date-fns';
+import type { AssignmentFreeze, MembershipPlan, PlanAssignment } from '../api';
+
+export type AssignmentStatus = 'active' | 'frozen' | 'expired' | 'upcoming' | 'cancelled';
+
+export const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+  active: 'Active',
+  frozen: 'Frozen',
+  expired: 'Expired',
+  upcoming: 'Upcoming',
+  cancelled: 'Cancelled',
+};
+
+// Text colour for status cells
+export const ASSIGNMENT_STATUS_COLORS: Record<AssignmentStatus, string> = {
+  active: 'text-green-600',
+  frozen: 'text-cyan-600',
+  expired: 'text-red-600',
+  upcoming: 'text-blue-600',
+  cancelled: 'text-gray-500',
+};
+
+type StatusFields = Pick<PlanAssignment, 'startDate' | 'endDate' | 'cancelledOn' | 'freezes'>;
+
+// The freeze covering the date, if any; open freezes cover every day from their start
+export const freezeOn = (assignment: Pick<PlanAssignment, 'freezes'>, date: string): AssignmentFreeze | undefined =>
+  assignment.freezes?.find(f => f.startDate <= date && (f.endDate === null || f.endDate >= date));
+
+export const openFreeze = (assignment: Pick<PlanAssignment, 'freezes'>): AssignmentFreeze | undefined =>
+  assignment.freezes?.find(f => f.endDate === null);
+
+// Length of a completed freeze, i.e. how far it pushed the end date back
+export const freezeLengthDays = (freeze: AssignmentFreeze): number | null =>
+  freeze.endDate === null ? null : differenceInCalendarDays(parseISO(freeze.endDate), parseISO(freeze.startDate)) + 1;
+
+// today is YYYY-MM-DD; ISO dates compare correctly as strings
+export const getAssignmentStatus = (assignment: StatusFields, today: string): AssignmentStatus => {
+  if (assignment.cancelledOn) return 'cancelled';
+  if (assignment.startDate > today) return 'upcoming';
+  if (freezeOn(assignment, today)) return 'frozen';
+  if (assignment.endDate < today) return 'expired';
+  return 'active';
+};
+
+// Assignments carry planId when the backend sends it; older responses only have the name
+export const findAssignedPlan = (plans: MembershipPlan[], ref: { planId?: number; planName: string }) =>
+  plans.find(p => (ref.planId !== undefined ? p.planId === ref.planId : p.planName === ref.planName));
+
+// Same rule the backend uses when it stores an assignment
+export const assignmentEndDate = (startDate: string, plan: MembershipPlan) =>
+  format(addMonths(parseISO(startDate), plan.durationMonths), 'yyyy-MM-dd');
+
+// The day after the current plan ends, or today if it has already lapsed
+export const renewalStartDate = (endDate: string, today: string) => {
+  const next = format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd');
+  return next > today ? next : today;
+};
+
+export interface ProratedCredit {
+  unusedDays: number;
+  totalDays: number;
+  amount: number;
+}
+
+// Value of the current plan's days from the new start date (never earlier than today) to its end.
+// Expiring-membership rows have no start date, so it is worked back from the plan's duration.
+export const proratedCredit = (
+  current: { startDate?: string; endDate: string },
+  currentPlan: MembershipPlan,
+  newStartDate: string,
+  today: string,
+): ProratedCredit => {
+  const end = parseISO(current.endDate);
+  const start = current.startDate ? parseISO(current.startDate) : subMonths(end, currentPlan.durationMonths);
+  const totalDays = differenceInCalendarDays(end, start) + 1;
+  const from = max([parseISO(newStartDate), parseISO(today), start]);
+  const unusedDays = Math.min(totalDays, Math.max(0, differenceInCalendarDays(end, from) + 1));
+  const amount = totalDays > 0 ? Math.round((currentPlan.price * unusedDays / totalDays) * 100) / 100 : 0;
+  return { unusedDays, totalDays, amount };
+};
@@ -0,0 +1,38 @@
+// src/utils/attendance.ts
+import { differenceInMinutes, format, isSameDay } from 'date-fns';
+import type { AttendanceRecord } from '../api';
+
+export interface AttendanceFilters {
+  member: string; // Matches name or user ID, case-insensitive
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  timeFrom: string; // HH:mm of the check-in, inclusive
+  timeTo: string;
+}
+
+export const EMPTY_ATTENDANCE_FILTERS: AttendanceFilters = { member: '', from: '', to: '', timeFrom: '', timeTo: '' };
+
+// Check-in date and time filters use the browser's local time, like the log itself
+export const filterAttendance = (records: AttendanceRecord[], filters: AttendanceFilters): AttendanceRecord[] => {
+  const member = filters.member.trim().toLowerCase();
+  return records.filter(record => {
+    const checkIn = new Date(record.checkInTime);
+    const date = format(checkIn, 'yyyy-MM-dd');
+    const time = format(checkIn, 'HH:mm');
+    return (!member || record.userName.toLowerCase().includes(member) || record.userId.toLowerCase().includes(member))
+      && (!filters.from || date >= filters.from)
+      && (!filters.to || date <= filters.to)
+      && (!filters.timeFrom || time >= filters.timeFrom)
+      && (!filters.timeTo || time <= filters.timeTo);
+  });
+};
+
+export const visitDurationMinutes = (record: AttendanceRecord): number | null =>
+  record.checkOutTime ? differenceInMinutes(new Date(record.checkOutTime), new Date(record.checkInTime)) : null;
+
+export const formatVisitDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+// Visits left open on earlier days are treated as forgotten check-outs, not people still inside
+export const isInGym = (record: AttendanceRecord, now: Date = new Date()) =>
+  !record.checkOutTime && isSameDay(new Date(record.checkInTime), now);
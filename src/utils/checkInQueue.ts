@@ -0,0 +1,91 @@
+// src/utils/checkInQueue.ts
+// Check-ins made while offline, kept in localStorage so they survive reloads until replayed.
+import { isAxiosError } from 'axios';
+
+export interface QueuedCheckIn {
+  id: string;
+  userId: string;
+  memberName?: string; // Best-effort name for display; the server resolves the real one
+  checkInTime: string; // ISO string of when the member actually arrived
+}
+
+export type ReplayOutcome = 'synced' | 'conflict';
+
+export interface CheckInReplayResult {
+  item: QueuedCheckIn;
+  outcome: ReplayOutcome;
+  message: string;
+}
+
+const STORAGE_KEY = 'offlineCheckIns:v1';
+const LEASE_KEY = 'offlineCheckIns:replayLease:v1';
+const LEASE_MS = 30 * 1000; // Comfortably longer than one request; renewed before each item is sent
+
+// Which tab is replaying the queue, so two open tabs don't send the same check-ins
+interface ReplayLease {
+  owner: string;
+  expiresAt: number; // ms since epoch; a closed tab's lease simply runs out
+}
+
+export const createQueueId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`; // randomUUID needs HTTPS
+
+export const loadQueuedCheckIns = (): QueuedCheckIn[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQueuedCheckIns = (queue: QueuedCheckIn[]) => {
+  if (queue.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  }
+};
+
+// Each function re-reads storage so check-ins queued from another tab are never overwritten
+export const enqueueCheckIn = (userId: string, memberName?: string): QueuedCheckIn => {
+  const item: QueuedCheckIn = {
+    id: createQueueId(),
+    userId,
+    memberName,
+    checkInTime: new Date().toISOString(),
+  };
+  saveQueuedCheckIns([...loadQueuedCheckIns(), item]);
+  return item;
+};
+
+export const removeQueuedCheckIn = (id: string): QueuedCheckIn[] => {
+  const queue = loadQueuedCheckIns().filter(item => item.id !== id);
+  saveQueuedCheckIns(queue);
+  return queue;
+};
+
+const readLease = (): ReplayLease | null => {
+  try {
+    return JSON.parse(localStorage.getItem(LEASE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Takes or renews the replay lease. False while another tab holds it. The re-read catches a tab
+// that wrote its claim at the same moment.
+export const claimReplayLease = (owner: string): boolean => {
+  const lease = readLease();
+  if (lease && lease.owner !== owner && lease.expiresAt > Date.now()) return false;
+  localStorage.setItem(LEASE_KEY, JSON.stringify({ owner, expiresAt: Date.now() + LEASE_MS }));
+  return readLease()?.owner === owner;
+};
+
+export const releaseReplayLease = (owner: string) => {
+  if (readLease()?.owner === owner) localStorage.removeItem(LEASE_KEY);
+};
+
+export const isQueueStorageEvent = (event: StorageEvent) => event.key === STORAGE_KEY || event.key === null;
+
+// No response at all means the request never reached the server
+export const isNetworkError = (err: unknown) => isAxiosError(err) && !err.response;
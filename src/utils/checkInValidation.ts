@@ -0,0 +1,100 @@
+// src/utils/checkInValidation.ts
+// Decides whether a member may check in, from their plans and today's visits.
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { AttendanceRecord, PlanAssignment, User } from '../api';
+import { freezeOn, getAssignmentStatus } from './assignments';
+
+// 'block' needs a manager override, 'warn' needs a confirmation, 'info' is only shown
+export type CheckInIssueSeverity = 'block' | 'warn' | 'info';
+
+export interface CheckInIssue {
+  code: 'no-plan' | 'expired' | 'upcoming' | 'frozen' | 'cancelled' | 'inactive' | 'duplicate' | 'visits-unknown' | 'expiring-soon';
+  severity: CheckInIssueSeverity;
+  message: string;
+}
+
+export interface CheckInEvaluation {
+  currentPlan: PlanAssignment | null; // Active plan, else a frozen, upcoming, expired or cancelled one, in that order
+  daysRemaining: number | null; // Days left on the active plan, 0 on its last day
+  issues: CheckInIssue[];
+}
+
+const EXPIRING_SOON_DAYS = 7;
+
+const displayDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export const evaluateCheckIn = (
+  member: User,
+  assignments: PlanAssignment[],
+  memberRecords: AttendanceRecord[] | null, // This member's visits, only today's are considered; null when they couldn't be loaded
+  now: Date = new Date(),
+): CheckInEvaluation => {
+  const today = format(now, 'yyyy-MM-dd');
+  const issues: CheckInIssue[] = [];
+  const byStatus = (status: ReturnType<typeof getAssignmentStatus>) =>
+    assignments.filter(a => getAssignmentStatus(a, today) === status);
+
+  const active = byStatus('active').sort((a, b) => b.endDate.localeCompare(a.endDate))[0];
+  const frozen = byStatus('frozen')[0];
+  const upcoming = byStatus('upcoming').sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+  const expired = byStatus('expired').sort((a, b) => b.endDate.localeCompare(a.endDate))[0];
+  const cancelled = byStatus('cancelled').sort((a, b) => (b.cancelledOn ?? '').localeCompare(a.cancelledOn ?? ''))[0];
+  const currentPlan = active ?? frozen ?? upcoming ?? expired ?? cancelled ?? null;
+  const daysRemaining = active ? differenceInCalendarDays(parseISO(active.endDate), now) : null;
+
+  if (active) {
+    if (daysRemaining !== null && daysRemaining <= EXPIRING_SOON_DAYS) {
+      issues.push({
+        code: 'expiring-soon',
+        severity: 'info',
+        message: daysRemaining === 0 ? 'Plan ends today.' : `Plan ends in ${daysRemaining} day(s). Remind the member to renew.`,
+      });
+    }
+  } else if (frozen) {
+    const freeze = freezeOn(frozen, today);
+    issues.push({
+      code: 'frozen',
+      severity: 'block',
+      message: freeze?.endDate
+        ? `${frozen.planName} is frozen until ${displayDate(freeze.endDate)}.`
+        : `${frozen.planName} has been frozen since ${displayDate(freeze?.startDate ?? today)}.`,
+    });
+  } else if (upcoming) {
+    issues.push({ code: 'upcoming', severity: 'block', message: `${upcoming.planName} only starts on ${displayDate(upcoming.startDate)}.` });
+  } else if (expired) {
+    issues.push({ code: 'expired', severity: 'block', message: `${expired.planName} expired on ${displayDate(expired.endDate)}.` });
+  } else if (cancelled) {
+    issues.push({ code: 'cancelled', severity: 'block', message: `${cancelled.planName} was cancelled on ${displayDate(cancelled.cancelledOn ?? today)}.` });
+  } else {
+    issues.push({ code: 'no-plan', severity: 'block', message: 'Member has no membership plan.' });
+  }
+
+  if (member.membershipStatus === 'Inactive') {
+    issues.push({ code: 'inactive', severity: 'block', message: 'Membership is marked Inactive.' });
+  }
+
+  if (memberRecords === null) {
+    issues.push({
+      code: 'visits-unknown',
+      severity: 'warn',
+      message: "Today's visits could not be loaded, so an earlier check-in today can't be ruled out.",
+    });
+  }
+  const todaysVisit = (memberRecords ?? [])
+    .filter(r => format(new Date(r.checkInTime), 'yyyy-MM-dd') === today)
+    .sort((a, b) => b.checkInTime.localeCompare(a.checkInTime))[0];
+  if (todaysVisit) {
+    issues.push({
+      code: 'duplicate',
+      severity: 'warn',
+      message: `Already checked in today at ${format(new Date(todaysVisit.checkInTime), 'HH:mm')}.`,
+    });
+  }
+
+  return { currentPlan, daysRemaining, issues };
+};
+
+export const hasBlockingIssue = (evaluation: CheckInEvaluation) => evaluation.issues.some(i => i.severity === 'block');
+
+// Anything beyond informational notes stops the automatic check-in so staff can decide
+export const needsReview = (evaluation: CheckInEvaluation) => evaluation.issues.some(i => i.severity !== 'info');
@@ -0,0 +1,35 @@
+// src/utils/classes.ts
+import { addMinutes, format, parse } from 'date-fns';
+import type { ClassBooking, ClassBookingStatus, GroupClass } from '../api';
+import { mondayFirst } from './peakHours';
+
+export const CLASS_BOOKING_STATUS_LABELS: Record<ClassBookingStatus, string> = {
+  BOOKED: 'Booked',
+  WAITLISTED: 'Waitlisted',
+  CANCELLED: 'Cancelled',
+  ATTENDED: 'Attended',
+};
+
+// Text colour for status cells
+export const CLASS_BOOKING_STATUS_COLORS: Record<ClassBookingStatus, string> = {
+  BOOKED: 'text-blue-600',
+  WAITLISTED: 'text-yellow-600',
+  CANCELLED: 'text-gray-500',
+  ATTENDED: 'text-green-600',
+};
+
+export const runsOn = (groupClass: Pick<GroupClass, 'weekdays'>, day: Date): boolean => groupClass.weekdays.includes(mondayFirst(day));
+
+// HH:mm the class finishes
+export const classEndTime = (groupClass: Pick<GroupClass, 'startTime' | 'durationMinutes'>): string =>
+  format(addMinutes(parse(groupClass.startTime, 'HH:mm', new Date()), groupClass.durationMinutes), 'HH:mm');
+
+export interface ClassOccupancy {
+  taken: number; // Booked or already attended
+  waitlisted: number;
+}
+
+export const occupancy = (bookings: ClassBooking[]): ClassOccupancy => ({
+  taken: bookings.filter(b => b.status === 'BOOKED' || b.status === 'ATTENDED').length,
+  waitlisted: bookings.filter(b => b.status === 'WAITLISTED').length,
+});
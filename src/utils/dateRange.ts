@@ -0,0 +1,95 @@
+// src/utils/dateRange.ts
+// Date ranges and period roll-ups for dashboard charts. Dates are YYYY-MM-DD strings.
+import {
+  addDays, differenceInCalendarDays, eachDayOfInterval, endOfMonth, format, min, parseISO, startOfMonth,
+  startOfWeek, subDays, subMonths,
+} from 'date-fns';
+
+export type RangePreset = '7d' | '30d' | '90d' | 'month' | 'custom';
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  start: string;
+  end: string; // Inclusive
+}
+
+export interface PeriodBucket {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  month: 'This month',
+  custom: 'Custom',
+};
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Custom ranges are chosen by the caller, so only the fixed presets resolve here
+export const resolvePresetRange = (preset: Exclude<RangePreset, 'custom'>, today: Date = new Date()): DateRange => {
+  const end = toDateString(today);
+  switch (preset) {
+    case '7d': return { start: toDateString(subDays(today, 6)), end };
+    case '30d': return { start: toDateString(subDays(today, 29)), end };
+    case '90d': return { start: toDateString(subDays(today, 89)), end };
+    case 'month': return { start: toDateString(startOfMonth(today)), end };
+  }
+};
+
+export const rangeLengthInDays = (range: DateRange) =>
+  differenceInCalendarDays(parseISO(range.end), parseISO(range.start)) + 1;
+
+// The period of the same length that ends the day before range starts. For month-to-date
+// ranges it is the same days of the previous month instead, e.g. Sep 1-19 for Oct 1-19.
+export const previousPeriod = (range: DateRange, preset?: RangePreset): DateRange => {
+  const start = parseISO(range.start);
+  if (preset === 'month') {
+    const previousStart = startOfMonth(subMonths(start, 1));
+    const previousEnd = min([addDays(previousStart, rangeLengthInDays(range) - 1), endOfMonth(previousStart)]);
+    return { start: toDateString(previousStart), end: toDateString(previousEnd) };
+  }
+  return {
+    start: toDateString(subDays(start, rangeLengthInDays(range))),
+    end: toDateString(subDays(start, 1)),
+  };
+};
+
+const bucketFor = (date: Date, granularity: Granularity): { key: string; label: string } => {
+  switch (granularity) {
+    case 'day':
+      return { key: toDateString(date), label: format(date, 'MMM d') };
+    case 'week': {
+      const weekStart = startOfWeek(date, { weekStartsOn: 1 });
+      return { key: toDateString(weekStart), label: `Week of ${format(weekStart, 'MMM d')}` };
+    }
+    case 'month':
+      return { key: format(date, 'yyyy-MM'), label: format(date, 'MMM yyyy') };
+  }
+};
+
+// Rolls per-date counts up into day/week/month buckets, including empty ones, in date order.
+// Weeks start on Monday; the first and last buckets may be partial.
+export const bucketCounts = (countsByDate: Record<string, number>, range: DateRange, granularity: Granularity): PeriodBucket[] => {
+  const buckets = new Map<string, PeriodBucket>();
+  eachDayOfInterval({ start: parseISO(range.start), end: parseISO(range.end) }).forEach(day => {
+    const { key, label } = bucketFor(day, granularity);
+    const bucket = buckets.get(key) ?? { key, label, count: 0 };
+    bucket.count += countsByDate[toDateString(day)] ?? 0;
+    buckets.set(key, bucket);
+  });
+  return Array.from(buckets.values());
+};
+
+// Percentage change from previous to current, or null when there is nothing to compare against
+export const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / previous) * 100;
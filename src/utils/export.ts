@@ -0,0 +1,55 @@
+// src/utils/export.ts
+// Table exports to CSV or Excel from one column definition.
+import { format, parseISO } from 'date-fns';
+import { downloadCsv, downloadFile } from './csv';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+  type?: 'date' | 'datetime'; // value is an ISO date (YYYY-MM-DD) or date-time string
+}
+
+const DATE_FORMATS = {
+  date: { csv: 'yyyy-MM-dd', xlsx: 'yyyy-mm-dd' },
+  datetime: { csv: 'yyyy-MM-dd HH:mm:ss', xlsx: 'yyyy-mm-dd hh:mm:ss' },
+};
+
+// The xlsx writer converts dates as UTC, so shift local wall-clock time into UTC first
+const toExcelDate = (date: Date) => new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+
+const exportXlsx = async <T>(rows: T[], columns: ExportColumn<T>[], filename: string) => {
+  // Loaded on demand so the spreadsheet writer stays out of the main bundle
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const header = columns.map(column => ({ value: column.header, fontWeight: 'bold' as const }));
+  const body = rows.map(row => columns.map(column => {
+    const value = column.value(row);
+    if (value === null || value === undefined || value === '') return null;
+    if (column.type && typeof value === 'string') {
+      return { value: toExcelDate(parseISO(value)), format: DATE_FORMATS[column.type].xlsx };
+    }
+    return { value };
+  }));
+  const blob = await writeXlsxFile([header, ...body], {
+    columns: columns.map(column => ({ width: column.type === 'datetime' ? 20 : Math.max(12, column.header.length + 2) })),
+    stickyRowsCount: 1,
+  }).toBlob();
+  downloadFile(filename, blob, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
+
+// Downloads rows as <baseName>-<timestamp>.csv or .xlsx
+export const exportRows = async <T>(rows: T[], columns: ExportColumn<T>[], baseName: string, exportFormat: ExportFormat) => {
+  const filename = `${baseName}-${format(new Date(), 'yyyyMMdd-HHmm')}.${exportFormat}`;
+  if (exportFormat === 'xlsx') {
+    await exportXlsx(rows, columns, filename);
+    return;
+  }
+  downloadCsv(filename, [
+    columns.map(column => column.header),
+    ...rows.map(row => columns.map(column => {
+      const value = column.value(row);
+      return column.type && typeof value === 'string' && value ? format(parseISO(value), DATE_FORMATS[column.type].csv) : value;
+    })),
+  ]);
+};
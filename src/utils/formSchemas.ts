@@ -0,0 +1,65 @@
+// src/utils/formSchemas.ts
+// Validation schemas for the member, trainer, plan and plan assignment forms.
+// Form values are the raw input strings; numbers are only parsed once the schema passes.
+import { date, phoneNumber, positiveNumber, required, wholeNumber, type FormSchema } from './formValidation';
+
+export interface MemberFormValues {
+  name: string;
+  age: string;
+  gender: string;
+  contactNumber: string;
+  membershipStatus: string;
+  joiningDate: string;
+}
+
+export interface TrainerFormValues {
+  name: string;
+  experience: string;
+  specialization: string;
+  availability: string;
+}
+
+export interface PlanFormValues {
+  planName: string;
+  price: string;
+  durationMonths: string;
+  featuresList: string;
+}
+
+export interface AssignmentFormValues {
+  userId: string;
+  planId: string;
+  startDate: string;
+}
+
+export const MEMBER_FIELDS = ['name', 'age', 'gender', 'contactNumber', 'membershipStatus', 'joiningDate'] as const;
+export const TRAINER_FIELDS = ['name', 'experience', 'specialization', 'availability'] as const;
+export const PLAN_FIELDS = ['planName', 'price', 'durationMonths', 'featuresList'] as const;
+export const ASSIGNMENT_FIELDS = ['userId', 'planId', 'startDate'] as const;
+
+// today is YYYY-MM-DD; members can't have joined in the future
+export const memberFormSchema = (today: string): FormSchema<MemberFormValues> => ({
+  name: [required('Name')],
+  age: [required('Age'), wholeNumber('Age', 1, 120)],
+  gender: [required('Gender')],
+  contactNumber: [required('Contact number'), phoneNumber('Contact number')],
+  membershipStatus: [required('Membership status')],
+  joiningDate: [required('Joining date'), date('Joining date', today)],
+});
+
+export const TRAINER_FORM_SCHEMA: FormSchema<TrainerFormValues> = {
+  name: [required('Name')],
+  experience: [required('Experience'), wholeNumber('Experience', 0, 60)],
+};
+
+export const PLAN_FORM_SCHEMA: FormSchema<PlanFormValues> = {
+  planName: [required('Plan name')],
+  price: [required('Price'), positiveNumber('Price')],
+  durationMonths: [required('Duration'), wholeNumber('Duration', 1, 120)],
+};
+
+export const ASSIGNMENT_FORM_SCHEMA: FormSchema<AssignmentFormValues> = {
+  userId: [required('Member')],
+  planId: [required('Plan')],
+  startDate: [required('Start date'), date('Start date')],
+};
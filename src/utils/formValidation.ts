@@ -0,0 +1,89 @@
+// src/utils/formValidation.ts
+// Schema-based validation for the add/edit forms.
+// A schema lists the rules for each field; validateForm runs them against the raw input strings
+// and keeps the first failure per field, so each input can show its own message.
+import { isValid, parseISO } from 'date-fns';
+import { normalizeApiError } from '../api/errors';
+
+// Returns why the value is invalid, or null when it passes. Empty values pass every rule except required,
+// so optional fields are only checked once something is typed.
+export type FieldRule = (value: string) => string | null;
+
+export type FormSchema<T> = { [K in keyof T]?: FieldRule[] };
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+
+// Digits with optional spaces, dashes, dots and brackets, and a leading +
+const PHONE_PATTERN = /^\+?[\d\s\-().]+$/;
+const PHONE_MIN_DIGITS = 7;
+const PHONE_MAX_DIGITS = 15;
+
+export const isPhoneNumber = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '').length;
+  return PHONE_PATTERN.test(value.trim()) && digits >= PHONE_MIN_DIGITS && digits <= PHONE_MAX_DIGITS;
+};
+
+export const required = (label: string): FieldRule =>
+  value => (value.trim() === '' ? `${label} is required` : null);
+
+export const wholeNumber = (label: string, min: number, max?: number): FieldRule => value => {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number)) return `${label} must be a whole number`;
+  if (number < min || (max !== undefined && number > max)) {
+    return max === undefined ? `${label} must be at least ${min}` : `${label} must be between ${min} and ${max}`;
+  }
+  return null;
+};
+
+export const positiveNumber = (label: string): FieldRule => value => {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? null : `${label} must be greater than 0`;
+};
+
+export const phoneNumber = (label: string): FieldRule =>
+  value => (value.trim() === '' || isPhoneNumber(value)
+    ? null
+    : `${label} must be ${PHONE_MIN_DIGITS} to ${PHONE_MAX_DIGITS} digits, optionally with +, spaces or dashes`);
+
+// YYYY-MM-DD within a sane range; notAfter (also YYYY-MM-DD) rejects later dates, e.g. today for a joining date
+export const date = (label: string, notAfter?: string): FieldRule => value => {
+  if (value.trim() === '') return null;
+  const parsed = parseISO(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(parsed)) return `${label} is not a valid date`;
+  if (parsed.getFullYear() < MIN_YEAR || parsed.getFullYear() > MAX_YEAR) return `${label} must be between ${MIN_YEAR} and ${MAX_YEAR}`;
+  if (notAfter && value > notAfter) return `${label} cannot be in the future`;
+  return null;
+};
+
+export const validateForm = <T extends { [K in keyof T]: string }>(schema: FormSchema<T>, values: T): FieldErrors<T> => {
+  const errors: FieldErrors<T> = {};
+  for (const field of Object.keys(schema) as (keyof T)[]) {
+    for (const rule of schema[field] ?? []) {
+      const message = rule(values[field]);
+      if (message) {
+        errors[field] = message;
+        break;
+      }
+    }
+  }
+  return errors;
+};
+
+export const hasFieldErrors = <T>(errors: FieldErrors<T>): boolean => Object.values(errors).some(Boolean);
+
+// Border colour for an input, red while it has an error
+export const inputBorder = (error: string | undefined): string => (error ? 'border-red-500' : 'border-gray-300');
+
+// Backend field errors for the inputs on this form. The rest of the failure is shown by the notification center.
+export const serverFieldErrors = <T>(err: unknown, fields: readonly (keyof T & string)[]): FieldErrors<T> => {
+  const fieldErrors: FieldErrors<T> = {};
+  Object.entries(normalizeApiError(err).fieldErrors).forEach(([field, message]) => {
+    if ((fields as readonly string[]).includes(field)) fieldErrors[field as keyof T] = message;
+  });
+  return fieldErrors;
+};
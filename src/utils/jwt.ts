@@ -0,0 +1,35 @@
+// src/utils/jwt.ts
+// Client-side JWT helpers. These only *read* the token payload; the signature is verified by the backend.
+
+export interface JwtPayload {
+  sub?: string;
+  exp?: number; // Seconds since epoch
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// Decode the payload segment of a JWT. Returns null for malformed tokens.
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const bytes = Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof payload === 'object' && payload !== null ? payload as JwtPayload : null;
+  } catch {
+    return null;
+  }
+};
+
+// Expiry time in milliseconds since epoch, or null if the token has no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = decodeJwtPayload(token);
+  return payload && typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+export const isTokenExpired = (token: string, now: number = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+};
@@ -0,0 +1,124 @@
+// src/utils/memberImport.ts
+// Column mapping and row validation for importing members from a CSV export.
+import { format, isValid, parse } from 'date-fns';
+import type { User, UserPayload } from '../api';
+import { isPhoneNumber } from './formValidation';
+
+export type ImportField = keyof UserPayload;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'age', label: 'Age', required: true },
+  { field: 'gender', label: 'Gender', required: true },
+  { field: 'contactNumber', label: 'Contact Number', required: true },
+  { field: 'membershipStatus', label: 'Membership Status', required: false }, // Defaults to Inactive
+  { field: 'joiningDate', label: 'Joining Date', required: false }, // Defaults to today
+];
+
+// Column index in the file for each field, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportRow {
+  rowNumber: number; // Row in the file, counting the header as 1 and skipping blank lines
+  cells: string[]; // Raw values, for showing rows that failed validation
+  payload: UserPayload | null; // Null when the row has errors
+  errors: string[];
+  duplicateOf?: string; // Why the row is treated as a duplicate
+}
+
+const GENDERS: Record<string, string> = { male: 'Male', m: 'Male', female: 'Female', f: 'Female', other: 'Other', o: 'Other' };
+const STATUSES: Record<string, string> = { active: 'Active', inactive: 'Inactive', expired: 'Expired' };
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy'];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'fullname', 'membername'],
+  age: ['age'],
+  gender: ['gender', 'sex'],
+  contactNumber: ['contactnumber', 'contact', 'phone', 'phonenumber', 'mobile'],
+  membershipStatus: ['membershipstatus', 'status'],
+  joiningDate: ['joiningdate', 'joined', 'joindate', 'startdate'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Contact numbers are compared by digits only, so "+91 98765-43210" matches "919876543210"
+export const normalizeContact = (contact: string) => contact.replace(/\D/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+const parseJoiningDate = (value: string): string | null => {
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() >= 1900) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+const validateRow = (cells: string[], mapping: ColumnMapping): { payload: UserPayload | null; errors: string[] } => {
+  const cell = (field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] ?? '').trim();
+  };
+  const errors: string[] = [];
+
+  const name = cell('name');
+  if (!name) errors.push('Name is required');
+
+  const age = Number(cell('age'));
+  if (!cell('age') || !Number.isInteger(age) || age < 1 || age > 120) {
+    errors.push(`Age "${cell('age')}" must be a whole number between 1 and 120`);
+  }
+
+  const gender = GENDERS[cell('gender').toLowerCase()];
+  if (!gender) errors.push(`Gender "${cell('gender')}" must be Male, Female or Other`);
+
+  const contactNumber = cell('contactNumber');
+  if (!contactNumber) {
+    errors.push('Contact number is required');
+  } else if (!isPhoneNumber(contactNumber)) {
+    errors.push(`Contact number "${contactNumber}" is not a valid phone number`);
+  }
+
+  const rawStatus = cell('membershipStatus');
+  const membershipStatus = rawStatus ? STATUSES[rawStatus.toLowerCase()] : 'Inactive';
+  if (!membershipStatus) errors.push(`Membership status "${rawStatus}" must be Active, Inactive or Expired`);
+
+  const rawDate = cell('joiningDate');
+  const joiningDate = rawDate ? parseJoiningDate(rawDate) : format(new Date(), 'yyyy-MM-dd');
+  if (!joiningDate) errors.push(`Joining date "${rawDate}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)`);
+
+  if (errors.length > 0 || !gender || !membershipStatus || !joiningDate) return { payload: null, errors };
+  return { payload: { name, age, gender, contactNumber, membershipStatus, joiningDate }, errors };
+};
+
+// Validates every data row and flags duplicates, both within the file and against existing members
+export const validateImportRows = (dataRows: string[][], mapping: ColumnMapping, existingUsers: User[]): ImportRow[] => {
+  const existingContacts = new Map(existingUsers.map(u => [normalizeContact(u.contactNumber), u.name]));
+  const seenContacts = new Map<string, number>(); // Contact -> first row number using it
+
+  return dataRows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const { payload, errors } = validateRow(cells, mapping);
+    if (!payload) return { rowNumber, cells, payload, errors };
+
+    const contact = normalizeContact(payload.contactNumber);
+    const existingName = existingContacts.get(contact);
+    const firstRow = seenContacts.get(contact);
+    if (existingName !== undefined) {
+      return { rowNumber, cells, payload: null, errors, duplicateOf: `Existing member ${existingName} has this contact number` };
+    }
+    if (firstRow !== undefined) {
+      return { rowNumber, cells, payload: null, errors, duplicateOf: `Same contact number as row ${firstRow}` };
+    }
+    seenContacts.set(contact, rowNumber);
+    return { rowNumber, cells, payload, errors };
+  });
+};
@@ -0,0 +1,39 @@
+// src/utils/notifications.ts
+export type NotificationType = 'success' | 'error' | 'warning' | 'info';
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  message: string;
+  details: string[]; // Extra lines, e.g. the fields a save was rejected for
+  createdAt: number; // ms since epoch of the latest occurrence
+  count: number; // How many times it was raised while still on screen
+  read: boolean; // Seen in the notification history
+  showing: boolean; // Still shown as a toast
+}
+
+export const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  success: 'Success',
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Info',
+};
+
+// Card colours for toasts and history entries
+export const NOTIFICATION_STYLES: Record<NotificationType, string> = {
+  success: 'bg-green-50 border-green-400 text-green-800',
+  error: 'bg-red-50 border-red-400 text-red-800',
+  warning: 'bg-yellow-50 border-yellow-400 text-yellow-800',
+  info: 'bg-blue-50 border-blue-400 text-blue-800',
+};
+
+// Errors and warnings stay up longer since they usually need reading
+export const TOAST_DURATION_MS: Record<NotificationType, number> = {
+  success: 4000,
+  info: 4000,
+  warning: 8000,
+  error: 8000,
+};
+
+export const HISTORY_LIMIT = 50;
+export const MAX_VISIBLE_TOASTS = 4;
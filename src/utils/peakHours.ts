@@ -0,0 +1,60 @@
+// src/utils/peakHours.ts
+// Hour-of-day by day-of-week traffic from check-in times, in the browser's local time.
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import type { AttendanceRecord } from '../api';
+import type { DateRange } from './dateRange';
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface PeakHoursHeatmap {
+  counts: number[][]; // [weekday 0 = Monday][hour 0-23]
+  dayOccurrences: number[]; // How many of each weekday fall in the range, for per-day averages
+  total: number;
+  max: number; // Largest single cell, for colour scaling
+}
+
+export interface BusySlot {
+  weekday: number; // 0 = Monday
+  hour: number;
+  count: number;
+  averagePerDay: number;
+}
+
+export const mondayFirst = (date: Date) => (date.getDay() + 6) % 7;
+
+export const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export const buildPeakHoursHeatmap = (records: AttendanceRecord[], range: DateRange): PeakHoursHeatmap => {
+  const counts = WEEKDAY_LABELS.map(() => new Array<number>(24).fill(0));
+  const dayOccurrences = new Array<number>(7).fill(0);
+  eachDayOfInterval({ start: parseISO(range.start), end: parseISO(range.end) })
+    .forEach(day => dayOccurrences[mondayFirst(day)]++);
+
+  let total = 0;
+  records.forEach(record => {
+    const time = new Date(record.checkInTime);
+    const date = format(time, 'yyyy-MM-dd');
+    if (date < range.start || date > range.end) return;
+    counts[mondayFirst(time)][time.getHours()]++;
+    total++;
+  });
+
+  return { counts, dayOccurrences, total, max: Math.max(0, ...counts.flat()) };
+};
+
+// The busiest weekday/hour slots, ranked by average check-ins on that weekday
+export const busiestSlots = (heatmap: PeakHoursHeatmap, limit: number): BusySlot[] =>
+  heatmap.counts
+    .flatMap((hours, weekday) => hours.map((count, hour) => ({
+      weekday,
+      hour,
+      count,
+      averagePerDay: heatmap.dayOccurrences[weekday] ? count / heatmap.dayOccurrences[weekday] : 0,
+    })))
+    .filter(slot => slot.count > 0)
+    .sort((a, b) => b.averagePerDay - a.averagePerDay || b.count - a.count)
+    .slice(0, limit);
+
+// Check-ins per hour of day across all weekdays, e.g. to plan daily shifts
+export const totalsByHour = (heatmap: PeakHoursHeatmap): number[] =>
+  Array.from({ length: 24 }, (_, hour) => heatmap.counts.reduce((sum, hours) => sum + hours[hour], 0));
@@ -0,0 +1,122 @@
+// src/utils/revenue.ts
+// Revenue figures derived from plan assignments. Assignments don't record what was paid, so each
+// one is valued at its plan's current price; monthly value spreads that price over the plan's duration.
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import type { ExpiringMembership, MembershipPlan, PlanAssignment } from '../api';
+import { findAssignedPlan } from './assignments';
+
+// One row behind a revenue figure, shown in drill-downs
+export interface RevenueLine {
+  assignmentId: number;
+  userId?: string;
+  userName: string;
+  planName: string;
+  startDate?: string; // Not known for expiring memberships
+  endDate: string;
+  amount: number;
+}
+
+export interface RevenueBucket {
+  key: string;
+  label: string;
+  amount: number;
+  lines: RevenueLine[];
+}
+
+export const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const monthlyValue = (plan: MembershipPlan) => plan.price / Math.max(1, plan.durationMonths);
+
+const toLine = (assignment: PlanAssignment, amount: number): RevenueLine => ({
+  assignmentId: assignment.assignmentId,
+  userId: assignment.userId,
+  userName: assignment.userName,
+  planName: assignment.planName,
+  startDate: assignment.startDate,
+  endDate: assignment.endDate,
+  amount,
+});
+
+const sumLines = (lines: RevenueLine[]) => lines.reduce((sum, line) => sum + line.amount, 0);
+
+// The last `count` calendar months ending with the current one, oldest first
+export const recentMonths = (count: number, today: Date = new Date()): Date[] =>
+  Array.from({ length: count }, (_, index) => startOfMonth(subMonths(today, count - 1 - index)));
+
+// Full plan price, booked in the month the assignment starts
+export const bookedRevenueByMonth = (assignments: PlanAssignment[], plans: MembershipPlan[], months: Date[]): RevenueBucket[] =>
+  months.map(month => {
+    const key = format(month, 'yyyy-MM');
+    const lines = assignments
+      .filter(a => a.startDate.startsWith(key))
+      .flatMap(a => {
+        const plan = findAssignedPlan(plans, a);
+        return plan ? [toLine(a, plan.price)] : [];
+      });
+    return { key, label: format(month, 'MMM yyyy'), amount: sumLines(lines), lines };
+  });
+
+// Monthly value of every assignment active at any point in the month; cancelled ones stop counting from then
+export const recurringRevenueByMonth = (assignments: PlanAssignment[], plans: MembershipPlan[], months: Date[]): RevenueBucket[] =>
+  months.map(month => {
+    const from = format(month, 'yyyy-MM-dd');
+    const to = format(endOfMonth(month), 'yyyy-MM-dd');
+    const lines = assignments
+      .filter(a => a.startDate <= to && a.endDate >= from && (!a.cancelledOn || a.cancelledOn > from))
+      .flatMap(a => {
+        const plan = findAssignedPlan(plans, a);
+        return plan ? [toLine(a, monthlyValue(plan))] : [];
+      });
+    return { key: format(month, 'yyyy-MM'), label: format(month, 'MMM yyyy'), amount: sumLines(lines), lines };
+  });
+
+// Booked revenue per plan for assignments starting within the given months
+export const revenueByPlan = (assignments: PlanAssignment[], plans: MembershipPlan[], months: Date[]): RevenueBucket[] => {
+  const from = format(months[0], 'yyyy-MM-dd');
+  const to = format(endOfMonth(months[months.length - 1]), 'yyyy-MM-dd');
+  const buckets = new Map<string, RevenueBucket>();
+  assignments
+    .filter(a => a.startDate >= from && a.startDate <= to)
+    .forEach(a => {
+      const plan = findAssignedPlan(plans, a);
+      if (!plan) return;
+      const bucket = buckets.get(plan.planName) ?? { key: plan.planName, label: plan.planName, amount: 0, lines: [] };
+      bucket.lines.push(toLine(a, plan.price));
+      bucket.amount += plan.price;
+      buckets.set(plan.planName, bucket);
+    });
+  return Array.from(buckets.values()).sort((a, b) => b.amount - a.amount);
+};
+
+// Renewal value of expiring memberships, per plan: lost if the members don't renew
+export const revenueAtRisk = (expiring: ExpiringMembership[], plans: MembershipPlan[]): RevenueBucket[] => {
+  const buckets = new Map<string, RevenueBucket>();
+  expiring.forEach(membership => {
+    const plan = findAssignedPlan(plans, membership);
+    if (!plan) return;
+    const bucket = buckets.get(plan.planName) ?? { key: plan.planName, label: plan.planName, amount: 0, lines: [] };
+    bucket.lines.push({
+      assignmentId: membership.assignmentId,
+      userId: membership.userId,
+      userName: membership.userName,
+      planName: membership.planName,
+      endDate: membership.endDate,
+      amount: plan.price,
+    });
+    bucket.amount += plan.price;
+    buckets.set(plan.planName, bucket);
+  });
+  return Array.from(buckets.values()).sort((a, b) => b.amount - a.amount);
+};
+
+// Current monthly recurring revenue: monthly value of assignments covering today
+export const currentRecurringRevenue = (assignments: PlanAssignment[], plans: MembershipPlan[], today: string): RevenueBucket => {
+  const lines = assignments
+    .filter(a => !a.cancelledOn && a.startDate <= today && a.endDate >= today)
+    .flatMap(a => {
+      const plan = findAssignedPlan(plans, a);
+      return plan ? [toLine(a, monthlyValue(plan))] : [];
+    });
+  return { key: 'current', label: `As of ${format(parseISO(today), 'MMM d, yyyy')}`, amount: sumLines(lines), lines };
+};
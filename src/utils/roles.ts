@@ -0,0 +1,85 @@
+// src/utils/roles.ts
+// Staff roles and what each one is allowed to see and do.
+import type { JwtPayload } from './jwt';
+
+export type Role = 'OWNER' | 'MANAGER' | 'FRONT_DESK' | 'TRAINER' | 'KIOSK';
+
+// Every staff role. KIOSK is the restricted self-service check-in session, not a person, so it is
+// kept out of this list and therefore out of every page below.
+export const ALL_ROLES: readonly Role[] = ['OWNER', 'MANAGER', 'FRONT_DESK', 'TRAINER'];
+
+const KNOWN_ROLES: readonly Role[] = [...ALL_ROLES, 'KIOSK'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  OWNER: 'Owner',
+  MANAGER: 'Manager',
+  FRONT_DESK: 'Front Desk',
+  TRAINER: 'Trainer',
+  KIOSK: 'Kiosk',
+};
+
+// Roles required for each route and action. Routes and buttons reference these by key.
+export const ACCESS = {
+  viewDashboard: ALL_ROLES,
+  viewRevenue: ['OWNER', 'MANAGER'],
+  viewMembers: ALL_ROLES,
+  editMembers: ['OWNER', 'MANAGER', 'FRONT_DESK'],
+  deleteMembers: ['OWNER', 'MANAGER'],
+  viewTrainers: ALL_ROLES,
+  editTrainers: ['OWNER', 'MANAGER'],
+  deleteTrainers: ['OWNER'],
+  viewPlans: ALL_ROLES,
+  editPlans: ['OWNER', 'MANAGER'],
+  deletePlans: ['OWNER'],
+  assignPlans: ['OWNER', 'MANAGER', 'FRONT_DESK'],
+  editAssignments: ['OWNER', 'MANAGER', 'FRONT_DESK'], // Fix dates or plan, freeze and resume
+  cancelAssignments: ['OWNER', 'MANAGER'],
+  viewAttendance: ALL_ROLES,
+  checkIn: ['OWNER', 'MANAGER', 'FRONT_DESK'],
+  overrideCheckIn: ['OWNER', 'MANAGER'],
+  launchKiosk: ['OWNER', 'MANAGER', 'FRONT_DESK'],
+  useKiosk: ['KIOSK'],
+  bookSessions: ALL_ROLES, // Book PT sessions and record how they went; trainers manage their own diary
+  viewClasses: ALL_ROLES,
+  editClasses: ['OWNER', 'MANAGER'],
+  deleteClasses: ['OWNER'],
+  bookClasses: ['OWNER', 'MANAGER', 'FRONT_DESK'],
+  markClassAttendance: ALL_ROLES, // Trainers take the register for their own classes, which also checks members in
+} satisfies Record<string, readonly Role[]>;
+
+export type AccessKey = keyof typeof ACCESS;
+
+// Used when neither the token nor the login response names a role. Only a server that explicitly
+// grants OWNER (or any other role) unlocks more, so a backend without role support can't hand out full rights.
+export const DEFAULT_ROLES: Role[] = ['TRAINER'];
+
+// Accepts "OWNER", "owner", "ROLE_OWNER", "front desk", "front-desk"...
+export const normalizeRole = (value: string): Role | null => {
+  const normalized = value.trim().toUpperCase().replace(/^ROLE_/, '').replace(/[\s-]+/g, '_');
+  if (normalized === 'ADMIN') return 'OWNER';
+  return (KNOWN_ROLES as readonly string[]).includes(normalized) ? normalized as Role : null;
+};
+
+export const normalizeRoles = (values: unknown): Role[] => {
+  const list = Array.isArray(values) ? values : [values];
+  const roles = list
+    .map(item => (typeof item === 'object' && item !== null && 'authority' in item ? (item as { authority: unknown }).authority : item))
+    .filter((item): item is string => typeof item === 'string')
+    .map(normalizeRole)
+    .filter((role): role is Role => role !== null);
+  return Array.from(new Set(roles));
+};
+
+// Read roles from the common claim names used by Spring Security JWT setups
+export const extractRolesFromClaims = (payload: JwtPayload | null): Role[] => {
+  if (!payload) return [];
+  for (const claim of ['roles', 'role', 'authorities', 'scope']) {
+    const value = payload[claim];
+    const roles = normalizeRoles(typeof value === 'string' ? value.split(/[\s,]+/) : value);
+    if (roles.length > 0) return roles;
+  }
+  return [];
+};
+
+export const hasAnyRole = (userRoles: readonly Role[], allowed: readonly Role[]): boolean =>
+  userRoles.some(role => allowed.includes(role));
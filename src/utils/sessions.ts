@@ -0,0 +1,38 @@
+// src/utils/sessions.ts
+import type { TrainingSession, TrainingSessionStatus } from '../api';
+
+export const SESSION_STATUS_LABELS: Record<TrainingSessionStatus, string> = {
+  SCHEDULED: 'Scheduled',
+  COMPLETED: 'Completed',
+  NO_SHOW: 'No-show',
+  CANCELLED: 'Cancelled',
+};
+
+// Text colour for status cells
+export const SESSION_STATUS_COLORS: Record<TrainingSessionStatus, string> = {
+  SCHEDULED: 'text-blue-600',
+  COMPLETED: 'text-green-600',
+  NO_SHOW: 'text-red-600',
+  CANCELLED: 'text-gray-500',
+};
+
+export const SESSION_DURATIONS_MINUTES = [30, 45, 60, 90];
+
+// Scheduled sessions that haven't finished yet, soonest first
+export const upcomingSessions = (sessions: TrainingSession[], now: Date): TrainingSession[] =>
+  sessions
+    .filter(s => s.status === 'SCHEDULED' && new Date(s.endTime) > now)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+// Everything else, most recent first
+export const pastSessions = (sessions: TrainingSession[], now: Date): TrainingSession[] =>
+  sessions
+    .filter(s => s.status !== 'SCHEDULED' || new Date(s.endTime) <= now)
+    .sort((a, b) => b.startTime.localeCompare(a.startTime));
+
+// Completed and no-show can only be recorded once the session has started
+export const hasStarted = (session: TrainingSession, now: Date): boolean => new Date(session.startTime) <= now;
+
+// The trainer's first session overlapping start-end; cancelled sessions free the slot, as on the backend
+export const findClash = (sessions: TrainingSession[], start: Date, end: Date): TrainingSession | undefined =>
+  sessions.find(s => s.status !== 'CANCELLED' && new Date(s.startTime) < end && new Date(s.endTime) > start);
@@ -0,0 +1,143 @@
+// src/utils/trainerAvailability.ts
+// Weekly shifts and days off for trainers. Times are HH:mm in the gym's local time, so they
+// compare correctly as strings.
+import { format } from 'date-fns';
+import type { AvailabilityException, AvailabilityExceptionReason, AvailabilitySlot, Trainer } from '../api';
+import { WEEKDAY_LABELS, mondayFirst } from './peakHours';
+
+export const EXCEPTION_REASON_LABELS: Record<AvailabilityExceptionReason, string> = {
+  leave: 'Leave',
+  holiday: 'Holiday',
+  other: 'Away',
+};
+
+type AvailabilityFields = Pick<Trainer, 'weeklySlots' | 'exceptions'>;
+
+// Trainers without weekly slots only have the old free-text availability, which can't be searched
+export const hasWeeklySlots = (trainer: AvailabilityFields): boolean => (trainer.weeklySlots?.length ?? 0) > 0;
+
+// date is YYYY-MM-DD
+export const exceptionOn = (trainer: AvailabilityFields, date: string): AvailabilityException | undefined =>
+  trainer.exceptions?.find(e => e.startDate <= date && e.endDate >= date);
+
+export const sortSlots = (slots: AvailabilitySlot[]): AvailabilitySlot[] =>
+  [...slots].sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+
+// Shifts worked on the given day; none while on leave or a holiday
+export const shiftsOn = (trainer: AvailabilityFields, day: Date): AvailabilitySlot[] => {
+  if (exceptionOn(trainer, format(day, 'yyyy-MM-dd'))) return [];
+  return sortSlots((trainer.weeklySlots ?? []).filter(slot => slot.weekday === mondayFirst(day)));
+};
+
+// A slot covers its start minute but not its end, so back-to-back shifts don't overlap
+export const isAvailableAt = (trainer: AvailabilityFields, at: Date): boolean => {
+  const time = format(at, 'HH:mm');
+  return shiftsOn(trainer, at).some(slot => slot.start <= time && slot.end > time);
+};
+
+// Weekday list with consecutive runs collapsed, e.g. [0, 1, 2, 4] -> "Mon-Wed, Fri"
+export const formatWeekdays = (weekdays: number[]): string => {
+  const sorted = [...new Set(weekdays)].sort((a, b) => a - b);
+  const runs: number[][] = [];
+  sorted.forEach(day => {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === day - 1) run.push(day);
+    else runs.push([day]);
+  });
+  return runs
+    .map(run => run.length > 2
+      ? `${WEEKDAY_LABELS[run[0]]}-${WEEKDAY_LABELS[run[run.length - 1]]}`
+      : run.map(day => WEEKDAY_LABELS[day]).join(', '))
+    .join(', ');
+};
+
+// Short summary grouping days that share hours, e.g. "Mon-Fri 17:00-21:00; Sat 09:00-12:00"
+export const formatSlots = (slots: AvailabilitySlot[]): string => {
+  const byHours = new Map<string, number[]>();
+  sortSlots(slots).forEach(slot => {
+    const hours = `${slot.start}-${slot.end}`;
+    byHours.set(hours, [...(byHours.get(hours) ?? []), slot.weekday]);
+  });
+  return [...byHours.entries()].map(([hours, weekdays]) => `${formatWeekdays(weekdays)} ${hours}`).join('; ');
+};
+
+// First problem with the slots, or null when they can be saved
+export const validateSlots = (slots: AvailabilitySlot[]): string | null => {
+  const sorted = sortSlots(slots);
+  for (let i = 0; i < sorted.length; i++) {
+    const slot = sorted[i];
+    if (!slot.start || !slot.end) return `${WEEKDAY_LABELS[slot.weekday]}: enter a start and end time.`;
+    if (slot.end <= slot.start) return `${WEEKDAY_LABELS[slot.weekday]} ${slot.start}: a slot must end after it starts.`;
+    const next = sorted[i + 1];
+    if (next && next.weekday === slot.weekday && next.start < slot.end) {
+      return `${WEEKDAY_LABELS[slot.weekday]}: ${slot.start}-${slot.end} overlaps ${next.start}-${next.end}.`;
+    }
+  }
+  return null;
+};
+
+export const validateExceptions = (exceptions: AvailabilityException[]): string | null => {
+  const invalid = exceptions.find(e => !e.startDate || !e.endDate || e.endDate < e.startDate);
+  return invalid ? 'Each time-off entry needs a start date and an end date on or after it.' : null;
+};
+
+// --- Converting free-text availability ---
+
+const DAY_NAMES = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const DAY_WORD = '(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*';
+const TIME_WORD = '\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?';
+// A day list followed by a time range, e.g. "Mon, Wed & Fri 7am-12pm" or "Weekdays: 06:00 to 14:00"
+const SEGMENT_PATTERN = new RegExp(
+  `((?:${DAY_WORD}|weekdays|weekends|daily|every\\s*day)(?:\\s*(?:-|–|to|,|&|and)\\s*${DAY_WORD})*)\\s*:?\\s*(${TIME_WORD})\\s*(?:-|–|to)\\s*(${TIME_WORD})`,
+  'gi',
+);
+
+const parseDays = (text: string): number[] => {
+  const lower = text.toLowerCase();
+  if (lower === 'weekdays') return [0, 1, 2, 3, 4];
+  if (lower === 'weekends') return [5, 6];
+  if (lower === 'daily' || /^every\s*day$/.test(lower)) return [0, 1, 2, 3, 4, 5, 6];
+  return lower.split(/\s*(?:,|&|\band\b)\s*/).flatMap(item => {
+    const [from, to] = item.split(/\s*(?:-|–|\bto\b)\s*/).map(name => DAY_NAMES.indexOf(name.slice(0, 3)));
+    if (from < 0) return [];
+    if (to === undefined || to < 0) return [from];
+    const days: number[] = [];
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === to) break;
+    }
+    return days;
+  });
+};
+
+// "7am" -> "07:00", "2:30pm" -> "14:30", "14:00" -> "14:00"; null when out of range
+const parseTime = (text: string): string | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i.exec(text.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Best-effort reading of text like "Mon-Fri 6am-2pm" to prefill the slot editor. Anything it
+// can't read (including overnight shifts) is left out, so staff should check the result.
+export const parseAvailabilityText = (text: string): AvailabilitySlot[] => {
+  const slots: AvailabilitySlot[] = [];
+  for (const match of text.matchAll(SEGMENT_PATTERN)) {
+    const start = parseTime(match[2]);
+    const end = parseTime(match[3]);
+    if (!start || !end || end <= start) continue;
+    parseDays(match[1]).forEach(weekday => {
+      if (!slots.some(s => s.weekday === weekday && s.start === start && s.end === end)) {
+        slots.push({ weekday, start, end });
+      }
+    });
+  }
+  return sortSlots(slots);
+};
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_USE_MOCK_API?: string; // "true" to use the in-browser mock backend
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}